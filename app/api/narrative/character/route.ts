@@ -0,0 +1,9 @@
+import { createNarrativeHandler } from '../handler';
+import { generateCharacterDescription } from '../../../services/narrator';
+import { isCharacterDescriptionRequestBody } from '../../../lib/validation';
+
+// POST /api/narrative/character - expanded character descriptions
+export const POST = createNarrativeHandler(
+  isCharacterDescriptionRequestBody,
+  ({ userDescription, characterClass }) => generateCharacterDescription(userDescription, characterClass)
+);
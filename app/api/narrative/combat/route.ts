@@ -0,0 +1,9 @@
+import { createNarrativeHandler } from '../handler';
+import { generateCombatNarrative } from '../../../services/narrator';
+import { isCombatNarrativeRequestBody } from '../../../lib/validation';
+
+// POST /api/narrative/combat - narration for a resolved combat round
+export const POST = createNarrativeHandler(
+  isCombatNarrativeRequestBody,
+  ({ character, enemies, outcome }) => generateCombatNarrative(character, enemies, outcome)
+);
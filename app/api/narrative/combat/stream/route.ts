@@ -0,0 +1,9 @@
+import { createNarrativeStreamHandler } from '../../handler';
+import { streamCombatNarrative } from '../../../../services/narrator';
+import { isCombatNarrativeRequestBody } from '../../../../lib/validation';
+
+// POST /api/narrative/combat/stream - narration for a resolved combat round as an event stream
+export const POST = createNarrativeStreamHandler(
+  isCombatNarrativeRequestBody,
+  ({ character, enemies, outcome }, signal) => streamCombatNarrative(character, enemies, outcome, signal)
+);
@@ -0,0 +1,10 @@
+import { createNarrativeHandler } from '../handler';
+import { generateConversation } from '../../../services/narrator';
+import { isConversationRequestBody } from '../../../lib/validation';
+
+// POST /api/narrative/conversation - an NPC's reply in a free-form conversation
+export const POST = createNarrativeHandler(
+  isConversationRequestBody,
+  ({ character, npc, locationName, transcript, message }) =>
+    generateConversation(character, npc, locationName, transcript, message)
+);
@@ -0,0 +1,9 @@
+import { createNarrativeHandler } from '../handler';
+import { generateEpitaph } from '../../../services/narrator';
+import { isEpitaphRequestBody } from '../../../lib/validation';
+
+// POST /api/narrative/epitaph - the epitaph on the death screen
+export const POST = createNarrativeHandler(
+  isEpitaphRequestBody,
+  ({ character, defeat }) => generateEpitaph(character, defeat)
+);
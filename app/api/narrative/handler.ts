@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { NarrativeStreamEvent } from '../../types';
+import { NARRATIVE_ERROR_STATUS, NarrativeError, NarrativeErrorCode } from '../../lib/errors';
+import { checkRateLimit } from '../../lib/rateLimit';
+
+export const SESSION_COOKIE = 'narrativa_session';
+
+// Error payloads mirror NarrativeError so the client can rebuild it
+const errorResponse = (code: NarrativeErrorCode, message: string, details?: string[]) =>
+  NextResponse.json({ error: { code, message, details } }, { status: NARRATIVE_ERROR_STATUS[code] });
+
+const toErrorResponse = (error: unknown) => {
+  if (error instanceof NarrativeError) {
+    return errorResponse(error.code, error.message, error.details);
+  }
+  console.error('Unexpected narrative route error:', error);
+  return errorResponse('provider_unavailable', 'Narrative generation failed.');
+};
+
+// Proxies in front of the server that append the address they saw to
+// X-Forwarded-For. Without any, the header is whatever the client sent.
+const TRUSTED_PROXIES = Math.max(0, Math.floor(Number(process.env.NARRATIVE_TRUSTED_PROXIES) || 0));
+
+// The caller's address as the outermost trusted proxy saw it: counting from
+// the right, past the hops the other trusted proxies appended. Entries to the
+// left of it came from the client and can't be trusted. Null when no proxy is
+// trusted or the header is missing hops.
+const getClientAddress = (request: NextRequest) => {
+  if (TRUSTED_PROXIES === 0) return null;
+  const hops = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  return hops[hops.length - TRUSTED_PROXIES] ?? null;
+};
+
+type PreparedRequest<TBody> =
+  | { response: NextResponse }
+  | { body: TBody; withSession: (response: NextResponse) => NextResponse };
+
+// Shared by every narrative route: session cookie, rate limits and body validation
+const prepareRequest = async <TBody>(
+  request: NextRequest,
+  isValid: (body: unknown) => body is TBody
+): Promise<PreparedRequest<TBody>> => {
+  // Identify the session by cookie, issuing one on the first request
+  const existingSession = request.cookies.get(SESSION_COOKIE)?.value;
+  const sessionId = existingSession || uuidv4();
+
+  const withSession = (response: NextResponse) => {
+    if (!existingSession) {
+      response.cookies.set(SESSION_COOKIE, sessionId, {
+        httpOnly: true,
+        sameSite: 'strict',
+        path: '/api'
+      });
+    }
+    return response;
+  };
+
+  // The cookie is up to the client, so a fresh one on every request must not
+  // reset the limit: where a trusted proxy reports the caller's address, that
+  // is limited as well
+  const clientAddress = getClientAddress(request);
+  const limits = [
+    checkRateLimit(`session:${sessionId}`),
+    ...(clientAddress ? [checkRateLimit(`client:${clientAddress}`)] : [])
+  ];
+  const rateLimit = limits.find(limit => !limit.allowed);
+  if (rateLimit) {
+    const response = errorResponse('rate_limited', 'Too many requests. The Dungeon Master needs a moment to rest.');
+    response.headers.set('Retry-After', String(Math.ceil(rateLimit.retryAfterMs / 1000)));
+    return { response: withSession(response) };
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { response: withSession(errorResponse('invalid_request', 'Request body must be JSON.')) };
+  }
+
+  if (!isValid(body)) {
+    return { response: withSession(errorResponse('invalid_request', 'Invalid request body.')) };
+  }
+
+  return { body, withSession };
+};
+
+/**
+ * Build a POST handler that validates the body and rate limits per session
+ * and, behind a trusted proxy, per client address
+ * @param isValid Guard the request body must satisfy
+ * @param generate Produces the JSON payload for a valid body
+ * @returns A Next.js route handler
+ */
+export const createNarrativeHandler = <TBody, TResult>(
+  isValid: (body: unknown) => body is TBody,
+  generate: (body: TBody) => Promise<TResult>
+) => {
+  return async (request: NextRequest) => {
+    const prepared = await prepareRequest(request, isValid);
+    if ('response' in prepared) return prepared.response;
+
+    try {
+      const result = await generate(prepared.body);
+      return prepared.withSession(NextResponse.json(result));
+    } catch (error) {
+      return prepared.withSession(toErrorResponse(error));
+    }
+  };
+};
+
+/**
+ * Build a POST handler that streams narrative events back to the client as
+ * newline-delimited JSON, one NarrativeStreamEvent per line
+ * @param isValid Guard the request body must satisfy
+ * @param stream Produces events for a valid body
+ * @returns A Next.js route handler
+ */
+export const createNarrativeStreamHandler = <TBody>(
+  isValid: (body: unknown) => body is TBody,
+  stream: (body: TBody, signal: AbortSignal) => AsyncIterable<NarrativeStreamEvent>
+) => {
+  return async (request: NextRequest) => {
+    const prepared = await prepareRequest(request, isValid);
+    if ('response' in prepared) return prepared.response;
+
+    // Stop the model call if the player cancels or disconnects
+    const abort = new AbortController();
+    request.signal.addEventListener('abort', () => abort.abort());
+    const iterator = stream(prepared.body, abort.signal)[Symbol.asyncIterator]();
+
+    // Wait for the first chunk so provider failures still get a proper status
+    let first: IteratorResult<NarrativeStreamEvent>;
+    try {
+      first = await iterator.next();
+    } catch (error) {
+      console.error('Narrative stream failed to start:', error);
+      return prepared.withSession(errorResponse('provider_unavailable', 'The narrative provider could not start the stream.'));
+    }
+
+    const encoder = new TextEncoder();
+    const encode = (event: NarrativeStreamEvent) => encoder.encode(`${JSON.stringify(event)}\n`);
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (first.done) controller.close();
+        else controller.enqueue(encode(first.value));
+      },
+      async pull(controller) {
+        try {
+          const { value, done } = await iterator.next();
+          if (done) controller.close();
+          else controller.enqueue(encode(value));
+        } catch (error) {
+          console.error('Narrative stream failed:', error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        abort.abort();
+        await iterator.return?.();
+      }
+    });
+
+    return prepared.withSession(new NextResponse(body, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache'
+      }
+    }));
+  };
+};
@@ -0,0 +1,10 @@
+import { createNarrativeHandler } from '../handler';
+import { generateLocation } from '../../../services/narrator';
+import { isLocationRequestBody } from '../../../lib/validation';
+
+// POST /api/narrative/location - a new location beyond the known paths
+export const POST = createNarrativeHandler(
+  isLocationRequestBody,
+  ({ character, origin, neighbours, knownNames, destination }) =>
+    generateLocation(character, origin, neighbours, knownNames, destination)
+);
@@ -0,0 +1,9 @@
+import { createNarrativeHandler } from './handler';
+import { generateNarrative } from '../../services/narrator';
+import { isNarrativeRequestBody } from '../../lib/validation';
+
+// POST /api/narrative - scene and action narration
+export const POST = createNarrativeHandler(
+  isNarrativeRequestBody,
+  ({ context, playerAction }) => generateNarrative(context, playerAction)
+);
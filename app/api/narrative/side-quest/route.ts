@@ -0,0 +1,10 @@
+import { createNarrativeHandler } from '../handler';
+import { generateSideQuest } from '../../../services/narrator';
+import { isSideQuestRequestBody } from '../../../lib/validation';
+
+// POST /api/narrative/side-quest - a side quest proposed from the known world
+export const POST = createNarrativeHandler(
+  isSideQuestRequestBody,
+  ({ character, currentLocation, world, quests, gameLog }) =>
+    generateSideQuest(character, currentLocation, world, quests, gameLog)
+);
@@ -0,0 +1,9 @@
+import { createNarrativeStreamHandler } from '../handler';
+import { streamNarrative } from '../../../services/narrator';
+import { isNarrativeRequestBody } from '../../../lib/validation';
+
+// POST /api/narrative/stream - scene and action narration with Dungeon Master tool calls, as an event stream
+export const POST = createNarrativeStreamHandler(
+  isNarrativeRequestBody,
+  ({ context, playerAction }, signal) => streamNarrative(context, playerAction, signal)
+);
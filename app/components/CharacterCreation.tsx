@@ -2,9 +2,11 @@
 
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { useGameStore } from '../lib/store';
-import { CharacterClass, CharacterRelic } from '../types';
+import { contentPack, respawnPoint, useGameStore } from '../lib/store';
+import { CharacterClass, CharacterRelic, DefeatConsequence } from '../types';
 import { generateCharacterDescription } from '../services/gemini';
+import { describeNarrativeError } from '../lib/errors';
+import { describeBonuses, getRelicBonuses } from '../lib/equipment';
 
 const characterClasses: { value: CharacterClass; label: string; description: string }[] = [
   {
@@ -52,12 +54,31 @@ const relics: { value: CharacterRelic; label: string; description: string }[] =
   }
 ];
 
+const defeatConsequences: { value: DefeatConsequence; label: string; description: string }[] = [
+  {
+    value: 'respawn',
+    label: 'Respawn',
+    description: `Wake in ${respawnPoint.name} after death, losing some gold and experience.`
+  },
+  {
+    value: 'reload',
+    label: 'Reload',
+    description: 'Return to your last save after death.'
+  },
+  {
+    value: 'permadeath',
+    label: 'Hardcore',
+    description: 'Death is final. Your character and save are deleted.'
+  }
+];
+
 export default function CharacterCreation() {
   const { createNewCharacter, startNewGame } = useGameStore();
   const [step, setStep] = useState<'intro' | 'details' | 'description' | 'confirm'>('intro');
   const [name, setName] = useState('');
   const [characterClass, setCharacterClass] = useState<CharacterClass | ''>('');
   const [relic, setRelic] = useState<CharacterRelic | ''>('');
+  const [defeatConsequence, setDefeatConsequence] = useState<DefeatConsequence>('respawn');
   const [userDescription, setUserDescription] = useState('');
   const [generatedDescription, setGeneratedDescription] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
@@ -95,7 +116,7 @@ export default function CharacterCreation() {
       setStep('confirm');
     } catch (error) {
       console.error('Error generating character description:', error);
-      alert('There was an error generating your character. Please try again.');
+      alert(`There was an error generating your character. ${describeNarrativeError(error)}`);
     } finally {
       setIsGenerating(false);
     }
@@ -106,7 +127,8 @@ export default function CharacterCreation() {
       name,
       generatedDescription || userDescription,
       characterClass as CharacterClass,
-      relic as CharacterRelic
+      relic as CharacterRelic,
+      defeatConsequence
     );
     startNewGame();
   };
@@ -123,7 +145,7 @@ export default function CharacterCreation() {
           <h1 className="text-4xl font-bold mb-6 text-red-500">Dark Fantasy RPG</h1>
           <p className="text-lg mb-8 text-gray-300">
             Venture into a world of darkness, where ancient evils stir and heroes are forged in blood and shadow.
-            Your journey begins in the cursed village of Eldermoor, a place where hope has all but faded...
+            {' '}{contentPack.intro}
           </p>
           <button
             onClick={() => setStep('details')}
@@ -192,6 +214,27 @@ export default function CharacterCreation() {
                   >
                     <h3 className="font-bold text-lg">{item.label}</h3>
                     <p className="text-sm text-gray-400 mt-1">{item.description}</p>
+                    <p className="text-xs text-red-300 mt-2">Passive: {describeBonuses(getRelicBonuses(item.value))}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-3">
+                When You Die
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {defeatConsequences.map((option) => (
+                  <div
+                    key={option.value}
+                    onClick={() => setDefeatConsequence(option.value)}
+                    className={`p-4 rounded-lg cursor-pointer hover:bg-gray-700 transition-colors ${
+                      defeatConsequence === option.value ? 'bg-red-900 border border-red-500' : 'bg-gray-800 border border-gray-700'
+                    }`}
+                  >
+                    <h3 className="font-bold text-lg">{option.label}</h3>
+                    <p className="text-sm text-gray-400 mt-1">{option.description}</p>
                   </div>
                 ))}
               </div>
@@ -282,6 +325,12 @@ export default function CharacterCreation() {
               <span className="mx-2 text-gray-500">|</span>
               <span className="text-gray-400">Relic: </span>
               <span className="text-gray-200">{relic}</span>
+              {defeatConsequence === 'permadeath' && (
+                <>
+                  <span className="mx-2 text-gray-500">|</span>
+                  <span className="text-red-400">Hardcore</span>
+                </>
+              )}
             </div>
             <div className="border-t border-gray-700 my-4"></div>
             <p className="whitespace-pre-line text-gray-300">{generatedDescription || userDescription}</p>
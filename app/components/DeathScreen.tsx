@@ -0,0 +1,83 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { respawnPoint, useGameStore } from '../lib/store';
+import { DEFEAT_PENALTIES } from '../lib/defeat';
+import { generateEpitaph } from '../services/gemini';
+import { DefeatConsequence } from '../types';
+
+const consequenceText: Record<DefeatConsequence, { action: string; description: string }> = {
+  respawn: {
+    action: 'Rise Again',
+    description: `You will wake in ${respawnPoint.name}, losing ${DEFEAT_PENALTIES.goldShare * 100}% of your gold and ${DEFEAT_PENALTIES.experienceShare * 100}% of your experience toward the next level.`
+  },
+  reload: {
+    action: 'Return to Last Save',
+    description: `You will return to your last save. If there is none, you will wake in ${respawnPoint.name} instead.`
+  },
+  permadeath: {
+    action: 'Begin Anew',
+    description: 'This was a hardcore run. Your character and save are gone for good.'
+  }
+};
+
+export default function DeathScreen() {
+  const { character, defeat, acceptDefeat } = useGameStore();
+  const [epitaph, setEpitaph] = useState<string | null>(null);
+
+  // Ask the Dungeon Master for an epitaph, falling back to a plain one
+  useEffect(() => {
+    if (!character || !defeat) return;
+    let cancelled = false;
+
+    generateEpitaph(character, defeat)
+      .then(response => {
+        if (!cancelled) setEpitaph(response.text);
+      })
+      .catch(error => {
+        console.error('Error generating epitaph:', error);
+        if (!cancelled) setEpitaph(`Here lies ${defeat.characterName}, slain by ${defeat.killedBy} at ${defeat.locationName}.`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [character, defeat]);
+
+  if (!defeat) return null;
+
+  const consequence = consequenceText[defeat.consequence];
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 1.5 }}
+        className="max-w-2xl mx-auto text-center"
+      >
+        <h1 className="text-4xl font-bold mb-2 text-red-500">You Have Fallen</h1>
+        <p className="text-sm text-gray-400 mb-8">
+          {defeat.characterName}, level {defeat.level} {defeat.characterClass}, slain by {defeat.killedBy} at {defeat.locationName}
+        </p>
+
+        <div className="bg-gray-800 p-6 rounded-lg mb-8 min-h-24 flex items-center justify-center">
+          {epitaph === null ? (
+            <span className="animate-pulse text-gray-500">The Dungeon Master carves your epitaph...</span>
+          ) : (
+            <p className="italic text-gray-300 whitespace-pre-line">{epitaph}</p>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-400 mb-6">{consequence.description}</p>
+        <button
+          onClick={acceptDefeat}
+          className="px-6 py-3 bg-red-700 text-white font-bold rounded-lg hover:bg-red-600 transition-colors"
+        >
+          {consequence.action}
+        </button>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useGameStore } from '../lib/store';
+import { getAvailableResponses, getDialogOption } from '../lib/dialog';
+
+interface DialogPanelProps {
+  npcId: string;
+  onClose: () => void;
+  // A response can hand over to the NPC's shop
+  onOpenShop: (npcId: string) => void;
+}
+
+export default function DialogPanel({ npcId, onClose, onOpenShop }: DialogPanelProps) {
+  const { character, currentLocation, quests, combat, respondToDialog } = useGameStore();
+  // Undefined means the greeting
+  const [optionId, setOptionId] = useState<string | undefined>(undefined);
+
+  const npc = currentLocation?.npcs?.find(n => n.id === npcId);
+  if (!character || !npc) return null;
+
+  // NPCs without a dialog tree only talk freely
+  const option = getDialogOption(npc, optionId);
+  const responses = option ? getAvailableResponses(option, { character, quests, npc }) : [];
+
+  const respond = (responseId: string) => {
+    if (!option) return;
+    const result = respondToDialog(npc.id, option.id, responseId);
+    if (!result) return;
+    if (result.openShop) onOpenShop(npc.id);
+    if (result.nextOptionId) {
+      setOptionId(result.nextOptionId);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg mb-4">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg font-medium">
+          {npc.name} <span className="text-xs text-gray-400">({npc.attitude})</span>
+        </h2>
+        <button onClick={onClose} className="text-sm text-gray-400 hover:text-white">
+          Leave
+        </button>
+      </div>
+      {option && <p className="text-sm text-gray-300 italic mb-3">{option.text}</p>}
+      <ul className="space-y-1 mb-2">
+        {responses.map(response => (
+          <li key={response.id}>
+            <button
+              onClick={() => respond(response.id)}
+              disabled={!!combat}
+              className="w-full text-left px-3 py-1 text-sm bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {response.text}
+            </button>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-gray-500">
+        {responses.length > 0 ? 'Or type below to say anything you like.' : `Type below to speak with ${npc.name}.`}
+      </p>
+    </div>
+  );
+}
@@ -1,43 +1,149 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useGameStore } from '../lib/store';
-import { generateNarrative, generateCombatNarrative } from '../services/gemini';
-import { Enemy } from '../types';
+import { generateConversation, generateLocation, streamNarrative, streamCombatNarrative, StreamedNarrative, StreamOptions } from '../services/gemini';
+import { describeNarrativeError, NarrativeError } from '../lib/errors';
+import { describeExamineTarget, parseCommand } from '../lib/commands';
+import { selectRequestQuests } from '../lib/quests';
+import { getAbilityBlocker, getCurrentCombatantId, getLivingEnemies, PLAYER_COMBATANT_ID } from '../lib/combat';
+import { isStillFighting } from '../lib/enemyBehaviour';
+import { describeBonuses, EQUIPMENT_SLOTS, SLOT_LABELS } from '../lib/equipment';
+import { describeStatusEffect, STATUS_RULES } from '../lib/statusEffects';
+import { toPersona } from '../lib/conversation';
+import { getExpansionBlocker } from '../lib/worldGen';
+import { formatClock, formatDate, getActiveEnemies, getTimeOfDay } from '../lib/clock';
+import { CombatRoundOutcome, ConversationLine, NPC, StatusEffect } from '../types';
+import InventoryPanel from './InventoryPanel';
+import ShopPanel from './ShopPanel';
+import DialogPanel from './DialogPanel';
+import QuestJournal from './QuestJournal';
+import WorldMap from './WorldMap';
+
+// Badges for active status effects: red for harmful, green for beneficial
+const StatusBadges = ({ effects }: { effects?: StatusEffect[] }) => {
+  if (!effects || effects.length === 0) return null;
+  return (
+    <span className="inline-flex flex-wrap gap-1">
+      {effects.map(effect => (
+        <span
+          key={effect.kind}
+          className={`px-1.5 py-0.5 rounded text-xs ${STATUS_RULES[effect.kind].harmful ? 'bg-red-900 text-red-200' : 'bg-green-900 text-green-200'}`}
+        >
+          {describeStatusEffect(effect)}
+        </span>
+      ))}
+    </span>
+  );
+};
 
 export default function GameInterface() {
   const { 
     character,
     currentLocation,
     gameLog,
+    quests,
     combat,
+    encounter,
+    locations,
+    gameTime,
     moveToLocation,
+    discoverLocation,
+    takeItem,
+    rest,
+    startCombat,
+    engageEncounter,
+    avoidEncounter,
     attackEnemy,
+    castAbility,
     addToGameLog,
-    useItem
+    applyDungeonMasterCalls,
+    applyConversationResponse,
+    recordQuestEvent,
+    saveGame,
+    equipItem,
+    unequipItem,
+    // Renamed so calls inside handlers aren't mistaken for React hooks
+    useItem: applyItem
   } = useGameStore();
 
   const [userInput, setUserInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [currentNarrative, setCurrentNarrative] = useState('');
+  // Text received so far while a narration is streaming; null when idle
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const narrationAbortRef = useRef<AbortController | null>(null);
+  // Enemy whose ability picker is open, if any
+  const [abilityTargetId, setAbilityTargetId] = useState<string | null>(null);
+  // Merchant whose shop is open, if any
+  const [shopNpcId, setShopNpcId] = useState<string | null>(null);
+  // NPC the player is in conversation with, if any
+  const [talkNpcId, setTalkNpcId] = useState<string | null>(null);
+  // Lines spoken in the current free-form conversation
+  const [transcript, setTranscript] = useState<ConversationLine[]>([]);
+  // NPC the player is speaking with; gone if they left or were slain
+  const talkNpc = talkNpcId ? currentLocation?.npcs?.find(n => n.id === talkNpcId) : undefined;
+
+  // Stream a narration into the narrative panel. The text replaces the current
+  // narrative (and optionally enters the game log) and the Dungeon Master's
+  // tool calls are applied only if the stream completes.
+  const runNarration = async (
+    start: (options: StreamOptions) => Promise<StreamedNarrative>,
+    commitToLog: boolean,
+    controller = new AbortController()
+  ) => {
+    narrationAbortRef.current?.abort();
+    narrationAbortRef.current = controller;
+    setStreamingText('');
+
+    try {
+      const { text, calls } = await start({ onText: setStreamingText, signal: controller.signal });
+      setCurrentNarrative(text);
+      if (commitToLog) {
+        addToGameLog(text, 'narrative');
+      }
+      applyDungeonMasterCalls(calls);
+    } catch (error) {
+      if (!(error instanceof NarrativeError && error.code === 'cancelled')) {
+        throw error;
+      }
+    } finally {
+      if (narrationAbortRef.current === controller) {
+        narrationAbortRef.current = null;
+        setStreamingText(null);
+      }
+    }
+  };
+
+  const cancelNarration = () => {
+    narrationAbortRef.current?.abort();
+  };
 
-  // Generate initial narrative when component mounts
+  // Generate the scene narrative when the game starts and on every location change
   useEffect(() => {
+    const controller = new AbortController();
+
+    // Shops and conversations stay behind when the player leaves
+    setShopNpcId(null);
+    setTalkNpcId(null);
+
     async function loadInitialNarrative() {
       if (character && currentLocation) {
         setIsLoading(true);
         try {
-          const response = await generateNarrative({
+          await runNarration(options => streamNarrative({
             character,
             currentLocation,
-            gameLog: gameLog.slice(-3)
-          });
-          
-          setCurrentNarrative(response.text);
+            gameLog: gameLog.slice(-3),
+            quests: selectRequestQuests(quests),
+            inCombat: !!combat,
+            gameTime
+          }, undefined, options), false, controller);
           // In a full implementation, we would use the imagePrompt with Flux API
         } catch (error) {
           console.error('Error generating initial narrative:', error);
+          setCurrentNarrative(describeNarrativeError(error));
         } finally {
           setIsLoading(false);
         }
@@ -45,93 +151,227 @@ export default function GameInterface() {
     }
     
     loadInitialNarrative();
-  }, [character, currentLocation]);
+    return () => controller.abort();
+    // Character and log changes (e.g. taking damage) must not restart the scene narration
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentLocation?.id]);
 
   // Handle player action
   const handleAction = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!userInput.trim() || isLoading) return;
+    if (!userInput.trim() || isLoading || !character || !currentLocation) return;
     
     // Add player's input to the game log
     addToGameLog(`You: ${userInput}`, 'dialog');
     
     setIsLoading(true);
     try {
-      // Process the player's input to determine action type
-      const action = userInput.toLowerCase();
+      // In a conversation, everything typed is said to the NPC
+      if (talkNpc) {
+        const message = userInput.trim();
+        setUserInput('');
+        await speakToNpc(talkNpc, message);
+        return;
+      }
       
-      // Simple action parsing for MVP
-      if (action.includes('move to') || action.includes('go to')) {
-        // Extract location from action
-        const locationMatches = currentLocation?.connections.filter(conn => 
-          action.includes(conn.toLowerCase())
-        );
-        
-        if (locationMatches && locationMatches.length > 0) {
-          moveToLocation(locationMatches[0]);
-          
+      // Interpret the input against what is actually around the player: the
+      // enemies they ran into, or else those about at this hour
+      const enemiesInSight = encounter?.enemies ?? getActiveEnemies(currentLocation.enemies ?? [], gameTime);
+      const scope = {
+        currentLocation: { ...currentLocation, enemies: enemiesInSight },
+        locations,
+        inventory: character.inventory,
+        equipment: character.equipment
+      };
+      const command = parseCommand(userInput, scope);
+      setUserInput('');
+      
+      switch (command.type) {
+        case 'move':
           // Location change will trigger a re-render and new narrative
-          setUserInput('');
-          setIsLoading(false);
-          return;
+          moveToLocation(command.locationId);
+          break;
+        case 'discover':
+          await chartLocation(command.destination);
+          break;
+        case 'examine':
+          addToGameLog(describeExamineTarget(command.target, scope), 'narrative');
+          break;
+        case 'take':
+          takeItem(command.itemId);
+          break;
+        case 'use':
+          await narrateCombatRound(await applyItem(command.itemId));
+          break;
+        case 'equip':
+          equipItem(command.itemId);
+          break;
+        case 'unequip':
+          unequipItem(command.slot);
+          break;
+        case 'attack': {
+          // Enemies the player spotted on arrival fight as one group
+          if (encounter) {
+            engageEncounter();
+            break;
+          }
+          startCombat(command.enemyId ? enemiesInSight.filter(e => e.id === command.enemyId) : enemiesInSight);
+          break;
+        }
+        case 'trade':
+          setShopNpcId(command.npcId);
+          break;
+        case 'rest':
+          rest();
+          break;
+        case 'inventory':
+          addToGameLog(
+            character.inventory.length > 0
+              ? `You are carrying: ${character.inventory.map(item => item.name).join(', ')}. Gold: ${character.gold}.`
+              : `Your pack is empty. Gold: ${character.gold}.`,
+            'system'
+          );
+          break;
+        case 'unresolved':
+          addToGameLog(command.message, 'system');
+          break;
+        case 'talk':
+        case 'freeform': {
+          // Talking to an NPC opens a conversation; other open-ended actions go to the narrator
+          const npc = command.type === 'talk' ? currentLocation.npcs?.find(n => n.id === command.npcId) : undefined;
+          if (npc) {
+            startConversation(npc);
+            break;
+          }
+          await runNarration(options => streamNarrative({
+            character,
+            currentLocation,
+            gameLog: gameLog.slice(-3),
+            quests: selectRequestQuests(quests),
+            inCombat: !!combat,
+            gameTime
+          }, userInput, options), true);
+          // In a full implementation, we would use the imagePrompt with Flux API
+          break;
         }
       }
-      
-      // Process as a general action
-      const response = await generateNarrative({
-        character,
-        currentLocation,
-        gameLog: gameLog.slice(-3)
-      }, userInput);
-      
-      setCurrentNarrative(response.text);
-      addToGameLog(response.text, 'narrative');
-      
-      // In a full implementation, we would use the imagePrompt with Flux API
-      
     } catch (error) {
       console.error('Error processing action:', error);
-      addToGameLog('Something went wrong. Please try again.', 'system');
+      addToGameLog(describeNarrativeError(error), 'system');
     } finally {
       setUserInput('');
       setIsLoading(false);
     }
   };
 
+  // Head beyond the known paths: the narrator charts a new location, which
+  // becomes part of the world for good
+  const chartLocation = async (destination: string) => {
+    if (!character || !currentLocation) return;
+    if (combat) {
+      addToGameLog('There is no escaping this fight that way!', 'system');
+      return;
+    }
+    
+    const blocker = getExpansionBlocker(locations, currentLocation, character.level);
+    if (blocker) {
+      addToGameLog(blocker, 'system');
+      return;
+    }
+    
+    const neighbours = currentLocation.connections.map(id => locations[id]).filter(Boolean);
+    const knownNames = Object.values(locations).map(location => location.name);
+    const draft = await generateLocation(character, currentLocation, neighbours, knownNames, destination);
+    discoverLocation(currentLocation.id, draft);
+  };
+
+  // Open a conversation with an NPC, starting at their dialog tree's greeting if they have one
+  const startConversation = (npc: NPC) => {
+    if (combat) return;
+    setShopNpcId(null);
+    setTalkNpcId(npc.id);
+    setTranscript([]);
+    addToGameLog(
+      npc.dialog.length > 0 ? `${npc.name}: ${npc.dialog[0].text}` : `You approach ${npc.name}.`,
+      'dialog'
+    );
+    recordQuestEvent({ type: 'interact', targets: [npc.id, npc.name] });
+  };
+
+  // Say something to the NPC in conversation; they answer in character and
+  // may change their mind about the player, or attack
+  const speakToNpc = async (npc: NPC, message: string) => {
+    if (!character || !currentLocation) return;
+    
+    const response = await generateConversation(character, toPersona(npc), currentLocation.name, transcript, message);
+    setTranscript([...transcript, { speaker: 'player', text: message }, { speaker: 'npc', text: response.reply }]);
+    if (applyConversationResponse(npc.id, response).attacked) {
+      setTalkNpcId(null);
+    }
+  };
+
+  // Narrate a whole combat round from the state the engine left behind
+  const narrateCombatRound = async (outcome: CombatRoundOutcome | null) => {
+    // A defeat hands over to the death screen, which narrates it
+    if (!outcome || outcome.status === 'defeat' || !character) return;
+    
+    const after = useGameStore.getState();
+    const enemiesAfter = after.combat?.enemies ?? combat?.enemies.map(e => ({ ...e, health: 0 })) ?? [];
+    await runNarration(options => streamCombatNarrative(
+      after.character ?? character,
+      enemiesAfter,
+      outcome,
+      options
+    ), true);
+  };
+
+  // Use an item from the inventory panel; in combat it takes the player's turn
+  const handleUseItem = async (itemId: string) => {
+    if (isLoading) return;
+    if (!combat) {
+      applyItem(itemId);
+      return;
+    }
+    
+    setAbilityTargetId(null);
+    setIsLoading(true);
+    try {
+      await narrateCombatRound(await applyItem(itemId));
+    } catch (error) {
+      console.error('Error generating combat narrative:', error);
+      addToGameLog(describeNarrativeError(error), 'system');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Handle combat action
-  const handleCombatAction = async (enemyId: string, actionType: string) => {
+  const handleCombatAction = async (enemyId: string, actionType: 'attack' | 'ability', abilityId?: string) => {
     if (!combat || !character || isLoading) return;
     
     const enemy = combat.enemies.find(e => e.id === enemyId);
     if (!enemy) return;
     
-    setIsLoading(true);
+    // The Ability button only opens the picker; choosing an ability acts
+    if (actionType === 'ability' && !abilityId) {
+      setAbilityTargetId(abilityTargetId === enemyId ? null : enemyId);
+      return;
+    }
     
-    // Process attack action
-    if (actionType === 'attack') {
-      // Add to log
-      addToGameLog(`You attack ${enemy.name}.`, 'combat');
-      
-      // Perform attack in game logic
-      attackEnemy(enemyId, 'Basic Attack');
-      
-      try {
-        // Generate combat narrative
-        const narrativeResponse = await generateCombatNarrative(
-          character,
-          [enemy],
-          `${character.name} attacks ${enemy.name} with their ${character.relic}`,
-          `The attack deals damage to ${enemy.name}.`
-        );
-        
-        setCurrentNarrative(narrativeResponse.text);
-        addToGameLog(narrativeResponse.text, 'narrative');
-      } catch (error) {
-        console.error('Error generating combat narrative:', error);
-      } finally {
-        setIsLoading(false);
-      }
+    setAbilityTargetId(null);
+    setIsLoading(true);
+    try {
+      // Resolve the player's action and the enemy turns that follow it
+      const outcome = actionType === 'ability' && abilityId
+        ? await castAbility(abilityId, enemyId)
+        : await attackEnemy(enemyId, 'Basic Attack');
+      await narrateCombatRound(outcome);
+    } catch (error) {
+      console.error('Error generating combat narrative:', error);
+      addToGameLog(describeNarrativeError(error), 'system');
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -151,12 +391,29 @@ export default function GameInterface() {
         <div className="container mx-auto flex justify-between items-center">
           <h1 className="text-xl font-bold text-red-500">Dark Fantasy RPG</h1>
           <div className="flex items-center space-x-4">
+            <div className="text-sm" title={formatDate(gameTime)}>
+              <span className="text-gray-400">Day {getTimeOfDay(gameTime).day},</span> {formatClock(gameTime)}{' '}
+              <span className="text-gray-400 capitalize">({getTimeOfDay(gameTime).phase})</span>
+            </div>
             <div className="text-sm">
               <span className="text-gray-400">Health:</span> {character.health}/{character.maxHealth}
             </div>
+            <div className="text-sm">
+              <span className="text-gray-400">Mana:</span> {character.mana}/{character.maxMana}
+            </div>
             <div className="text-sm">
               <span className="text-gray-400">Level:</span> {character.level}
             </div>
+            <button
+              onClick={() => {
+                addToGameLog('Game saved.', 'system');
+                saveGame();
+              }}
+              disabled={!!combat}
+              className="px-3 py-1 bg-gray-700 text-white text-sm rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
           </div>
         </div>
       </header>
@@ -174,16 +431,67 @@ export default function GameInterface() {
           <div className="bg-gray-800 p-4 rounded-lg mb-4">
             <h2 className="text-lg font-medium mb-2">{currentLocation?.name}</h2>
             <p className="text-sm text-gray-400">{currentLocation?.description}</p>
+            {currentLocation?.npcs && currentLocation.npcs.length > 0 && (
+              <ul className="mt-3 space-y-1 text-sm">
+                {currentLocation.npcs.map(npc => (
+                  <li key={npc.id} className="flex items-center justify-between">
+                    <span>{npc.name}</span>
+                    <div className="space-x-2">
+                      {npc.dialog.length > 0 && (
+                        <button
+                          onClick={() => startConversation(npc)}
+                          disabled={!!combat}
+                          className="px-2 py-0.5 text-xs bg-blue-800 rounded hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                        >
+                          Talk
+                        </button>
+                      )}
+                      {npc.merchant && (
+                        <button
+                          onClick={() => setShopNpcId(npc.id)}
+                          disabled={!!combat}
+                          className="px-2 py-0.5 text-xs bg-yellow-800 rounded hover:bg-yellow-700 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                        >
+                          Trade
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
           
+          {/* Map */}
+          <WorldMap disabled={!!combat || isLoading || !!talkNpc} />
+          
+          {/* Conversation */}
+          {talkNpc && (
+            <DialogPanel
+              key={talkNpc.id}
+              npcId={talkNpc.id}
+              onClose={() => setTalkNpcId(null)}
+              onOpenShop={setShopNpcId}
+            />
+          )}
+          
+          {/* Shop */}
+          {shopNpcId && <ShopPanel npcId={shopNpcId} onClose={() => setShopNpcId(null)} />}
+          
           {/* Character Info */}
           <div className="bg-gray-800 p-4 rounded-lg">
             <h2 className="text-lg font-medium mb-2">{character.name}</h2>
             <div className="flex justify-between text-sm mb-2">
               <span>Level {character.level} {character.class}</span>
-              <span>HP: {character.health}/{character.maxHealth}</span>
+              <span>HP: {character.health}/{character.maxHealth} MP: {character.mana}/{character.maxMana}</span>
             </div>
             
+            {character.statusEffects && character.statusEffects.length > 0 && (
+              <div className="mb-2">
+                <StatusBadges effects={character.statusEffects} />
+              </div>
+            )}
+            
             <div className="grid grid-cols-3 gap-2 text-xs">
               <div>STR: {character.stats.strength}</div>
               <div>INT: {character.stats.intelligence}</div>
@@ -192,14 +500,50 @@ export default function GameInterface() {
               <div>WIS: {character.stats.wisdom}</div>
               <div>CHA: {character.stats.charisma}</div>
             </div>
+            
+            <div className="border-t border-gray-700 mt-3 pt-3 space-y-1 text-xs">
+              {EQUIPMENT_SLOTS.map(slot => {
+                const item = character.equipment[slot];
+                return (
+                  <div key={slot} className="flex items-center justify-between">
+                    <div>
+                      <span className="text-gray-400">{SLOT_LABELS[slot]}:</span>{' '}
+                      {item ? (
+                        <>
+                          <span>{item.name}</span>
+                          {item.bonuses && <span className="text-gray-500 ml-1">({describeBonuses(item.bonuses)})</span>}
+                        </>
+                      ) : (
+                        <span className="text-gray-600">empty</span>
+                      )}
+                    </div>
+                    {item && (
+                      <button
+                        onClick={() => unequipItem(slot)}
+                        disabled={!!combat}
+                        className="text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Unequip
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
           </div>
+          
+          {/* Inventory */}
+          <InventoryPanel onUse={handleUseItem} canUse={!isLoading && (!combat || combat.playerTurn)} />
+          
+          {/* Quests */}
+          <QuestJournal />
         </div>
         
         {/* Right Panel - Game Narrative */}
         <div className="w-full md:w-1/2 p-4 flex flex-col">
           {/* Narrative Display */}
           <div className="flex-1 bg-gray-800 p-4 rounded-lg mb-4 overflow-y-auto max-h-96">
-            {isLoading ? (
+            {isLoading && !streamingText ? (
               <div className="flex justify-center items-center h-full">
                 <div className="animate-pulse text-gray-500">The Dungeon Master is thinking...</div>
               </div>
@@ -210,9 +554,19 @@ export default function GameInterface() {
                 transition={{ duration: 0.5 }}
                 className="prose prose-invert prose-sm max-w-none"
               >
-                <p className="whitespace-pre-line">{currentNarrative}</p>
+                <p className="whitespace-pre-line">{streamingText ?? currentNarrative}</p>
               </motion.div>
             )}
+            {streamingText !== null && (
+              <div className="flex justify-end mt-2">
+                <button
+                  onClick={cancelNarration}
+                  className="px-3 py-1 bg-gray-700 text-white text-xs rounded hover:bg-gray-600"
+                >
+                  Stop narration
+                </button>
+              </div>
+            )}
           </div>
           
           {/* Game Log */}
@@ -232,33 +586,125 @@ export default function GameInterface() {
             </div>
           </div>
           
+          {/* Encounter */}
+          {encounter && !combat && (
+            <div className="bg-gray-800 p-4 rounded-lg mb-4 border border-red-900">
+              <h3 className="text-sm font-medium text-red-400 mb-2">You spot them first</h3>
+              <ul className="text-sm text-gray-300 mb-3 space-y-1">
+                {encounter.enemies.map(enemy => (
+                  <li key={enemy.id}>{enemy.name} <span className="text-xs text-gray-500">(level {enemy.level})</span></li>
+                ))}
+              </ul>
+              <div className="space-x-2">
+                <button
+                  onClick={engageEncounter}
+                  disabled={isLoading}
+                  className="px-3 py-1 text-sm bg-red-700 rounded hover:bg-red-600 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                >
+                  Attack first
+                </button>
+                <button
+                  onClick={avoidEncounter}
+                  disabled={isLoading}
+                  className="px-3 py-1 text-sm bg-gray-700 rounded hover:bg-gray-600 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                >
+                  Slip away
+                </button>
+              </div>
+            </div>
+          )}
+          
           {/* Action Input */}
           {combat && combat.inCombat ? (
             <div className="bg-gray-800 p-4 rounded-lg">
-              <h3 className="text-sm font-medium mb-2 text-red-400">Combat Actions</h3>
+              <div className="flex justify-between items-center mb-2">
+                <h3 className="text-sm font-medium text-red-400">Combat Actions</h3>
+                <span className="text-xs text-gray-400">Round {combat.round}</span>
+              </div>
+              
+              {/* Turn order, with the combatant whose turn it is highlighted */}
+              <div className="flex flex-wrap gap-2 mb-3 text-xs">
+                {combat.turnOrder.map((id) => {
+                  const enemy = combat.enemies.find(e => e.id === id);
+                  if (enemy && !isStillFighting(enemy)) return null;
+                  const isCurrent = id === getCurrentCombatantId(combat);
+                  return (
+                    <span
+                      key={id}
+                      className={`px-2 py-1 rounded ${isCurrent ? 'bg-red-800 text-white' : 'bg-gray-700 text-gray-400'}`}
+                    >
+                      {id === PLAYER_COMBATANT_ID ? 'You' : enemy?.name}
+                    </span>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-gray-400 mb-2">
+                {combat.playerTurn
+                  ? 'Your turn.'
+                  : `${combat.enemies.find(e => e.id === getCurrentCombatantId(combat))?.name ?? 'The enemy'} is acting...`}
+              </p>
+              
               <div className="space-y-2">
-                {combat.enemies.map((enemy) => (
-                  <div key={enemy.id} className="flex items-center justify-between">
-                    <div>
-                      <span className="font-medium">{enemy.name}</span>
-                      <span className="text-xs text-gray-400 ml-2">HP: {enemy.health}</span>
-                    </div>
-                    <div className="space-x-2">
-                      <button
-                        onClick={() => handleCombatAction(enemy.id, 'attack')}
-                        disabled={isLoading || !combat.playerTurn}
-                        className="px-3 py-1 bg-red-700 text-white text-sm rounded hover:bg-red-600 disabled:bg-gray-700 disabled:cursor-not-allowed"
-                      >
-                        Attack
-                      </button>
-                      <button
-                        onClick={() => handleCombatAction(enemy.id, 'ability')}
-                        disabled={isLoading || !combat.playerTurn}
-                        className="px-3 py-1 bg-blue-700 text-white text-sm rounded hover:bg-blue-600 disabled:bg-gray-700 disabled:cursor-not-allowed"
-                      >
-                        Ability
-                      </button>
+                {getLivingEnemies(combat).map((enemy) => (
+                  <div key={enemy.id}>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <span className="font-medium">{enemy.name}</span>
+                        <span className="text-xs text-gray-400 ml-2">HP: {enemy.health}/{enemy.maxHealth}</span>
+                        <span className="ml-2">
+                          <StatusBadges effects={enemy.statusEffects} />
+                        </span>
+                      </div>
+                      <div className="space-x-2">
+                        <button
+                          onClick={() => handleCombatAction(enemy.id, 'attack')}
+                          disabled={isLoading || !combat.playerTurn}
+                          className="px-3 py-1 bg-red-700 text-white text-sm rounded hover:bg-red-600 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                        >
+                          Attack
+                        </button>
+                        <button
+                          onClick={() => handleCombatAction(enemy.id, 'ability')}
+                          disabled={isLoading || !combat.playerTurn || character.abilities.length === 0}
+                          className="px-3 py-1 bg-blue-700 text-white text-sm rounded hover:bg-blue-600 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                        >
+                          Ability
+                        </button>
+                      </div>
                     </div>
+                    
+                    {/* What the enemy means to do on its next turn */}
+                    {combat.intents[enemy.id] && (
+                      <p className="text-xs italic text-orange-300 mt-1">{combat.intents[enemy.id].telegraph}</p>
+                    )}
+                  
+                    {/* Ability picker for this target */}
+                    {abilityTargetId === enemy.id && (
+                      <div className="mt-2 ml-4 space-y-1">
+                        {character.abilities.map((ability) => {
+                          const blocker = getAbilityBlocker(character, combat, ability);
+                          return (
+                            <button
+                              key={ability.id}
+                              onClick={() => handleCombatAction(enemy.id, 'ability', ability.id)}
+                              disabled={isLoading || !combat.playerTurn || blocker !== null}
+                              title={ability.description}
+                              className="w-full flex justify-between px-3 py-1 bg-gray-700 text-left text-sm rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              <span>
+                                {ability.name}
+                                <span className="text-xs text-gray-400 ml-2">
+                                  {ability.type === 'heal' ? 'Heal self' : ability.type === 'buff' || ability.type === 'utility' ? 'Self' : ability.aoe ? 'All enemies' : enemy.name}
+                                </span>
+                              </span>
+                              <span className="text-xs text-blue-300">
+                                {ability.manaCost} MP{blocker ? ` · ${blocker}` : ''}
+                              </span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -271,7 +717,7 @@ export default function GameInterface() {
                   value={userInput}
                   onChange={(e) => setUserInput(e.target.value)}
                   disabled={isLoading}
-                  placeholder="What do you want to do?"
+                  placeholder={talkNpc ? `Say something to ${talkNpc.name}...` : 'What do you want to do?'}
                   className="flex-1 bg-gray-700 text-white px-4 py-2 rounded-l focus:outline-none focus:ring-1 focus:ring-red-500"
                 />
                 <button
@@ -279,11 +725,11 @@ export default function GameInterface() {
                   disabled={isLoading || !userInput.trim()}
                   className="bg-red-700 text-white px-4 py-2 rounded-r hover:bg-red-600 disabled:bg-gray-700 disabled:cursor-not-allowed"
                 >
-                  {isLoading ? '...' : 'Act'}
+                  {isLoading ? '...' : talkNpc ? 'Say' : 'Act'}
                 </button>
               </div>
               <div className="mt-2 text-xs text-gray-400">
-                Try actions like &apos;examine the room&apos;, &apos;talk to the innkeeper&apos;, or &apos;go to the forest&apos;
+                Try actions like &apos;look around&apos;, &apos;talk to the innkeeper&apos;, &apos;go to the Whispering Woods&apos; or &apos;inventory&apos;
               </div>
             </form>
           )}
@@ -0,0 +1,138 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useGameStore } from '../lib/store';
+import { getItemSlot, SLOT_LABELS } from '../lib/equipment';
+import { describeItemEffects, InventoryFilter, InventorySort, stackInventory } from '../lib/inventory';
+import { Item } from '../types';
+
+const itemTypes: Item['type'][] = ['weapon', 'armor', 'potion', 'quest', 'misc'];
+const rarities: Item['rarity'][] = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
+const rarityColors: Record<Item['rarity'], string> = {
+  common: 'text-gray-200',
+  uncommon: 'text-green-400',
+  rare: 'text-blue-400',
+  epic: 'text-purple-400',
+  legendary: 'text-orange-400'
+};
+
+interface InventoryPanelProps {
+  // Using an item in combat takes the player's turn, so the game interface handles it
+  onUse: (itemId: string) => void;
+  // Whether items can be used right now
+  canUse: boolean;
+}
+
+export default function InventoryPanel({ onUse, canUse }: InventoryPanelProps) {
+  const { character, combat, equipItem, dropItem } = useGameStore();
+  const [sort, setSort] = useState<InventorySort>('name');
+  const [filter, setFilter] = useState<InventoryFilter>({ type: 'all', rarity: 'all' });
+  const [inspectedKey, setInspectedKey] = useState<string | null>(null);
+
+  if (!character) return null;
+
+  const stacks = stackInventory(character.inventory, filter, sort);
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg mt-4">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg font-medium">Inventory</h2>
+        <span className="text-sm text-yellow-400">{character.gold} gold</span>
+      </div>
+
+      <div className="flex gap-2 mb-3 text-xs">
+        <select
+          value={filter.type}
+          onChange={(e) => setFilter({ ...filter, type: e.target.value as InventoryFilter['type'] })}
+          className="bg-gray-700 rounded px-2 py-1"
+        >
+          <option value="all">All types</option>
+          {itemTypes.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <select
+          value={filter.rarity}
+          onChange={(e) => setFilter({ ...filter, rarity: e.target.value as InventoryFilter['rarity'] })}
+          className="bg-gray-700 rounded px-2 py-1"
+        >
+          <option value="all">All rarities</option>
+          {rarities.map(rarity => <option key={rarity} value={rarity}>{rarity}</option>)}
+        </select>
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value as InventorySort)}
+          className="bg-gray-700 rounded px-2 py-1 ml-auto"
+        >
+          <option value="name">Sort by name</option>
+          <option value="type">Sort by type</option>
+          <option value="rarity">Sort by rarity</option>
+          <option value="value">Sort by value</option>
+        </select>
+      </div>
+
+      {stacks.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {character.inventory.length === 0 ? 'Your pack is empty.' : 'Nothing matches these filters.'}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {stacks.map(stack => {
+            const { item } = stack;
+            const slot = getItemSlot(item);
+            const effects = describeItemEffects(item);
+            return (
+              <li key={stack.key} className="text-sm">
+                <div className="flex items-center justify-between">
+                  <button
+                    onClick={() => setInspectedKey(inspectedKey === stack.key ? null : stack.key)}
+                    className={`text-left hover:underline ${rarityColors[item.rarity]}`}
+                  >
+                    {item.name}{stack.count > 1 && <span className="text-gray-400"> x{stack.count}</span>}
+                  </button>
+                  <div className="space-x-2 text-xs">
+                    {item.usable && (
+                      <button
+                        onClick={() => onUse(stack.itemIds[0])}
+                        disabled={!canUse}
+                        className="px-2 py-0.5 bg-green-800 rounded hover:bg-green-700 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                      >
+                        Use
+                      </button>
+                    )}
+                    {slot && (
+                      <button
+                        onClick={() => equipItem(stack.itemIds[0])}
+                        disabled={!!combat}
+                        className="px-2 py-0.5 bg-blue-800 rounded hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                      >
+                        Equip
+                      </button>
+                    )}
+                    <button
+                      onClick={() => dropItem(stack.itemIds[0])}
+                      disabled={!!combat}
+                      className="px-2 py-0.5 bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Drop
+                    </button>
+                  </div>
+                </div>
+                <div className="text-xs text-gray-400">
+                  {effects.length > 0 ? effects.join(' · ') : item.type} · {item.value} gold
+                </div>
+                {inspectedKey === stack.key && (
+                  <div className="mt-1 p-2 bg-gray-900 rounded text-xs text-gray-300">
+                    <p className="italic mb-1">{item.description}</p>
+                    <p className="text-gray-500">
+                      {item.rarity} {item.type}{slot ? ` · ${SLOT_LABELS[slot]}` : ''}
+                    </p>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
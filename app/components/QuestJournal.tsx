@@ -0,0 +1,124 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useGameStore } from '../lib/store';
+import { describeObjective, describeRewards, selectRequestQuests } from '../lib/quests';
+import { buildWorldIndex, getSideQuestRewards, validateSideQuestDraft } from '../lib/sideQuests';
+import { describeNarrativeError } from '../lib/errors';
+import { generateSideQuest } from '../services/gemini';
+import { SideQuestDraft } from '../types';
+
+type JournalTab = 'active' | 'completed';
+
+export default function QuestJournal() {
+  const { character, currentLocation, locations, quests, gameLog, combat, acceptSideQuest } = useGameStore();
+  const [tab, setTab] = useState<JournalTab>('active');
+  // A side quest the Dungeon Master has proposed, waiting on the player
+  const [offer, setOffer] = useState<SideQuestDraft | null>(null);
+  const [seeking, setSeeking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const active = quests.filter(quest => quest.isActive && !quest.isCompleted);
+  const completed = quests.filter(quest => quest.isCompleted);
+  const shown = tab === 'active' ? active : completed;
+
+  // Ask for a side quest, and only show it if it still fits the world here
+  const seekWork = async () => {
+    if (!character || !currentLocation) return;
+    setSeeking(true);
+    setNotice(null);
+    try {
+      const world = buildWorldIndex(locations);
+      const draft = await generateSideQuest(character, currentLocation, world, selectRequestQuests(quests), gameLog.slice(-5));
+      if (validateSideQuestDraft(draft, world, quests).length > 0) {
+        setNotice('No one has work that fits right now.');
+      } else {
+        setOffer(draft);
+      }
+    } catch (error) {
+      setNotice(describeNarrativeError(error));
+    } finally {
+      setSeeking(false);
+    }
+  };
+
+  const accept = () => {
+    if (!offer) return;
+    const problems = acceptSideQuest(offer);
+    setOffer(null);
+    setNotice(problems.length > 0 ? 'That work is no longer on offer.' : null);
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg mt-4">
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-lg font-medium">Journal</h2>
+        <div className="space-x-1 text-xs">
+          {(['active', 'completed'] as JournalTab[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setTab(option)}
+              className={`px-2 py-0.5 rounded ${tab === option ? 'bg-gray-600 text-white' : 'bg-gray-700 text-gray-400 hover:text-white'}`}
+            >
+              {option === 'active' ? `Active (${active.length})` : `Completed (${completed.length})`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {offer && character && (
+        <div className="border border-yellow-700 rounded p-2 mb-3 text-sm">
+          <div className="font-medium text-yellow-300">{offer.name}</div>
+          <p className="text-xs text-gray-400 mb-1">{offer.description}</p>
+          <ul className="text-xs text-gray-200 space-y-0.5 mb-1">
+            {offer.objectives.map((objective, index) => (
+              <li key={index}>{objective.description}{objective.count > 1 ? ` (${objective.count})` : ''}</li>
+            ))}
+          </ul>
+          <div className="text-xs text-yellow-500 mb-2">Reward: {describeRewards(getSideQuestRewards(character.level, offer.objectives))}</div>
+          <div className="space-x-2 text-xs">
+            <button onClick={accept} className="px-2 py-0.5 rounded bg-yellow-700 hover:bg-yellow-600">Accept</button>
+            <button onClick={() => setOffer(null)} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">Decline</button>
+          </div>
+        </div>
+      )}
+      {notice && <p className="text-xs text-red-400 mb-2">{notice}</p>}
+
+      {shown.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {tab === 'active' ? 'No quests yet. Talk to the villagers.' : 'Nothing completed yet.'}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {shown.map(quest => {
+            const rewards = describeRewards(quest.rewards);
+            return (
+              <li key={quest.id} className="text-sm">
+                <div className={`font-medium ${quest.isCompleted ? 'text-gray-400' : 'text-yellow-300'}`}>{quest.name}</div>
+                <p className="text-xs text-gray-400 mb-1">{quest.description}</p>
+                <ul className="text-xs space-y-0.5">
+                  {quest.objectives.map(objective => (
+                    <li key={objective.id} className={objective.isCompleted ? 'text-gray-500 line-through' : 'text-gray-200'}>
+                      {describeObjective(objective)}
+                    </li>
+                  ))}
+                </ul>
+                {rewards && <div className="text-xs text-yellow-500 mt-1">Reward: {rewards}</div>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {!offer && (
+        <button
+          onClick={seekWork}
+          disabled={seeking || !!combat}
+          className="mt-3 w-full px-3 py-1 text-sm bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {seeking ? 'Asking around...' : 'Seek work'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import React from 'react';
+import { useGameStore } from '../lib/store';
+import { describeItemEffects } from '../lib/inventory';
+import { getBuyPrice, getSellBlocker, getSellPrice, getShopBlocker } from '../lib/trading';
+
+interface ShopPanelProps {
+  npcId: string;
+  onClose: () => void;
+}
+
+export default function ShopPanel({ npcId, onClose }: ShopPanelProps) {
+  const { character, currentLocation, combat, gameTime, buyItem, sellItem } = useGameStore();
+  const npc = currentLocation?.npcs?.find(n => n.id === npcId);
+
+  const merchant = npc?.merchant;
+  if (!character || !npc || !merchant) return null;
+
+  const { charisma } = character.stats;
+  const stock = [...(npc.shop ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+  const sellable = character.inventory.filter(item => !getSellBlocker(item));
+  const closed = getShopBlocker(npc, gameTime);
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg mb-4">
+      <div className="flex justify-between items-center mb-1">
+        <h2 className="text-lg font-medium">{npc.name}</h2>
+        <button onClick={onClose} className="text-sm text-gray-400 hover:text-white">
+          Close
+        </button>
+      </div>
+      <div className="flex justify-between text-xs text-gray-400 mb-3">
+        <span>Purse: <span className="text-yellow-400">{merchant.gold} gold</span></span>
+        <span>You have <span className="text-yellow-400">{character.gold} gold</span></span>
+      </div>
+      {closed && <p className="text-xs text-red-400 mb-3">{closed}</p>}
+
+      <h3 className="text-sm font-medium text-gray-300 mb-1">For sale</h3>
+      {stock.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-3">Sold out. Come back later.</p>
+      ) : (
+        <ul className="space-y-1 mb-3">
+          {stock.map(item => {
+            const price = getBuyPrice(item, charisma);
+            const effects = describeItemEffects(item);
+            return (
+              <li key={item.id} className="flex items-center justify-between text-sm">
+                <div>
+                  <span>{item.name}</span>
+                  <span className="text-xs text-gray-500 ml-1">{effects.length > 0 ? effects.join(' · ') : item.type}</span>
+                </div>
+                <button
+                  onClick={() => buyItem(npc.id, item.id)}
+                  disabled={!!combat || !!closed || character.gold < price}
+                  className="px-2 py-0.5 text-xs bg-yellow-800 rounded hover:bg-yellow-700 disabled:bg-gray-700 disabled:cursor-not-allowed"
+                >
+                  Buy {price}g
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <h3 className="text-sm font-medium text-gray-300 mb-1">Sell</h3>
+      {sellable.length === 0 ? (
+        <p className="text-sm text-gray-500">You have nothing {npc.name} would buy.</p>
+      ) : (
+        <ul className="space-y-1">
+          {sellable.map(item => {
+            const price = getSellPrice(item, charisma);
+            return (
+              <li key={item.id} className="flex items-center justify-between text-sm">
+                <span>{item.name}</span>
+                <button
+                  onClick={() => sellItem(npc.id, item.id)}
+                  disabled={!!combat || !!closed || merchant.gold < price}
+                  className="px-2 py-0.5 text-xs bg-gray-700 rounded hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Sell {price}g
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { useGameStore } from '../lib/store';
+import { buildWorldMap, MapNode } from '../lib/worldMap';
+
+interface WorldMapProps {
+  // Travel is blocked, e.g. mid-fight or while the narrator is busy
+  disabled: boolean;
+}
+
+const NODE_RADIUS = 14;
+
+// Keep labels from running into the next column
+const shorten = (name: string) => name.length > 18 ? `${name.slice(0, 17)}…` : name;
+
+const nodeFill = (node: MapNode) => {
+  if (node.isCurrent) return '#b91c1c';
+  return node.status === 'visited' ? '#4b5563' : '#1f2937';
+};
+
+export default function WorldMap({ disabled }: WorldMapProps) {
+  const { locations, visitedLocations, currentLocation, moveToLocation } = useGameStore();
+  const map = useMemo(
+    () => buildWorldMap(locations, visitedLocations, currentLocation?.id ?? null),
+    [locations, visitedLocations, currentLocation?.id]
+  );
+
+  if (map.nodes.length === 0) return null;
+
+  const positions = Object.fromEntries(map.nodes.map(node => [node.id, node]));
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg mb-4">
+      <h2 className="text-lg font-medium mb-2">Map</h2>
+      <div className="overflow-x-auto">
+        <svg
+          width={map.width}
+          height={map.height}
+          viewBox={`0 0 ${map.width} ${map.height}`}
+          className="mx-auto"
+          role="img"
+          aria-label="Map of the places you know"
+        >
+          {map.edges.map(edge => (
+            <line
+              key={`${edge.from}-${edge.to}`}
+              x1={positions[edge.from].x}
+              y1={positions[edge.from].y}
+              x2={positions[edge.to].x}
+              y2={positions[edge.to].y}
+              stroke="#4b5563"
+              strokeWidth={2}
+              strokeDasharray={positions[edge.to].status === 'unknown' ? '4 4' : undefined}
+            />
+          ))}
+          {map.nodes.map(node => {
+            const canTravel = node.isAdjacent && !disabled;
+            const label = node.name ? shorten(node.name) : 'Unknown';
+            return (
+              <g
+                key={node.id}
+                onClick={canTravel ? () => moveToLocation(node.id) : undefined}
+                className={canTravel ? 'cursor-pointer' : undefined}
+              >
+                <title>
+                  {node.isCurrent ? `${label} (you are here)` : canTravel ? `Travel to ${node.name ?? 'the unknown'}` : label}
+                </title>
+                <circle
+                  cx={node.x}
+                  cy={node.y}
+                  r={NODE_RADIUS}
+                  fill={nodeFill(node)}
+                  stroke={canTravel ? '#facc15' : '#6b7280'}
+                  strokeWidth={canTravel ? 2 : 1}
+                  strokeDasharray={node.status === 'unknown' ? '3 3' : undefined}
+                />
+                {node.status === 'unknown' && (
+                  <text x={node.x} y={node.y + 4} textAnchor="middle" fontSize={12} fill="#9ca3af">?</text>
+                )}
+                {node.hasThreats && (
+                  <text x={node.x + NODE_RADIUS - 2} y={node.y - NODE_RADIUS + 4} fontSize={12} fill="#f87171">⚔</text>
+                )}
+                <text
+                  x={node.x}
+                  y={node.y + NODE_RADIUS + 12}
+                  textAnchor="middle"
+                  fontSize={10}
+                  fill={node.isCurrent ? '#fca5a5' : node.status === 'visited' ? '#d1d5db' : '#6b7280'}
+                >
+                  {label}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+      <div className="flex space-x-3 text-xs text-gray-500 mt-1">
+        <span><span className="text-red-400">●</span> You</span>
+        <span><span className="text-red-400">⚔</span> Threats seen</span>
+        <span><span className="text-yellow-400">○</span> Click to travel</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { Ability, Character, CharacterClass } from '../types';
+
+// Class ability kits. Each class learns its abilities as it levels; damage and
+// healing are base values that the combat engine adds the class's primary
+// stat bonus to. Attacks may also inflict a status effect when they hit.
+
+interface AbilityKitEntry {
+  unlockLevel: number;
+  ability: Ability;
+}
+
+// The stat each class's abilities scale with
+export const PRIMARY_STATS: Record<CharacterClass, keyof Character['stats']> = {
+  Warrior: 'strength',
+  Mage: 'intelligence',
+  Rogue: 'dexterity',
+  Cleric: 'wisdom'
+};
+
+const ABILITY_KITS: Record<CharacterClass, AbilityKitEntry[]> = {
+  Warrior: [
+    {
+      unlockLevel: 1,
+      ability: {
+        id: 'warrior-crushing-blow',
+        name: 'Crushing Blow',
+        description: 'A two-handed overhead strike that puts your full weight behind the weapon.',
+        damage: 8,
+        manaCost: 8,
+        cooldown: 2,
+        aoe: false,
+        type: 'attack',
+        statusEffect: { kind: 'stun', duration: 1, potency: 0, chance: 0.35 }
+      }
+    },
+    {
+      unlockLevel: 2,
+      ability: {
+        id: 'warrior-cleave',
+        name: 'Cleave',
+        description: 'A wide, sweeping cut that catches every enemy within reach.',
+        damage: 4,
+        manaCost: 10,
+        cooldown: 3,
+        aoe: true,
+        type: 'attack'
+      }
+    },
+    {
+      unlockLevel: 3,
+      ability: {
+        id: 'warrior-second-wind',
+        name: 'Second Wind',
+        description: 'Grit your teeth and force your battered body to keep going.',
+        healing: 12,
+        manaCost: 10,
+        cooldown: 4,
+        aoe: false,
+        type: 'heal'
+      }
+    }
+  ],
+  Mage: [
+    {
+      unlockLevel: 1,
+      ability: {
+        id: 'mage-firebolt',
+        name: 'Firebolt',
+        description: 'Hurl a spitting bolt of flame at a single foe.',
+        damage: 8,
+        manaCost: 10,
+        cooldown: 0,
+        aoe: false,
+        type: 'attack'
+      }
+    },
+    {
+      unlockLevel: 2,
+      ability: {
+        id: 'mage-frost-nova',
+        name: 'Frost Nova',
+        description: 'A ring of killing frost bursts outward from where you stand.',
+        damage: 6,
+        manaCost: 18,
+        cooldown: 3,
+        aoe: true,
+        type: 'attack',
+        statusEffect: { kind: 'weakness', duration: 2, potency: 0, chance: 0.5 }
+      }
+    },
+    {
+      unlockLevel: 3,
+      ability: {
+        id: 'mage-hex-of-frailty',
+        name: 'Hex of Frailty',
+        description: 'A muttered curse that saps the strength from a foe\'s limbs.',
+        manaCost: 12,
+        cooldown: 3,
+        aoe: false,
+        type: 'debuff',
+        statusEffect: { kind: 'weakness', duration: 3, potency: 0 }
+      }
+    },
+    {
+      unlockLevel: 4,
+      ability: {
+        id: 'mage-chain-lightning',
+        name: 'Chain Lightning',
+        description: 'Lightning leaps from enemy to enemy, leaving the smell of scorched flesh.',
+        damage: 10,
+        manaCost: 25,
+        cooldown: 4,
+        aoe: true,
+        type: 'attack'
+      }
+    }
+  ],
+  Rogue: [
+    {
+      unlockLevel: 1,
+      ability: {
+        id: 'rogue-backstab',
+        name: 'Backstab',
+        description: 'Slip around your target\'s guard and drive a blade between its ribs.',
+        damage: 9,
+        manaCost: 10,
+        cooldown: 2,
+        aoe: false,
+        type: 'attack',
+        statusEffect: { kind: 'bleed', duration: 3, potency: 2 }
+      }
+    },
+    {
+      unlockLevel: 1,
+      ability: {
+        id: 'rogue-envenom',
+        name: 'Envenom',
+        description: 'Flick a vial of black venom into an open wound.',
+        manaCost: 8,
+        cooldown: 2,
+        aoe: false,
+        type: 'debuff',
+        statusEffect: { kind: 'poison', duration: 3, potency: 2 }
+      }
+    },
+    {
+      unlockLevel: 2,
+      ability: {
+        id: 'rogue-fan-of-knives',
+        name: 'Fan of Knives',
+        description: 'Throw a spray of knives at everything in front of you.',
+        damage: 4,
+        manaCost: 12,
+        cooldown: 3,
+        aoe: true,
+        type: 'attack'
+      }
+    },
+    {
+      unlockLevel: 3,
+      ability: {
+        id: 'rogue-bind-wounds',
+        name: 'Bind Wounds',
+        description: 'Snatch a moment to bind your worst cuts with practiced hands.',
+        healing: 8,
+        manaCost: 10,
+        cooldown: 4,
+        aoe: false,
+        type: 'heal'
+      }
+    }
+  ],
+  Cleric: [
+    {
+      unlockLevel: 1,
+      ability: {
+        id: 'cleric-smite',
+        name: 'Smite',
+        description: 'Call down a lance of pale light upon a single foe.',
+        damage: 6,
+        manaCost: 8,
+        cooldown: 1,
+        aoe: false,
+        type: 'attack'
+      }
+    },
+    {
+      unlockLevel: 1,
+      ability: {
+        id: 'cleric-mend',
+        name: 'Mend',
+        description: 'A whispered prayer knits torn flesh back together.',
+        healing: 15,
+        manaCost: 10,
+        cooldown: 2,
+        aoe: false,
+        type: 'heal',
+        statusEffect: { kind: 'regeneration', duration: 3, potency: 2 }
+      }
+    },
+    {
+      unlockLevel: 2,
+      ability: {
+        id: 'cleric-blessing',
+        name: 'Blessing',
+        description: 'Your god\'s favour steadies your hand and lends weight to your blows.',
+        manaCost: 10,
+        cooldown: 4,
+        aoe: false,
+        type: 'buff',
+        statusEffect: { kind: 'blessing', duration: 3, potency: 2 }
+      }
+    },
+    {
+      unlockLevel: 3,
+      ability: {
+        id: 'cleric-holy-nova',
+        name: 'Holy Nova',
+        description: 'Radiance erupts from your amulet, searing every enemy nearby.',
+        damage: 5,
+        manaCost: 15,
+        cooldown: 3,
+        aoe: true,
+        type: 'attack'
+      }
+    }
+  ]
+};
+
+/**
+ * Abilities a character of the given class knows at the given level
+ * @param characterClass The character's class
+ * @param level The character's level
+ * @returns The unlocked abilities, in kit order
+ */
+export const getUnlockedAbilities = (characterClass: CharacterClass, level: number): Ability[] =>
+  ABILITY_KITS[characterClass]
+    .filter(entry => entry.unlockLevel <= level)
+    .map(entry => ({ ...entry.ability }));
@@ -0,0 +1,150 @@
+import { Enemy, ShopHours, TimePhase } from '../types';
+
+// The game clock. GameState.gameTime counts minutes since the world began;
+// the time of day, the day/night phase and the calendar date all come from
+// it. Actions spend time by their cost below. Status effects, merchants and
+// anything else that runs on game time outside combat moves on by the hour.
+
+export const MINUTES_PER_HOUR = 60;
+export const HOURS_PER_DAY = 24;
+export const MINUTES_PER_DAY = MINUTES_PER_HOUR * HOURS_PER_DAY;
+
+// A new world begins at eight in the morning of its first day
+export const GAME_START_TIME = 8 * MINUTES_PER_HOUR;
+
+// Minutes each kind of action takes
+export const TIME_COSTS = {
+  travel: 60,
+  rest: 240,
+  // One exchange of a dialog tree
+  dialog: 5,
+  // One exchange of a free-form conversation
+  conversation: 10,
+  combatRound: 1
+};
+
+// The hour each phase begins; each lasts until the next begins
+const PHASE_STARTS: [TimePhase, number][] = [
+  ['dawn', 5],
+  ['day', 7],
+  ['dusk', 19],
+  ['night', 21]
+];
+
+// How likely enemies are to set upon a traveller arriving somewhere
+export const ENCOUNTER_CHANCE: Record<TimePhase, number> = {
+  dawn: 0.25,
+  day: 0.2,
+  dusk: 0.35,
+  night: 0.5
+};
+
+const WEEKDAYS = ['Moonsday', 'Ashday', 'Thornsday', 'Wardsday', 'Emberday', 'Veilday', 'Restday'];
+
+const MONTHS = [
+  'Deepfrost', 'Thawing', 'Seedfall', 'Greentide', 'Brightsun', 'Highsun',
+  'Goldcrest', 'Harvestwane', 'Leaffall', 'Mistmoor', 'Frostwane', 'Longnight'
+];
+
+const DAYS_PER_MONTH = 30;
+
+export interface TimeOfDay {
+  // Days since the world began, from 1
+  day: number;
+  hour: number;
+  minute: number;
+  phase: TimePhase;
+}
+
+/**
+ * Whole hours since the world began, for things that move on by the hour
+ * @param gameTime Minutes since the world began
+ * @returns The hour count
+ */
+export const getGameHour = (gameTime: number) => Math.floor(gameTime / MINUTES_PER_HOUR);
+
+/**
+ * The day/night phase at an hour of the day
+ * @param hour From 0 to 23
+ * @returns The phase
+ */
+export const getPhase = (hour: number): TimePhase => {
+  const started = PHASE_STARTS.filter(([, start]) => start <= hour);
+  // Before dawn it is still the night that began the day before
+  return started.length > 0 ? started[started.length - 1][0] : 'night';
+};
+
+/**
+ * Break game time down into the day, the time and the phase
+ * @param gameTime Minutes since the world began
+ * @returns The time of day
+ */
+export const getTimeOfDay = (gameTime: number): TimeOfDay => {
+  const minuteOfDay = ((gameTime % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hour = Math.floor(minuteOfDay / MINUTES_PER_HOUR);
+  return {
+    day: Math.floor(gameTime / MINUTES_PER_DAY) + 1,
+    hour,
+    minute: minuteOfDay % MINUTES_PER_HOUR,
+    phase: getPhase(hour)
+  };
+};
+
+/**
+ * The time as a clock shows it
+ * @param gameTime Minutes since the world began
+ * @returns e.g. "07:05"
+ */
+export const formatClock = (gameTime: number) => {
+  const { hour, minute } = getTimeOfDay(gameTime);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+};
+
+// 1st, 2nd, 3rd, 4th... 11th, 12th, 13th... 21st
+const ordinal = (n: number) => {
+  const suffixes: Record<number, string> = { 1: 'st', 2: 'nd', 3: 'rd' };
+  return `${n}${(n % 100 >= 11 && n % 100 <= 13) ? 'th' : suffixes[n % 10] ?? 'th'}`;
+};
+
+/**
+ * The calendar date
+ * @param gameTime Minutes since the world began
+ * @returns e.g. "Ashday, 2nd of Deepfrost, year 1"
+ */
+export const formatDate = (gameTime: number) => {
+  const dayIndex = getTimeOfDay(gameTime).day - 1;
+  const monthIndex = Math.floor(dayIndex / DAYS_PER_MONTH);
+  return `${WEEKDAYS[dayIndex % WEEKDAYS.length]}, ${ordinal(dayIndex % DAYS_PER_MONTH + 1)} of ${MONTHS[monthIndex % MONTHS.length]}, year ${Math.floor(monthIndex / MONTHS.length) + 1}`;
+};
+
+/**
+ * The time, phase and date in one line, for the narrator
+ * @param gameTime Minutes since the world began
+ * @returns e.g. "21:40 (night), Ashday, 2nd of Deepfrost, year 1"
+ */
+export const describeGameTime = (gameTime: number) =>
+  `${formatClock(gameTime)} (${getTimeOfDay(gameTime).phase}), ${formatDate(gameTime)}`;
+
+/**
+ * Whether the time falls within opening hours
+ * @param hours When a shop opens and closes
+ * @param gameTime Minutes since the world began
+ * @returns True if open
+ */
+export const isWithinHours = (hours: ShopHours, gameTime: number) => {
+  const { hour } = getTimeOfDay(gameTime);
+  return hours.opens <= hours.closes
+    ? hour >= hours.opens && hour < hours.closes
+    : hour >= hours.opens || hour < hours.closes;
+};
+
+/**
+ * The enemies abroad at this time of day
+ * @param enemies The enemies in a location
+ * @param gameTime Minutes since the world began
+ * @returns Those that may set upon a traveller now
+ */
+export const getActiveEnemies = (enemies: Enemy[], gameTime: number) => {
+  const { phase } = getTimeOfDay(gameTime);
+  return enemies.filter(enemy => !enemy.activeDuring || enemy.activeDuring.includes(phase));
+};
@@ -0,0 +1,797 @@
+import {
+  Ability,
+  Character,
+  CombatResult,
+  CombatRewards,
+  CombatRoundOutcome,
+  CombatState,
+  Enemy,
+  EnemyIntent,
+  EquipmentBonuses,
+  StatusEffect,
+  StatusEffectApplication
+} from '../types';
+import { PRIMARY_STATS } from './abilities';
+import { isStillFighting, planEnemyIntent } from './enemyBehaviour';
+import { getEquipmentBonuses } from './equipment';
+import { resolveItemUse } from './inventory';
+import { RandomSource, rollDie } from './random';
+import {
+  applyStatusEffect,
+  getAttackBonus,
+  isStunned,
+  modifyDamage,
+  rollStatusChance,
+  STATUS_RULES,
+  tickStatusEffects
+} from './statusEffects';
+
+// Turn-order combat engine. Pure: every function takes the current character
+// and combat state and returns new ones, so the store only dispatches into it.
+//
+// Each round every living combatant acts once, in initiative order (d20 plus
+// dexterity). Attacks roll d20 plus half strength against the target's
+// defence; a natural 20 is a critical hit for double damage and a natural 1
+// always misses. Player abilities roll with the class's primary stat instead,
+// cost mana and go on cooldown for a number of the player's turns.
+//
+// Enemies plan their next move at the end of every turn, following their
+// behaviour profile (see enemyBehaviour.ts), and the plan is kept in the
+// combat state so the player can see it coming. Their abilities cost no mana
+// but go on cooldown for a number of the enemy's own turns. An enemy that
+// flees or surrenders leaves the fight; only a surrender yields its spoils.
+//
+// Status effects tick at the end of their bearer's turn; a stunned combatant
+// loses the turn instead of acting. The player's equipment adds to hit,
+// damage and defence.
+
+export const PLAYER_COMBATANT_ID = 'player';
+
+export type CombatStatus = CombatRoundOutcome['status'];
+
+export interface CombatStep {
+  character: Character;
+  combat: CombatState;
+  // One result per target; area abilities produce several
+  results: CombatResult[];
+  status: CombatStatus;
+}
+
+// The fields the engine needs from either side of the fight
+interface Combatant {
+  id: string;
+  name: string;
+  health: number;
+  maxHealth: number;
+  stats: {
+    strength: number;
+    dexterity: number;
+    constitution: number;
+  };
+  statusEffects?: StatusEffect[];
+  attackEffect?: StatusEffectApplication;
+  gear?: Required<EquipmentBonuses>;
+}
+
+// How an attack rolls to hit and for damage, and what it inflicts on a hit
+interface AttackProfile {
+  name: string;
+  abilityId?: string;
+  attackBonus: number;
+  rollDamage: (random: RandomSource) => number;
+  effect?: StatusEffectApplication;
+}
+
+const CRITICAL_MULTIPLIER = 2;
+
+const asCombatant = (character: Character): Combatant => ({
+  id: PLAYER_COMBATANT_ID,
+  name: character.name,
+  health: character.health,
+  maxHealth: character.maxHealth,
+  stats: character.stats,
+  statusEffects: character.statusEffects,
+  gear: getEquipmentBonuses(character.equipment)
+});
+
+/**
+ * Defence value an attack roll must reach to hit
+ * @param stats The defender's stats
+ * @param bonus Defence from the defender's equipment
+ * @returns The defence value
+ */
+export const getDefence = (stats: Combatant['stats'], bonus = 0) =>
+  10 + Math.floor(stats.dexterity / 2) + Math.floor(stats.constitution / 4) + bonus;
+
+// Player damage scales harder than enemy damage, as it did before the engine
+const basicAttack = (attacker: Combatant, name: string): AttackProfile => ({
+  name,
+  attackBonus: Math.floor(attacker.stats.strength / 2) + (attacker.gear?.attack ?? 0) + getAttackBonus(attacker.statusEffects),
+  rollDamage: (random) => modifyDamage(attacker.id === PLAYER_COMBATANT_ID
+    ? Math.floor(attacker.stats.strength * 1.5) + (attacker.gear?.damage ?? 0) + rollDie(random, 4) - 1
+    : Math.max(1, Math.floor(attacker.stats.strength * 1.2)) + rollDie(random, 2) - 1, attacker.statusEffects),
+  effect: attacker.attackEffect
+});
+
+// Enemy abilities hit like a plain attack, plus the ability's own damage
+const enemyAbilityAttack = (enemy: Enemy, ability: Ability): AttackProfile => ({
+  name: ability.name,
+  abilityId: ability.id,
+  attackBonus: Math.floor(enemy.stats.strength / 2) + getAttackBonus(enemy.statusEffects),
+  rollDamage: (random) => modifyDamage(
+    Math.max(1, Math.floor(enemy.stats.strength * 1.2)) + (ability.damage ?? 0) + rollDie(random, 2) - 1,
+    enemy.statusEffects
+  ),
+  effect: ability.statusEffect
+});
+
+const primaryStatBonus = (character: Character) =>
+  Math.floor(character.stats[PRIMARY_STATS[character.class]] / 2);
+
+const abilityAttack = (character: Character, ability: Ability): AttackProfile => {
+  const gear = getEquipmentBonuses(character.equipment);
+  return {
+    name: ability.name,
+    abilityId: ability.id,
+    attackBonus: primaryStatBonus(character) + gear.attack + getAttackBonus(character.statusEffects),
+    rollDamage: (random) => modifyDamage(
+      (ability.damage ?? 0) + primaryStatBonus(character) + gear.damage + rollDie(random, 4) - 1,
+      character.statusEffects
+    ),
+    effect: ability.statusEffect
+  };
+};
+
+/**
+ * Roll initiative for everyone in the fight
+ * @param character The player's character
+ * @param enemies The enemies in the fight
+ * @param random Random source
+ * @returns Combatant ids, fastest first
+ */
+export const rollInitiative = (character: Character, enemies: Enemy[], random: RandomSource): string[] =>
+  [asCombatant(character), ...enemies]
+    .map(combatant => ({
+      id: combatant.id,
+      dexterity: combatant.stats.dexterity,
+      initiative: rollDie(random, 20) + combatant.stats.dexterity
+    }))
+    // Ties go to the more dexterous combatant
+    .sort((a, b) => b.initiative - a.initiative || b.dexterity - a.dexterity)
+    .map(combatant => combatant.id);
+
+/**
+ * Create the state for a new fight
+ * @param character The player's character
+ * @param enemies The enemies in the fight
+ * @param random Random source
+ * @param opener The side that caught the other unawares. It goes first, and
+ * the order holds for the whole fight; otherwise initiative decides.
+ * @returns Combat state at the start of round 1
+ */
+export const createCombatState = (
+  character: Character,
+  enemies: Enemy[],
+  random: RandomSource,
+  opener?: 'player' | 'enemies'
+): CombatState => {
+  const rolled = rollInitiative(character, enemies, random);
+  const others = rolled.filter(id => id !== PLAYER_COMBATANT_ID);
+  const turnOrder = opener === 'player'
+    ? [PLAYER_COMBATANT_ID, ...others]
+    : opener === 'enemies' ? [...others, PLAYER_COMBATANT_ID] : rolled;
+  return withIntents(character, {
+    inCombat: true,
+    enemies: JSON.parse(JSON.stringify(enemies)), // Deep copy
+    playerTurn: turnOrder[0] === PLAYER_COMBATANT_ID,
+    round: 1,
+    combatLog: [],
+    turnOrder,
+    turnIndex: 0,
+    cooldowns: {},
+    enemyCooldowns: {},
+    intents: {}
+  });
+};
+
+/**
+ * Enemies still in the fight
+ * @param combat Current combat state
+ * @returns Enemies with health left that haven't fled or surrendered
+ */
+export const getLivingEnemies = (combat: CombatState) => combat.enemies.filter(isStillFighting);
+
+/**
+ * What the enemies still fighting mean to do, in the order they will act
+ * @param combat Current combat state, or null outside a fight
+ * @returns The planned intents
+ */
+export const getUpcomingIntents = (combat: CombatState | null): EnemyIntent[] => {
+  if (!combat) return [];
+  const order = [...combat.turnOrder.slice(combat.turnIndex), ...combat.turnOrder.slice(0, combat.turnIndex)];
+  return order.flatMap(id => combat.intents[id] ? [combat.intents[id]] : []);
+};
+
+/**
+ * Id of the combatant whose turn it is
+ * @param combat Current combat state
+ * @returns A combatant id
+ */
+export const getCurrentCombatantId = (combat: CombatState) => combat.turnOrder[combat.turnIndex];
+
+/**
+ * Whether the fight is still going
+ * @param character The player's character
+ * @param combat Current combat state
+ * @returns The combat status
+ */
+export const getCombatStatus = (character: Character, combat: CombatState): CombatStatus => {
+  if (character.health <= 0) return 'defeat';
+  return getLivingEnemies(combat).length === 0 ? 'victory' : 'ongoing';
+};
+
+// Pass the turn to the next living combatant, starting a new round on wrap-around
+const advanceTurn = (combat: CombatState): CombatState => {
+  const isAlive = (id: string) =>
+    id === PLAYER_COMBATANT_ID || combat.enemies.some(enemy => enemy.id === id && isStillFighting(enemy));
+
+  let { turnIndex, round } = combat;
+  for (let step = 0; step < combat.turnOrder.length; step++) {
+    turnIndex++;
+    if (turnIndex >= combat.turnOrder.length) {
+      turnIndex = 0;
+      round++;
+    }
+    if (isAlive(combat.turnOrder[turnIndex])) break;
+  }
+
+  return {
+    ...combat,
+    turnIndex,
+    round,
+    playerTurn: combat.turnOrder[turnIndex] === PLAYER_COMBATANT_ID
+  };
+};
+
+// Resolve one attack roll, its damage and any status effect it inflicts
+const resolveAttack = (
+  attacker: Combatant,
+  defender: Combatant,
+  attack: AttackProfile,
+  round: number,
+  random: RandomSource
+): CombatResult => {
+  const natural = rollDie(random, 20);
+  const roll = natural + attack.attackBonus;
+  const defence = getDefence(defender.stats, defender.gear?.defence);
+  const outcome = natural === 20 ? 'critical' : natural === 1 || roll < defence ? 'miss' : 'hit';
+
+  const baseDamage = attack.rollDamage(random);
+  const damage = outcome === 'miss' ? 0 : outcome === 'critical' ? baseDamage * CRITICAL_MULTIPLIER : baseDamage;
+  const targetHealth = Math.max(0, defender.health - damage);
+  const inflicts = outcome !== 'miss' && targetHealth > 0 && attack.effect && rollStatusChance(attack.effect, random);
+
+  return {
+    round,
+    actorId: attacker.id,
+    actorName: attacker.name,
+    targetId: defender.id,
+    targetName: defender.name,
+    action: attack.name,
+    abilityId: attack.abilityId,
+    outcome,
+    roll,
+    defence,
+    damage,
+    appliedEffects: inflicts && attack.effect ? [attack.effect.kind] : undefined,
+    targetHealth,
+    defeated: targetHealth === 0
+  };
+};
+
+// A result that doesn't involve an attack roll
+const createResult = (
+  actor: Combatant,
+  target: Combatant,
+  action: string,
+  outcome: CombatResult['outcome'],
+  round: number,
+  extra: Partial<CombatResult> = {}
+): CombatResult => ({
+  round,
+  actorId: actor.id,
+  actorName: actor.name,
+  targetId: target.id,
+  targetName: target.name,
+  action,
+  outcome,
+  roll: 0,
+  defence: 0,
+  damage: 0,
+  targetHealth: target.health,
+  defeated: false,
+  ...extra
+});
+
+const isPlayerId = (id: string) => id === PLAYER_COMBATANT_ID;
+
+/**
+ * Describe a combat result for the game log
+ * @param result The result to describe
+ * @returns One line of text
+ */
+export const describeCombatResult = (result: CombatResult) => {
+  const isPlayer = isPlayerId(result.actorId);
+  const actor = isPlayer ? 'You' : result.actorName;
+  const targetIsPlayer = isPlayerId(result.targetId);
+  const target = targetIsPlayer ? 'you' : result.targetName;
+  const using = result.abilityId ? ` with ${result.action}` : '';
+
+  // "X is now poisoned" for every effect the action applied
+  const afflicted = (result.appliedEffects ?? []).map(kind =>
+    `${targetIsPlayer ? 'You are' : `${result.targetName} is`} now ${STATUS_RULES[kind].adjective}.`
+  );
+  const withEffects = (text: string) => [text, ...afflicted].join(' ');
+  const fall = result.defeated ? ` ${targetIsPlayer ? 'You fall.' : `${result.targetName} is defeated!`}` : '';
+
+  const uses = isPlayer ? 'You use' : `${actor} uses`;
+
+  switch (result.outcome) {
+    case 'heal':
+      if (isPlayer) return withEffects(`You use ${result.action} and recover ${result.healing ?? 0} health.`);
+      return withEffects(`${uses} ${result.action}${result.actorId === result.targetId ? '' : ` on ${target}`}, restoring ${result.healing ?? 0} health.`);
+    case 'effect':
+      if (result.actorId === result.targetId) return withEffects(`${uses} ${result.action}.`);
+      if (afflicted.length > 0) return withEffects(`${uses} ${result.action} on ${target}.`);
+      return isPlayer
+        ? `${result.targetName} resists your ${result.action}.`
+        : `${targetIsPlayer ? 'You resist' : `${result.targetName} resists`} ${actor}'s ${result.action}.`;
+    case 'fled':
+      return `${actor} flees the fight!`;
+    case 'surrendered':
+      return `${actor} throws down its weapon and surrenders.`;
+    case 'stunned':
+      return isPlayer ? 'You are stunned and lose your turn.' : `${actor} is stunned and loses its turn.`;
+    case 'status': {
+      const parts = [];
+      if (result.damage > 0) parts.push(`takes ${result.damage} damage`);
+      if (result.healing) parts.push(`recovers ${result.healing} health`);
+      const bearer = targetIsPlayer ? 'You' : result.targetName;
+      const text = `${bearer} ${parts.join(' and ')} from ${result.action}.${fall}`;
+      return targetIsPlayer ? text.replace('takes', 'take').replace('recovers', 'recover') : text;
+    }
+    case 'miss':
+      if (result.abilityId) return `${isPlayer ? 'Your' : `${actor}'s`} ${result.action} misses ${target}.`;
+      return `${actor} ${isPlayer ? 'miss' : 'misses'} ${target}.`;
+    default:
+      return withEffects(`${result.outcome === 'critical' ? 'Critical hit! ' : ''}${actor} ${isPlayer ? 'hit' : 'hits'} ${target}${using} for ${result.damage} damage.${fall}`);
+  }
+};
+
+const recordResults = (combat: CombatState, results: CombatResult[]): CombatState => ({
+  ...combat,
+  combatLog: [...combat.combatLog, ...results.map(describeCombatResult)]
+});
+
+// Every player action counts down cooldowns; the ability just used starts its own
+const tickCooldowns = (cooldowns: Record<string, number>, used?: Ability) => {
+  const next: Record<string, number> = {};
+  Object.entries(cooldowns).forEach(([id, turns]) => {
+    if (turns > 1) next[id] = turns - 1;
+  });
+  if (used && used.cooldown > 0) next[used.id] = used.cooldown;
+  return next;
+};
+
+// Plan every enemy's next move from the state the last turn left behind
+const withIntents = (character: Character, combat: CombatState): CombatState => {
+  const player = asCombatant(character);
+  const fighting = getLivingEnemies(combat);
+  const intents: Record<string, EnemyIntent> = {};
+  fighting.forEach(enemy => {
+    const others = fighting.filter(other => other.id !== enemy.id);
+    const intent = planEnemyIntent(enemy, others, player, combat.enemyCooldowns[enemy.id]);
+    if (intent) intents[enemy.id] = intent;
+  });
+  return { ...combat, intents };
+};
+
+// Tick the bearer's status effects at the end of their turn
+const endTurn = (bearer: Combatant, round: number) => {
+  const tick = tickStatusEffects(bearer.statusEffects, bearer.health, bearer.maxHealth);
+  const result = tick.damage > 0 || tick.healing > 0
+    ? createResult(bearer, bearer, tick.active.map(kind => STATUS_RULES[kind].label).join(' and '), 'status', round, {
+        damage: tick.damage,
+        healing: tick.healing,
+        targetHealth: tick.health,
+        defeated: tick.health === 0
+      })
+    : null;
+  return { health: tick.health, statusEffects: tick.effects, result };
+};
+
+// Finish the player's turn: tick their effects and pass the turn on
+const finishPlayerTurn = (
+  character: Character,
+  combat: CombatState,
+  results: CombatResult[],
+  selfEffects: StatusEffectApplication[] = [],
+  source = character.name
+): CombatStep => {
+  const ended = endTurn(asCombatant(character), combat.round);
+  // Effects the player gave themselves this turn start ticking next turn
+  const statusEffects = selfEffects.reduce(
+    (effects, application) => applyStatusEffect(effects, application, source),
+    ended.statusEffects
+  );
+  const nextCharacter = { ...character, health: ended.health, statusEffects };
+  const allResults = ended.result ? [...results, ended.result] : results;
+  const nextCombat = withIntents(nextCharacter, advanceTurn(recordResults(combat, allResults)));
+
+  return { character: nextCharacter, combat: nextCombat, results: allResults, status: getCombatStatus(nextCharacter, nextCombat) };
+};
+
+// Apply the effects landed by results to the enemies they hit
+const applyResultsToEnemies = (enemies: Enemy[], results: CombatResult[], effect?: StatusEffectApplication, source?: string) =>
+  enemies.map(enemy => {
+    const result = results.find(r => r.targetId === enemy.id);
+    if (!result) return enemy;
+    return {
+      ...enemy,
+      health: result.targetHealth,
+      statusEffects: effect && result.appliedEffects?.length
+        ? applyStatusEffect(enemy.statusEffects, effect, source)
+        : enemy.statusEffects
+    };
+  });
+
+const canPlayerAct = (character: Character, combat: CombatState) =>
+  getCombatStatus(character, combat) === 'ongoing' &&
+  getCurrentCombatantId(combat) === PLAYER_COMBATANT_ID &&
+  !isStunned(character.statusEffects);
+
+// Carry out an enemy's planned action: against the player, or for itself or
+// an ally
+const resolveEnemyIntent = (
+  enemy: Enemy,
+  intent: EnemyIntent,
+  character: Character,
+  enemies: Enemy[],
+  round: number,
+  random: RandomSource
+): { character: Character; enemies: Enemy[]; result: CombatResult } => {
+  const player = asCombatant(character);
+  const againstPlayer = (result: CombatResult, effect?: StatusEffectApplication) => ({
+    character: {
+      ...character,
+      health: result.targetHealth,
+      statusEffects: effect && result.appliedEffects?.length
+        ? applyStatusEffect(character.statusEffects, effect, enemy.name)
+        : character.statusEffects
+    },
+    enemies,
+    result
+  });
+
+  if (intent.kind === 'flee' || intent.kind === 'surrender') {
+    const withdrawn = intent.kind === 'flee' ? 'fled' : 'surrendered';
+    return {
+      character,
+      enemies: enemies.map(e => e.id === enemy.id ? { ...e, withdrawn } : e),
+      result: createResult(enemy, enemy, intent.kind === 'flee' ? 'Flee' : 'Surrender', withdrawn, round)
+    };
+  }
+
+  const ability = enemy.abilities.find(a => a.id === intent.abilityId);
+  if (intent.kind === 'attack' || !ability) {
+    return againstPlayer(resolveAttack(enemy, player, basicAttack(enemy, 'Attack'), round, random), enemy.attackEffect);
+  }
+  if (ability.type === 'attack') {
+    return againstPlayer(resolveAttack(enemy, player, enemyAbilityAttack(enemy, ability), round, random), ability.statusEffect);
+  }
+  // Debuffs land without an attack roll, subject to their chance
+  if (ability.type === 'debuff') {
+    const lands = !!ability.statusEffect && rollStatusChance(ability.statusEffect, random);
+    return againstPlayer(createResult(enemy, player, ability.name, 'effect', round, {
+      abilityId: ability.id,
+      appliedEffects: lands && ability.statusEffect ? [ability.statusEffect.kind] : undefined
+    }), ability.statusEffect);
+  }
+
+  // Heals, buffs and utilities land on the enemy itself or an ally
+  const target = enemies.find(e => e.id === intent.targetId && isStillFighting(e)) ?? enemy;
+  const healing = ability.type === 'heal'
+    ? Math.min((ability.healing ?? 0) + Math.floor(enemy.stats.constitution / 2), target.maxHealth - target.health)
+    : 0;
+  const helped: Enemy = {
+    ...target,
+    health: target.health + healing,
+    statusEffects: ability.statusEffect
+      ? applyStatusEffect(target.statusEffects, ability.statusEffect, enemy.name)
+      : target.statusEffects
+  };
+  return {
+    character,
+    enemies: enemies.map(e => e.id === helped.id ? helped : e),
+    result: createResult(enemy, helped, ability.name, ability.type === 'heal' ? 'heal' : 'effect', round, {
+      abilityId: ability.id,
+      healing: ability.type === 'heal' ? healing : undefined,
+      appliedEffects: ability.statusEffect ? [ability.statusEffect.kind] : undefined
+    })
+  };
+};
+
+/**
+ * Attack an enemy on the player's turn
+ * @param character The player's character
+ * @param combat Current combat state
+ * @param enemyId The enemy to attack
+ * @param action Name of the attack
+ * @param random Random source
+ * @returns The new state and outcome, or null if it isn't the player's turn, the fight is over
+ * or the target is invalid
+ */
+export const performPlayerAttack = (
+  character: Character,
+  combat: CombatState,
+  enemyId: string,
+  action: string,
+  random: RandomSource
+): CombatStep | null => {
+  if (!canPlayerAct(character, combat)) return null;
+
+  const enemy = combat.enemies.find(e => e.id === enemyId && isStillFighting(e));
+  if (!enemy) return null;
+
+  const player = asCombatant(character);
+  const result = resolveAttack(player, enemy, basicAttack(player, action), combat.round, random);
+  return finishPlayerTurn(character, {
+    ...combat,
+    enemies: applyResultsToEnemies(combat.enemies, [result]),
+    cooldowns: tickCooldowns(combat.cooldowns)
+  }, [result]);
+};
+
+/**
+ * Why an ability can't be used right now
+ * @param character The player's character
+ * @param combat Current combat state
+ * @param ability The ability to check
+ * @returns A short reason, or null if the ability is ready
+ */
+export const getAbilityBlocker = (character: Character, combat: CombatState, ability: Ability): string | null => {
+  const cooldown = combat.cooldowns[ability.id] ?? 0;
+  if (cooldown > 0) return `Ready in ${cooldown} ${cooldown === 1 ? 'turn' : 'turns'}`;
+  if (character.mana < ability.manaCost) return 'Not enough mana';
+  return null;
+};
+
+/**
+ * Use one of the player's abilities on their turn. Area abilities affect
+ * every living enemy; heals and buffs target the player.
+ * @param character The player's character
+ * @param combat Current combat state
+ * @param abilityId The ability to use
+ * @param enemyId The chosen target, for single-target attacks and debuffs
+ * @param random Random source
+ * @returns The new state and outcome, or null if the ability can't be used now
+ */
+export const performPlayerAbility = (
+  character: Character,
+  combat: CombatState,
+  abilityId: string,
+  enemyId: string,
+  random: RandomSource
+): CombatStep | null => {
+  if (!canPlayerAct(character, combat)) return null;
+
+  const ability = character.abilities.find(a => a.id === abilityId);
+  if (!ability || getAbilityBlocker(character, combat, ability)) return null;
+
+  const caster = { ...character, mana: character.mana - ability.manaCost };
+  const player = asCombatant(caster);
+  const cooldowns = tickCooldowns(combat.cooldowns, ability);
+
+  // Heals, buffs and utilities affect only the player
+  if (ability.type === 'heal' || ability.type === 'buff' || ability.type === 'utility') {
+    const healing = ability.type === 'heal'
+      ? Math.min(
+          (ability.healing ?? 0) + primaryStatBonus(character) + getEquipmentBonuses(character.equipment).healing,
+          caster.maxHealth - caster.health
+        )
+      : 0;
+    const healed = { ...caster, health: caster.health + healing };
+    const result = createResult(player, player, ability.name, ability.type === 'heal' ? 'heal' : 'effect', combat.round, {
+      abilityId: ability.id,
+      healing: ability.type === 'heal' ? healing : undefined,
+      appliedEffects: ability.statusEffect ? [ability.statusEffect.kind] : undefined,
+      targetHealth: healed.health
+    });
+    return finishPlayerTurn(healed, { ...combat, cooldowns }, [result], ability.statusEffect ? [ability.statusEffect] : []);
+  }
+
+  const targets = ability.aoe
+    ? getLivingEnemies(combat)
+    : combat.enemies.filter(e => e.id === enemyId && isStillFighting(e));
+  if (targets.length === 0) return null;
+
+  // Debuffs land without an attack roll, subject to their chance
+  const results = targets.map(target => ability.type === 'debuff'
+    ? createResult(player, target, ability.name, 'effect', combat.round, {
+        abilityId: ability.id,
+        appliedEffects: ability.statusEffect && rollStatusChance(ability.statusEffect, random)
+          ? [ability.statusEffect.kind]
+          : undefined
+      })
+    : resolveAttack(player, target, abilityAttack(character, ability), combat.round, random)
+  );
+
+  return finishPlayerTurn(caster, {
+    ...combat,
+    enemies: applyResultsToEnemies(combat.enemies, results, ability.statusEffect, character.name),
+    cooldowns
+  }, results);
+};
+
+/**
+ * Use an item from the inventory on the player's turn. It takes the turn
+ * like any other action.
+ * @param character The player's character
+ * @param combat Current combat state
+ * @param itemId The inventory item to use
+ * @returns The new state and outcome, or null if the item can't be used now
+ */
+export const performPlayerItem = (
+  character: Character,
+  combat: CombatState,
+  itemId: string
+): CombatStep | null => {
+  if (!canPlayerAct(character, combat)) return null;
+
+  const item = character.inventory.find(i => i.id === itemId);
+  if (!item || !item.usable) return null;
+
+  const use = resolveItemUse(character, item);
+  const used = {
+    ...character,
+    health: character.health + use.healing,
+    inventory: character.inventory.filter(i => i.id !== itemId)
+  };
+  const player = asCombatant(used);
+  const result = createResult(player, player, item.name, use.healing > 0 ? 'heal' : 'effect', combat.round, {
+    healing: use.healing > 0 ? use.healing : undefined,
+    appliedEffects: use.statuses.length > 0 ? use.statuses.map(status => status.kind) : undefined,
+    targetHealth: used.health
+  });
+
+  return finishPlayerTurn(used, { ...combat, cooldowns: tickCooldowns(combat.cooldowns) }, [result], use.statuses, item.name);
+};
+
+/**
+ * Play the turn of whoever acts without the player's input: the enemy whose
+ * turn it is, or the player when a stun costs them their turn
+ * @param character The player's character
+ * @param combat Current combat state
+ * @param random Random source
+ * @returns The new state and outcome, or null if the player is free to act or the fight is over
+ */
+export const performAutomaticTurn = (
+  character: Character,
+  combat: CombatState,
+  random: RandomSource
+): CombatStep | null => {
+  if (getCombatStatus(character, combat) !== 'ongoing') return null;
+
+  const currentId = getCurrentCombatantId(combat);
+  if (currentId === PLAYER_COMBATANT_ID) {
+    if (!isStunned(character.statusEffects)) return null;
+    const player = asCombatant(character);
+    return finishPlayerTurn(character, combat, [createResult(player, player, 'Stun', 'stunned', combat.round)]);
+  }
+
+  const enemy = combat.enemies.find(e => e.id === currentId);
+  if (!enemy) return null;
+
+  const results: CombatResult[] = [];
+  let nextCharacter = character;
+  let enemies = combat.enemies;
+  let enemyCooldowns = combat.enemyCooldowns;
+
+  if (isStunned(enemy.statusEffects)) {
+    results.push(createResult(enemy, enemy, 'Stun', 'stunned', combat.round));
+  } else {
+    // The intent was planned, and shown, at the end of the last turn
+    const others = getLivingEnemies(combat).filter(e => e.id !== enemy.id);
+    const intent = combat.intents[enemy.id]
+      ?? planEnemyIntent(enemy, others, asCombatant(character), enemyCooldowns[enemy.id]);
+    if (intent) {
+      const acted = resolveEnemyIntent(enemy, intent, character, enemies, combat.round, random);
+      results.push(acted.result);
+      nextCharacter = acted.character;
+      enemies = acted.enemies;
+      const used = enemy.abilities.find(ability => ability.id === intent.abilityId);
+      enemyCooldowns = { ...enemyCooldowns, [enemy.id]: tickCooldowns(enemyCooldowns[enemy.id] ?? {}, used) };
+    }
+  }
+
+  // The enemy's own effects tick once it has acted, unless it has left
+  const actor = enemies.find(e => e.id === enemy.id) ?? enemy;
+  if (!actor.withdrawn) {
+    const ended = endTurn(actor, combat.round);
+    if (ended.result) results.push(ended.result);
+    enemies = enemies.map(e => e.id === actor.id ? { ...e, health: ended.health, statusEffects: ended.statusEffects } : e);
+  }
+  const nextCombat = withIntents(
+    nextCharacter,
+    advanceTurn(recordResults({ ...combat, enemies, enemyCooldowns }, results))
+  );
+
+  return { character: nextCharacter, combat: nextCombat, results, status: getCombatStatus(nextCharacter, nextCombat) };
+};
+
+/**
+ * Experience, gold and drops for every enemy beaten in a won fight. Enemies
+ * that fled take theirs with them; those that surrendered hand theirs over.
+ * @param combat The combat state when the last enemy fell or gave up
+ * @returns The rewards
+ */
+export const getCombatRewards = (combat: CombatState): CombatRewards => {
+  const beaten = combat.enemies.filter(enemy => enemy.withdrawn !== 'fled');
+  return {
+    experience: beaten.reduce((total, enemy) => total + enemy.experience, 0),
+    gold: beaten.reduce((total, enemy) => total + enemy.gold, 0),
+    items: beaten.flatMap(enemy => enemy.drops ?? [])
+  };
+};
+
+/**
+ * Summarize a round of results for the player and narrator
+ * @param results Results in the order they happened
+ * @param status Combat status after the last result
+ * @param rewards Rewards, if the round ended the fight in victory
+ * @param intents What the enemies still fighting mean to do next
+ * @returns The round outcome
+ */
+export const summarizeCombatRound = (
+  results: CombatResult[],
+  status: CombatStatus,
+  rewards: CombatRewards | null,
+  intents: EnemyIntent[]
+): CombatRoundOutcome => ({
+  results,
+  status,
+  damageDealt: results
+    .filter(result => result.targetId !== PLAYER_COMBATANT_ID)
+    .reduce((total, result) => total + result.damage, 0),
+  damageTaken: results
+    .filter(result => result.targetId === PLAYER_COMBATANT_ID)
+    .reduce((total, result) => total + result.damage, 0),
+  defeatedEnemies: results
+    .filter(result => result.defeated && result.targetId !== PLAYER_COMBATANT_ID)
+    .map(result => result.targetName),
+  rewards,
+  intents
+});
+
+/**
+ * List what happened in a round as plain facts
+ * @param outcome The round outcome
+ * @returns One sentence per fact
+ */
+export const describeCombatRound = (outcome: CombatRoundOutcome): string[] => {
+  const facts = outcome.results.map(describeCombatResult);
+
+  if (outcome.status === 'victory') {
+    facts.push('No enemy is left standing against you. The fight is won.');
+  } else if (outcome.status === 'defeat') {
+    facts.push('You have been defeated.');
+  }
+
+  if (outcome.rewards) {
+    const { experience, gold, items } = outcome.rewards;
+    const loot = items.length > 0 ? ` and find ${items.map(item => item.name).join(', ')}` : '';
+    facts.push(`You gain ${experience} experience and ${gold} gold${loot}.`);
+  }
+
+  return facts;
+};
@@ -0,0 +1,340 @@
+import { Enemy, Equipment, EquipmentSlot, Item, Location, NPC } from '../types';
+import { EQUIPMENT_SLOTS, getItemSlot, SLOT_LABELS } from './equipment';
+
+// Command interpreter for the free-text action box. Turns what the player
+// types into typed commands, resolving names against what is actually in
+// scope. Pure: no store access, so it can be exercised on its own.
+//
+// Verbs that change game state (move, take, use, equip, trade, attack) must resolve to a
+// real target; otherwise the player is told why. Moving somewhere no known
+// location matches is narrated instead, like the descriptive and social verbs
+// (examine, talk) when nothing matches. Only an explicit push beyond the
+// known paths ("venture beyond the hills") asks for a new location to be
+// charted, since that adds to the world for good.
+
+export type Command =
+  | { type: 'move'; locationId: string }
+  // Striking out beyond the known paths, which may chart a new location
+  | { type: 'discover'; destination: string }
+  | { type: 'examine'; target: ExamineTarget }
+  | { type: 'take'; itemId: string }
+  | { type: 'use'; itemId: string }
+  | { type: 'equip'; itemId: string }
+  | { type: 'unequip'; slot: EquipmentSlot }
+  | { type: 'talk'; npcId: string }
+  | { type: 'trade'; npcId: string }
+  | { type: 'attack'; enemyId?: string }
+  | { type: 'rest' }
+  | { type: 'inventory' }
+  | { type: 'unresolved'; verb: CommandVerb; message: string }
+  | { type: 'freeform'; text: string };
+
+export type ExamineTarget =
+  | { kind: 'location' }
+  | { kind: 'item'; itemId: string; source: 'inventory' | 'location' }
+  | { kind: 'npc'; npcId: string }
+  | { kind: 'enemy'; enemyId: string };
+
+export type CommandVerb = 'move' | 'examine' | 'take' | 'use' | 'equip' | 'unequip' | 'talk' | 'trade' | 'attack' | 'rest' | 'inventory';
+
+export interface CommandScope {
+  currentLocation: Location;
+  // Every known location, used to resolve connection names
+  locations: Record<string, Location>;
+  inventory: Item[];
+  equipment: Equipment;
+}
+
+// Verb phrases; the longest matching phrase wins, so "take a rest" is rest, not take
+const VERBS: Record<CommandVerb, string[]> = {
+  move: ['go to', 'go into', 'move to', 'walk to', 'travel to', 'head to', 'head for', 'head towards', 'return to', 'leave for', 'run to', 'go', 'move', 'walk', 'travel', 'head', 'enter', 'visit', 'return', 'venture into', 'venture', 'explore', 'wander'],
+  examine: ['look around', 'look at', 'look', 'examine', 'inspect', 'search', 'study', 'check out', 'observe', 'survey'],
+  take: ['pick up', 'take', 'grab', 'collect', 'loot', 'steal'],
+  use: ['drink', 'quaff', 'consume', 'eat', 'use', 'apply', 'read'],
+  equip: ['equip', 'wield', 'wear', 'don', 'put on'],
+  unequip: ['unequip', 'unwield', 'take off', 'doff', 'sheathe'],
+  trade: ['trade with', 'trade', 'shop at', 'shop with', 'shop', 'barter with', 'barter', 'buy from', 'sell to', 'browse wares', 'browse'],
+  talk: ['talk to', 'talk with', 'speak to', 'speak with', 'chat with', 'ask', 'greet', 'talk', 'speak', 'address'],
+  attack: ['attack', 'fight', 'strike', 'hit', 'kill', 'slay', 'charge'],
+  rest: ['rest', 'sleep', 'camp', 'take a rest', 'lie down', 'sit down'],
+  inventory: ['inventory', 'inv', 'i', 'check inventory', 'check my bag', 'check bag', 'open bag', 'items']
+};
+
+// Phrases that ask to leave the known paths behind; what follows, if
+// anything, is where the player is heading
+const FRONTIER_PHRASES = [
+  'venture beyond', 'venture into the unknown', 'venture out into the unknown', 'explore beyond', 'explore the unknown',
+  'travel beyond', 'go beyond', 'head beyond', 'push beyond', 'strike out for', 'strike out towards', 'strike out into',
+  'blaze a trail to', 'blaze a trail', 'chart a path to', 'chart a path', 'search for a new path', 'look for a new path',
+  'seek a new path'
+];
+
+// Words treated as equivalent when matching names
+const SYNONYMS: string[][] = [
+  ['forest', 'woods', 'wood', 'trees'],
+  ['tavern', 'inn', 'pub', 'alehouse'],
+  ['blacksmith', 'forge', 'smithy', 'smith'],
+  ['village', 'town', 'settlement', 'eldermoor'],
+  ['ruins', 'temple', 'ruin'],
+  ['crypt', 'tomb', 'catacomb', 'catacombs'],
+  ['potion', 'draught', 'flask', 'vial', 'elixir'],
+  ['innkeeper', 'barkeep', 'bartender', 'tavernkeeper'],
+  ['sword', 'blade'],
+  ['skeleton', 'skeletal', 'bones']
+];
+
+const STOPWORDS = new Set(['the', 'a', 'an', 'to', 'at', 'with', 'into', 'in', 'on', 'towards', 'toward', 'of', 'my', 'some', 'that', 'this', 'up', 'back', 'over', 'there']);
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9\s'-]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const tokenize = (text: string) =>
+  normalize(text).split(' ').filter(token => token && !STOPWORDS.has(token));
+
+const synonymGroup = (word: string) => SYNONYMS.find(group => group.includes(word));
+
+// Levenshtein distance, used to forgive small typos
+const editDistance = (a: string, b: string) => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+};
+
+const wordsMatch = (a: string, b: string) => {
+  if (a === b) return true;
+  const group = synonymGroup(a);
+  if (group && group.includes(b)) return true;
+  const allowed = Math.min(a.length, b.length) >= 7 ? 2 : Math.min(a.length, b.length) >= 4 ? 1 : 0;
+  return allowed > 0 && editDistance(a, b) <= allowed;
+};
+
+// Share of query words found in the name, from 0 to 1
+const similarity = (queryTokens: string[], name: string) => {
+  const nameTokens = tokenize(name);
+  if (queryTokens.length === 0 || nameTokens.length === 0) return 0;
+  const matched = queryTokens.filter(token => nameTokens.some(nameToken => wordsMatch(token, nameToken)));
+  return matched.length / queryTokens.length;
+};
+
+interface Candidate {
+  id: string;
+  names: string[];
+}
+
+/**
+ * Find the candidate whose names best match a phrase
+ * @param phrase What the player typed for the target
+ * @param candidates Things in scope, each with one or more names
+ * @returns The best match's id, or null when nothing matches well enough
+ */
+export const resolveName = (phrase: string, candidates: Candidate[]): string | null => {
+  const queryTokens = tokenize(phrase);
+  let best: { id: string; score: number } | null = null;
+
+  for (const candidate of candidates) {
+    const score = Math.max(...candidate.names.map(name => similarity(queryTokens, name)));
+    if (score >= 0.5 && (!best || score > best.score)) {
+      best = { id: candidate.id, score };
+    }
+  }
+
+  return best?.id ?? null;
+};
+
+const locationCandidates = (scope: CommandScope): Candidate[] =>
+  scope.currentLocation.connections
+    .filter(id => scope.locations[id])
+    .map(id => ({ id, names: [id, scope.locations[id].name] }));
+
+const itemCandidates = (items: Item[] = []): Candidate[] =>
+  items.map(item => ({ id: item.id, names: [item.name, item.type] }));
+
+const npcCandidates = (npcs: NPC[] = []): Candidate[] =>
+  npcs.map(npc => ({ id: npc.id, names: [npc.name, npc.description.split(/[.,]/)[0]] }));
+
+const enemyCandidates = (enemies: Enemy[] = []): Candidate[] =>
+  enemies.map(enemy => ({ id: enemy.id, names: [enemy.name] }));
+
+// Where the player means to strike out for, or null if they aren't leaving
+// the known paths
+const matchFrontier = (input: string): string | null => {
+  const phrase = FRONTIER_PHRASES
+    .filter(candidate => input === candidate || input.startsWith(`${candidate} `))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!phrase) return null;
+  return input.slice(phrase.length).trim() || 'the unknown';
+};
+
+// Split input into a verb and the rest of the phrase
+const matchVerb = (input: string): { verb: CommandVerb; rest: string } | null => {
+  let best: { verb: CommandVerb; phrase: string } | null = null;
+
+  for (const verb of Object.keys(VERBS) as CommandVerb[]) {
+    for (const phrase of VERBS[verb]) {
+      if ((input === phrase || input.startsWith(`${phrase} `)) && (!best || phrase.length > best.phrase.length)) {
+        best = { verb, phrase };
+      }
+    }
+  }
+
+  return best ? { verb: best.verb, rest: input.slice(best.phrase.length).trim() } : null;
+};
+
+/**
+ * Parse free text into a command
+ * @param input What the player typed
+ * @param scope The locations, items, NPCs and enemies the player can refer to
+ * @returns A typed command, an explanation of why it could not be carried out,
+ * or a free-form action for the narrator
+ */
+export const parseCommand = (input: string, scope: CommandScope): Command => {
+  const text = normalize(input);
+  const freeform: Command = { type: 'freeform', text: input.trim() };
+  const frontier = matchFrontier(text);
+  if (frontier) return { type: 'discover', destination: frontier };
+  const matched = matchVerb(text);
+  if (!matched) return freeform;
+
+  const { verb, rest } = matched;
+  const location = scope.currentLocation;
+  const hasTarget = tokenize(rest).length > 0;
+
+  switch (verb) {
+    case 'move': {
+      if (!hasTarget) {
+        return { type: 'unresolved', verb, message: 'Where do you want to go?' };
+      }
+      const locationId = resolveName(rest, locationCandidates(scope));
+      if (locationId) return { type: 'move', locationId };
+      // A known place that isn't next to this one needs a route, not a new path
+      const knownPlaces = Object.values(scope.locations).map(known => ({ id: known.id, names: [known.id, known.name] }));
+      return resolveName(rest, knownPlaces)
+        ? { type: 'unresolved', verb, message: `You don't know a way to "${rest}" from here.` }
+        : freeform;
+    }
+
+    case 'examine': {
+      if (!hasTarget || resolveName(rest, [{ id: location.id, names: ['around', 'room', 'area', 'surroundings', location.name] }])) {
+        return { type: 'examine', target: { kind: 'location' } };
+      }
+      const inventoryItemId = resolveName(rest, itemCandidates(scope.inventory));
+      if (inventoryItemId) return { type: 'examine', target: { kind: 'item', itemId: inventoryItemId, source: 'inventory' } };
+      const locationItemId = resolveName(rest, itemCandidates(location.items));
+      if (locationItemId) return { type: 'examine', target: { kind: 'item', itemId: locationItemId, source: 'location' } };
+      const npcId = resolveName(rest, npcCandidates(location.npcs));
+      if (npcId) return { type: 'examine', target: { kind: 'npc', npcId } };
+      const enemyId = resolveName(rest, enemyCandidates(location.enemies));
+      if (enemyId) return { type: 'examine', target: { kind: 'enemy', enemyId } };
+      return freeform;
+    }
+
+    case 'take': {
+      const itemId = hasTarget ? resolveName(rest, itemCandidates(location.items)) : null;
+      return itemId
+        ? { type: 'take', itemId }
+        : { type: 'unresolved', verb, message: hasTarget ? `There is no "${rest}" here to take.` : 'Take what?' };
+    }
+
+    case 'use': {
+      const itemId = hasTarget ? resolveName(rest, itemCandidates(scope.inventory)) : null;
+      return itemId
+        ? { type: 'use', itemId }
+        : { type: 'unresolved', verb, message: hasTarget ? `You aren't carrying any "${rest}".` : 'Use what?' };
+    }
+
+    case 'equip': {
+      const equippable = scope.inventory.filter(item => getItemSlot(item));
+      const itemId = hasTarget ? resolveName(rest, itemCandidates(equippable)) : null;
+      if (itemId) return { type: 'equip', itemId };
+      if (hasTarget && resolveName(rest, itemCandidates(scope.inventory))) {
+        return { type: 'unresolved', verb, message: `You can't equip "${rest}".` };
+      }
+      return { type: 'unresolved', verb, message: hasTarget ? `You aren't carrying any "${rest}".` : 'Equip what?' };
+    }
+
+    case 'unequip': {
+      // Match either the item's name or the slot it is in
+      const candidates = EQUIPMENT_SLOTS
+        .filter(slot => scope.equipment[slot])
+        .map(slot => ({ id: slot, names: [scope.equipment[slot]?.name ?? '', SLOT_LABELS[slot]] }));
+      const slot = hasTarget ? resolveName(rest, candidates) as EquipmentSlot | null : null;
+      return slot
+        ? { type: 'unequip', slot }
+        : { type: 'unresolved', verb, message: hasTarget ? `You have no "${rest}" equipped.` : 'Unequip what?' };
+    }
+
+    case 'talk': {
+      const npcId = hasTarget ? resolveName(rest, npcCandidates(location.npcs)) : null;
+      return npcId ? { type: 'talk', npcId } : freeform;
+    }
+
+    case 'trade': {
+      const merchants = (location.npcs ?? []).filter(npc => npc.merchant);
+      if (merchants.length === 0) {
+        return { type: 'unresolved', verb, message: 'There is no one here to trade with.' };
+      }
+      // With a single merchant around, "trade" on its own is enough
+      const npcId = hasTarget ? resolveName(rest, npcCandidates(merchants)) : merchants.length === 1 ? merchants[0].id : null;
+      if (npcId) return { type: 'trade', npcId };
+      return { type: 'unresolved', verb, message: hasTarget ? `No "${rest}" here is selling anything.` : 'Trade with whom?' };
+    }
+
+    case 'attack': {
+      if (!location.enemies || location.enemies.length === 0) {
+        return { type: 'unresolved', verb, message: 'There is nothing here to fight.' };
+      }
+      if (!hasTarget) return { type: 'attack' };
+      const enemyId = resolveName(rest, enemyCandidates(location.enemies));
+      return enemyId
+        ? { type: 'attack', enemyId }
+        : { type: 'unresolved', verb, message: `You see no "${rest}" here.` };
+    }
+
+    case 'rest':
+      return { type: 'rest' };
+
+    case 'inventory':
+      return hasTarget ? freeform : { type: 'inventory' };
+  }
+};
+
+/**
+ * Describe what the player sees when examining something, without the narrator
+ * @param target What is being examined
+ * @param scope The player's surroundings and inventory
+ * @returns Text for the game log
+ */
+export const describeExamineTarget = (target: ExamineTarget, scope: CommandScope): string => {
+  const location = scope.currentLocation;
+
+  switch (target.kind) {
+    case 'location': {
+      const exits = location.connections.map(id => scope.locations[id]?.name ?? id).join(', ');
+      const lines = [`${location.name}. ${location.description}`, `Paths lead to: ${exits || 'nowhere'}.`];
+      if (location.npcs?.length) lines.push(`You see: ${location.npcs.map(npc => npc.name).join(', ')}.`);
+      if (location.items?.length) lines.push(`Lying here: ${location.items.map(item => item.name).join(', ')}.`);
+      return lines.join(' ');
+    }
+    case 'item': {
+      const items = target.source === 'inventory' ? scope.inventory : location.items ?? [];
+      const item = items.find(i => i.id === target.itemId);
+      return item ? `${item.name} (${item.rarity} ${item.type}): ${item.description}` : 'You find nothing of note.';
+    }
+    case 'npc': {
+      const npc = location.npcs?.find(n => n.id === target.npcId);
+      return npc ? `${npc.name}: ${npc.description}` : 'You find nothing of note.';
+    }
+    case 'enemy': {
+      const enemy = location.enemies?.find(e => e.id === target.enemyId);
+      return enemy ? `${enemy.name}: ${enemy.description}` : 'You find nothing of note.';
+    }
+  }
+};
@@ -0,0 +1,459 @@
+import { EncounterTable, Enemy, Item, Location, NPC, Quest, QuestObjective, QuestReward, ShopHours, TimePhase } from '../types';
+import { isDialogOption, isEnemy, isItem, isQuest } from './validation';
+import { validateDialog } from './dialog';
+
+// Content packs: the world's locations, enemies, items and NPCs as versioned
+// JSON, so a campaign can ship without code changes. Items and enemies are
+// defined once as templates keyed by id and referred to by that id wherever
+// they appear; locations, NPCs and quests refer to each other the same way.
+// A pack is checked as a whole when it loads, against the shapes in app/types
+// and for references that lead nowhere. Building a world from a pack gives
+// every enemy and every item lying in it an id of its own.
+
+// The pack format this game reads. Packs declare it in their "format" field;
+// their own "version" is the campaign's and is not checked.
+export const CONTENT_PACK_FORMAT = 1;
+
+// Hours between merchant restocks, unless the pack sets its own
+export const MERCHANT_RESTOCK_INTERVAL = 24;
+
+// What an enemy gains for each level above its template's (or loses below)
+const ENEMY_SCALING = {
+  health: 6,
+  stat: 1
+};
+
+export type ItemTemplate = Omit<Item, 'id'>;
+
+// Enemies start at full health; drops are item template ids
+export type EnemyTemplate = Omit<Enemy, 'id' | 'health' | 'drops' | 'statusEffects' | 'withdrawn'> & { drops?: string[] };
+
+// Quests start inactive with no progress; item rewards name an item template
+export interface QuestTemplate {
+  id: string;
+  name: string;
+  description: string;
+  objectives: Omit<QuestObjective, 'progress' | 'isCompleted'>[];
+  rewards: (Omit<QuestReward, 'item'> & { itemId?: string })[];
+}
+
+export interface NpcTemplate extends Pick<NPC, 'name' | 'description' | 'attitude' | 'dialog'> {
+  quests?: QuestTemplate[];
+  // Item template ids
+  gifts?: string[];
+  // What the NPC sells, as item template ids, their starting purse and when
+  // they trade
+  shop?: { stock: string[]; gold: number; restockInterval?: number; hours?: ShopHours };
+}
+
+export interface LocationTemplate {
+  name: string;
+  description: string;
+  image?: string;
+  // Location ids; every path must lead both ways
+  connections: string[];
+  // NPC ids; each NPC lives in exactly one location
+  npcs?: string[];
+  // Enemy and item template ids, once per copy
+  enemies?: string[];
+  items?: string[];
+  encounters?: EncounterTable;
+}
+
+export interface ContentPack {
+  format: number;
+  id: string;
+  name: string;
+  version: string;
+  startLocationId: string;
+  // Where the player wakes after death; the start location when omitted
+  respawnLocationId?: string;
+  // How text names the place the player wakes in, e.g. "Eldermoor"; the
+  // location's own name when omitted
+  respawnName?: string;
+  // Logged when a new game begins
+  intro: string;
+  items: Record<string, ItemTemplate>;
+  enemies: Record<string, EnemyTemplate>;
+  npcs: Record<string, NpcTemplate>;
+  locations: Record<string, LocationTemplate>;
+}
+
+export interface RespawnPoint {
+  locationId: string;
+  name: string;
+}
+
+export class ContentPackError extends Error {
+  problems: string[];
+
+  constructor(packId: string, problems: string[]) {
+    super(`Invalid content pack "${packId}":\n${problems.join('\n')}`);
+    this.name = 'ContentPackError';
+    this.problems = problems;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(id => typeof id === 'string');
+
+const isShopHours = (value: unknown): value is ShopHours =>
+  isRecord(value) &&
+  [value.opens, value.closes].every(hour => Number.isInteger(hour) && (hour as number) >= 0 && (hour as number) < 24);
+
+const PHASES: TimePhase[] = ['dawn', 'day', 'dusk', 'night'];
+
+const isRange = (value: unknown, min: number): value is { min: number; max: number } =>
+  isRecord(value) &&
+  Number.isInteger(value.min) && Number.isInteger(value.max) &&
+  (value.min as number) >= min && (value.min as number) <= (value.max as number);
+
+const isEncounterTable = (value: unknown): value is EncounterTable =>
+  isRecord(value) &&
+  (value.chance === undefined || (isRecord(value.chance) && Object.entries(value.chance).every(([phase, chance]) =>
+    PHASES.includes(phase as TimePhase) && typeof chance === 'number' && chance >= 0 && chance <= 1))) &&
+  Array.isArray(value.entries) &&
+  value.entries.every(entry =>
+    isRecord(entry) &&
+    typeof entry.id === 'string' &&
+    typeof entry.enemy === 'string' &&
+    typeof entry.weight === 'number' && entry.weight > 0 &&
+    isRange(entry.group, 1) &&
+    (entry.levels === undefined || isRange(entry.levels, 1)) &&
+    (entry.during === undefined || (Array.isArray(entry.during) && entry.during.every(phase => PHASES.includes(phase)))) &&
+    (entry.cooldown === undefined || (typeof entry.cooldown === 'number' && entry.cooldown >= 0))
+  );
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+// Packs are shared by every world built from them, so nothing in a world may
+// point back into the pack
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const createItem = (pack: ContentPack, templateId: string, id: string): Item => ({ ...copy(pack.items[templateId]), id });
+
+const createEnemy = (pack: ContentPack, templateId: string, createId: () => string): Enemy => {
+  const { drops, ...template } = copy(pack.enemies[templateId]);
+  return {
+    ...template,
+    id: `${templateId}-${createId()}`,
+    health: template.maxHealth,
+    drops: (drops ?? []).map(itemId => createItem(pack, itemId, `${itemId}-${createId()}`))
+  };
+};
+
+/**
+ * Create an enemy from its template, optionally at another level. Health,
+ * stats and rewards scale with the difference from the template's level.
+ * @param pack The content pack
+ * @param templateId An enemy template id in the pack
+ * @param createId Creates the ids that make the enemy and its drops unique
+ * @param level The enemy's level; the template's own when omitted
+ * @returns The enemy, at full health
+ */
+export const createEnemyFromTemplate = (
+  pack: ContentPack,
+  templateId: string,
+  createId: () => string,
+  level?: number
+): Enemy => {
+  const enemy = createEnemy(pack, templateId, createId);
+  if (level === undefined || level === enemy.level) return enemy;
+
+  const shift = level - enemy.level;
+  const ratio = level / enemy.level;
+  const maxHealth = Math.max(1, enemy.maxHealth + shift * ENEMY_SCALING.health);
+  const scaleStat = (value: number) => Math.max(1, value + shift * ENEMY_SCALING.stat);
+  return {
+    ...enemy,
+    level,
+    health: maxHealth,
+    maxHealth,
+    stats: {
+      strength: scaleStat(enemy.stats.strength),
+      dexterity: scaleStat(enemy.stats.dexterity),
+      constitution: scaleStat(enemy.stats.constitution)
+    },
+    experience: Math.round(enemy.experience * ratio),
+    gold: Math.round(enemy.gold * ratio)
+  };
+};
+
+const createQuest = (pack: ContentPack, template: QuestTemplate, createId: () => string): Quest => ({
+  id: template.id,
+  name: template.name,
+  description: template.description,
+  objectives: template.objectives.map(objective => ({ ...objective, progress: 0, isCompleted: false })),
+  rewards: template.rewards.map(({ itemId, ...reward }) =>
+    itemId ? { ...reward, item: createItem(pack, itemId, `${itemId}-${createId()}`) } : reward
+  ),
+  isCompleted: false,
+  isActive: false
+});
+
+// Gifts and shop lines keep their template ids, as they are templates too:
+// dialog hands over fresh copies of gifts, and a merchant restocks by line.
+// What is on the shelf is made of copies with ids of their own, so two
+// bought of the same line never share one.
+const createNpc = (pack: ContentPack, npcId: string, createId: () => string): NPC => {
+  const { quests, gifts, shop, ...template } = copy(pack.npcs[npcId]);
+  const npc: NPC = { ...template, id: npcId };
+  if (quests) npc.quests = quests.map(quest => createQuest(pack, quest, createId));
+  if (gifts) npc.gifts = gifts.map(itemId => createItem(pack, itemId, itemId));
+  if (shop) {
+    const stock = shop.stock.map(itemId => createItem(pack, itemId, itemId));
+    npc.shop = shop.stock.map(itemId => createItem(pack, itemId, `${itemId}-${createId()}`));
+    npc.merchant = {
+      gold: shop.gold,
+      baseGold: shop.gold,
+      stock,
+      restockInterval: shop.restockInterval ?? MERCHANT_RESTOCK_INTERVAL,
+      lastRestockedAt: 0
+    };
+    if (shop.hours) npc.merchant.hours = shop.hours;
+  }
+  return npc;
+};
+
+/**
+ * Build a fresh world from a content pack
+ * @param pack A pack that passed validateContentPack
+ * @param createId Creates the ids that make each enemy and item unique
+ * @returns Every location in the pack, keyed by id
+ */
+export const createWorldFromPack = (pack: ContentPack, createId: () => string): Record<string, Location> =>
+  Object.fromEntries(Object.entries(pack.locations).map(([id, template]) => {
+    const location: Location = {
+      id,
+      name: template.name,
+      description: template.description,
+      connections: [...template.connections],
+      npcs: (template.npcs ?? []).map(npcId => createNpc(pack, npcId, createId)),
+      enemies: (template.enemies ?? []).map(enemyId => createEnemy(pack, enemyId, createId)),
+      items: (template.items ?? []).map(itemId => createItem(pack, itemId, `${itemId}-${createId()}`))
+    };
+    if (template.image) location.image = template.image;
+    if (template.encounters) location.encounters = copy(template.encounters);
+    return [id, location];
+  }));
+
+// Problems with the shape of each entry, checked as the type it becomes
+const checkShapes = (pack: ContentPack): string[] => {
+  const problems: string[] = [];
+
+  Object.entries(pack.items).forEach(([id, item]) => {
+    if (!isRecord(item) || !isItem({ ...item, id })) problems.push(`Item "${id}" is not a valid item.`);
+  });
+
+  Object.entries(pack.enemies).forEach(([id, enemy]) => {
+    if (!isRecord(enemy) || !isEnemy({ ...enemy, id, health: enemy.maxHealth, drops: [] }) ||
+      (enemy.drops !== undefined && !isIdList(enemy.drops))) {
+      problems.push(`Enemy "${id}" is not a valid enemy.`);
+    }
+  });
+
+  Object.entries(pack.npcs).forEach(([id, npc]) => {
+    const valid = isRecord(npc) &&
+      typeof npc.name === 'string' &&
+      typeof npc.description === 'string' &&
+      ['friendly', 'neutral', 'hostile'].includes(npc.attitude as string) &&
+      Array.isArray(npc.dialog) && npc.dialog.every(isDialogOption) &&
+      (npc.gifts === undefined || isIdList(npc.gifts)) &&
+      (npc.shop === undefined || (isRecord(npc.shop) && isIdList(npc.shop.stock) && typeof npc.shop.gold === 'number' &&
+        (npc.shop.restockInterval === undefined || typeof npc.shop.restockInterval === 'number') &&
+        (npc.shop.hours === undefined || isShopHours(npc.shop.hours))));
+    if (!valid) {
+      problems.push(`NPC "${id}" is not a valid NPC.`);
+      return;
+    }
+    (npc.quests ?? []).forEach((quest, index) => {
+      const validQuest = isRecord(quest) && Array.isArray(quest.objectives) && Array.isArray(quest.rewards) &&
+        quest.rewards.every(reward => isRecord(reward) && (reward.itemId === undefined || typeof reward.itemId === 'string')) &&
+        isQuest({
+          ...quest,
+          objectives: quest.objectives.map(objective => ({ ...objective, progress: 0, isCompleted: false })),
+          isCompleted: false,
+          isActive: false
+        });
+      if (!validQuest) problems.push(`Quest ${index + 1} of NPC "${id}" is not a valid quest.`);
+    });
+  });
+
+  Object.entries(pack.locations).forEach(([id, location]) => {
+    const valid = isRecord(location) &&
+      typeof location.name === 'string' &&
+      typeof location.description === 'string' &&
+      (location.image === undefined || typeof location.image === 'string') &&
+      isIdList(location.connections) &&
+      ['npcs', 'enemies', 'items'].every(key => location[key] === undefined || isIdList(location[key])) &&
+      (location.encounters === undefined || isEncounterTable(location.encounters));
+    if (!valid) problems.push(`Location "${id}" is not a valid location.`);
+  });
+
+  return problems;
+};
+
+// References that lead nowhere, and paths that don't fit together
+const checkReferences = (pack: ContentPack): string[] => {
+  const problems: string[] = [];
+  const locations = Object.entries(pack.locations);
+  const itemRef = (where: string) => (itemId: string) => {
+    if (!pack.items[itemId]) problems.push(`${where} refers to missing item "${itemId}".`);
+  };
+
+  [pack.startLocationId, getRespawnPoint(pack).locationId].forEach(id => {
+    if (!pack.locations[id]) problems.push(`The pack has no "${id}" location to start or respawn in.`);
+  });
+
+  locations.forEach(([id, location]) => {
+    const where = `Location "${id}"`;
+    location.connections.forEach(next => {
+      if (!pack.locations[next]) {
+        problems.push(`${where} connects to missing location "${next}".`);
+      } else if (next === id) {
+        problems.push(`${where} connects to itself.`);
+      } else if (!pack.locations[next].connections.includes(id)) {
+        problems.push(`${where} connects to "${next}", but "${next}" does not connect back.`);
+      }
+    });
+    (location.npcs ?? []).forEach(npcId => {
+      if (!pack.npcs[npcId]) problems.push(`${where} refers to missing NPC "${npcId}".`);
+    });
+    (location.enemies ?? []).forEach(enemyId => {
+      if (!pack.enemies[enemyId]) problems.push(`${where} refers to missing enemy "${enemyId}".`);
+    });
+    (location.items ?? []).forEach(itemRef(where));
+    const entries = location.encounters?.entries ?? [];
+    entries.forEach(entry => {
+      if (!pack.enemies[entry.enemy]) problems.push(`${where} has an encounter with missing enemy "${entry.enemy}".`);
+    });
+    if (new Set(entries.map(entry => entry.id)).size !== entries.length) {
+      problems.push(`${where} has two encounters with the same id.`);
+    }
+  });
+
+  // Everything must be reachable from the start
+  const reached = new Set([pack.startLocationId]);
+  const queue = [pack.startLocationId];
+  while (queue.length > 0) {
+    (pack.locations[queue.shift() as string]?.connections ?? []).forEach(next => {
+      if (pack.locations[next] && !reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    });
+  }
+  locations.forEach(([id]) => {
+    if (!reached.has(id)) problems.push(`Location "${id}" can't be reached from "${pack.startLocationId}".`);
+  });
+
+  Object.entries(pack.enemies).forEach(([id, enemy]) => {
+    (enemy.drops ?? []).forEach(itemRef(`Enemy "${id}"`));
+    // Enemy cooldowns are kept by ability id
+    if (new Set(enemy.abilities.map(ability => ability.id)).size !== enemy.abilities.length) {
+      problems.push(`Enemy "${id}" has two abilities with the same id.`);
+    }
+  });
+
+  const questIds = new Set<string>();
+  Object.entries(pack.npcs).forEach(([id, npc]) => {
+    const where = `NPC "${id}"`;
+    const homes = locations.filter(([, location]) => location.npcs?.includes(id)).length;
+    if (homes !== 1) problems.push(`${where} must be in exactly one location, not ${homes}.`);
+
+    (npc.gifts ?? []).forEach(itemRef(where));
+    if (npc.shop) {
+      npc.shop.stock.forEach(itemRef(where));
+      if (new Set(npc.shop.stock).size !== npc.shop.stock.length) problems.push(`${where} stocks the same item twice.`);
+    }
+
+    (npc.quests ?? []).forEach(quest => {
+      const questWhere = `Quest "${quest.id}"`;
+      if (questIds.has(quest.id)) problems.push(`${questWhere} is defined more than once.`);
+      questIds.add(quest.id);
+      quest.rewards.forEach(reward => {
+        if (reward.type === 'item' && !reward.itemId) problems.push(`${questWhere} has an item reward with no item.`);
+        if (reward.itemId) itemRef(questWhere)(reward.itemId);
+      });
+      quest.objectives.forEach(objective => {
+        const matches = (entity: { id: string; name: string }) =>
+          normalize(entity.id) === normalize(objective.target) || normalize(entity.name) === normalize(objective.target);
+        const candidates = {
+          explore: Object.entries(pack.locations),
+          interact: Object.entries(pack.npcs),
+          kill: Object.entries(pack.enemies),
+          collect: Object.entries(pack.items)
+        }[objective.type].map(([entityId, entity]) => ({ id: entityId, name: entity.name }));
+        if (!candidates.some(matches)) {
+          problems.push(`${questWhere} objective "${objective.id}" targets "${objective.target}", which is not in the pack.`);
+        }
+      });
+    });
+  });
+
+  // Dialog scripts are checked once everything they can refer to exists
+  if (problems.length === 0) {
+    Object.keys(pack.npcs).forEach(id => {
+      problems.push(...validateDialog(createNpc(pack, id, () => 'check')));
+    });
+  }
+
+  return problems;
+};
+
+/**
+ * Check a content pack before the game uses it
+ * @param value The parsed JSON
+ * @returns Problems with the pack; empty if it is valid
+ */
+export const validateContentPack = (value: unknown): string[] => {
+  if (!isRecord(value)) return ['A content pack must be a JSON object.'];
+  if (value.format !== CONTENT_PACK_FORMAT) {
+    return [`Content pack format ${String(value.format)} is not supported; this game reads format ${CONTENT_PACK_FORMAT}.`];
+  }
+
+  const problems: string[] = [];
+  ['id', 'name', 'version', 'startLocationId', 'intro'].forEach(key => {
+    if (typeof value[key] !== 'string' || !value[key]) problems.push(`The pack needs a "${key}".`);
+  });
+  ['respawnLocationId', 'respawnName'].forEach(key => {
+    if (value[key] !== undefined && (typeof value[key] !== 'string' || !value[key])) {
+      problems.push(`The pack's "${key}" must be a non-empty string when given.`);
+    }
+  });
+  ['items', 'enemies', 'npcs', 'locations'].forEach(key => {
+    if (!isRecord(value[key])) problems.push(`The pack's "${key}" must be an object keyed by id.`);
+  });
+  if (problems.length > 0) return problems;
+
+  const pack = value as unknown as ContentPack;
+  const shapeProblems = checkShapes(pack);
+  return shapeProblems.length > 0 ? shapeProblems : checkReferences(pack);
+};
+
+/**
+ * Check a content pack and accept it for use
+ * @param value The parsed JSON
+ * @returns The pack
+ * @throws ContentPackError listing every problem if the pack is invalid
+ */
+export const loadContentPack = (value: unknown): ContentPack => {
+  const problems = validateContentPack(value);
+  if (problems.length > 0) {
+    throw new ContentPackError(isRecord(value) ? String(value.id) : 'unknown', problems);
+  }
+  return value as ContentPack;
+};
+
+/**
+ * Where the player wakes after death, and what to call it
+ * @param pack The content pack
+ * @returns The respawn location's id and its name for the game's text
+ */
+export const getRespawnPoint = (pack: ContentPack): RespawnPoint => {
+  const locationId = pack.respawnLocationId ?? pack.startLocationId;
+  return { locationId, name: pack.respawnName ?? pack.locations[locationId]?.name ?? locationId };
+};
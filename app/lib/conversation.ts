@@ -0,0 +1,92 @@
+import { ConversationLine, ConversationResponse, Enemy, NPC } from '../types';
+
+// Free-form conversations with NPCs. The narrator plays the NPC; this module
+// decides what the reply is allowed to change. Attitude moves at most one
+// step per exchange, only an NPC who was already hostile can attack (so a
+// single remark never turns a neutral NPC violent), and memories are capped
+// so old saves don't grow without bound.
+
+export const MAX_NPC_MEMORIES = 12;
+
+// Lines of the current conversation sent with each message
+export const CONVERSATION_WINDOW = 8;
+
+const ATTITUDE_ORDER: NPC['attitude'][] = ['hostile', 'neutral', 'friendly'];
+
+// The parts of an NPC the narrator needs to play them
+export type NpcPersona = Pick<NPC, 'id' | 'name' | 'description' | 'attitude' | 'memory'>;
+
+/**
+ * Strip an NPC down to what the narrator needs
+ * @param npc The NPC
+ * @returns Their name, description, attitude and memories
+ */
+export const toPersona = (npc: NPC): NpcPersona => ({
+  id: npc.id,
+  name: npc.name,
+  description: npc.description,
+  attitude: npc.attitude,
+  memory: npc.memory ?? []
+});
+
+/**
+ * Move an attitude one step towards another
+ * @param current The NPC's attitude now
+ * @param target The attitude the reply asked for
+ * @returns The new attitude
+ */
+export const shiftAttitude = (current: NPC['attitude'], target: NPC['attitude']): NPC['attitude'] => {
+  const from = ATTITUDE_ORDER.indexOf(current);
+  const to = ATTITUDE_ORDER.indexOf(target);
+  return ATTITUDE_ORDER[from + Math.sign(to - from)];
+};
+
+/**
+ * Apply a conversation reply to the NPC
+ * @param npc The NPC being spoken to
+ * @param response The narrator's reply
+ * @returns The updated NPC, and whether they attack
+ */
+export const applyConversationResponse = (
+  npc: NPC,
+  response: ConversationResponse
+): { npc: NPC; attacks: boolean } => {
+  const attitude = shiftAttitude(npc.attitude, response.attitude);
+  const note = response.memory?.trim();
+  const memory = note ? [...(npc.memory ?? []), note].slice(-MAX_NPC_MEMORIES) : npc.memory;
+  return {
+    npc: { ...npc, attitude, memory },
+    attacks: npc.attitude === 'hostile' && attitude === 'hostile' && !!response.attack
+  };
+};
+
+/**
+ * The recent lines of a conversation, for the prompt
+ * @param transcript Every line so far
+ * @returns The last few lines
+ */
+export const getConversationWindow = (transcript: ConversationLine[]) => transcript.slice(-CONVERSATION_WINDOW);
+
+/**
+ * Turn an NPC who attacks into an enemy scaled to the player
+ * @param npc The NPC
+ * @param level The player's level
+ * @returns An enemy with the NPC's id, so they can be removed if slain
+ */
+export const createEnemyFromNpc = (npc: NPC, level: number): Enemy => ({
+  id: npc.id,
+  name: npc.name,
+  description: npc.description,
+  level,
+  health: 12 + level * 6,
+  maxHealth: 12 + level * 6,
+  stats: {
+    strength: 2 + level,
+    dexterity: 2 + level,
+    constitution: 2 + level
+  },
+  abilities: [],
+  drops: [],
+  experience: 8 * level,
+  gold: npc.merchant ? Math.floor(npc.merchant.gold / 4) : 2 * level
+});
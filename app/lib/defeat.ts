@@ -0,0 +1,82 @@
+import { Character, CombatResult, DefeatConsequence, DefeatRecord } from '../types';
+import { PLAYER_COMBATANT_ID } from './combat';
+
+// The player's death and its consequences. Respawning costs a share of the
+// gold carried and of the experience earned toward the next level; a
+// character never loses a level.
+
+export const DEFEAT_PENALTIES = {
+  goldShare: 0.25,
+  experienceShare: 0.5
+};
+
+// How the epitaph names a damage-over-time effect that finished the player off
+const EFFECT_CAUSES: Record<string, string> = {
+  Poison: 'poison',
+  Bleed: 'blood loss'
+};
+
+export interface RespawnPenalty {
+  character: Character;
+  goldLost: number;
+  experienceLost: number;
+}
+
+/**
+ * Work out who dealt the killing blow from the results of the last turn
+ * @param results Results in the order they happened
+ * @returns The enemy's name, or the effect that finished the player off
+ */
+export const findKiller = (results: CombatResult[]) => {
+  const blow = [...results].reverse().find(result => result.targetId === PLAYER_COMBATANT_ID && result.defeated);
+  if (!blow) return 'the darkness';
+  // Damage-over-time results are the player's own, named after the effects
+  return blow.actorId === PLAYER_COMBATANT_ID
+    ? blow.action.split(' and ').map(label => EFFECT_CAUSES[label] ?? label.toLowerCase()).join(' and ')
+    : blow.actorName;
+};
+
+/**
+ * Record the player's death
+ * @param character The fallen character
+ * @param killedBy Who or what dealt the killing blow
+ * @param locationName Where they fell
+ * @param consequence The consequence chosen for this run
+ * @returns The defeat record
+ */
+export const createDefeatRecord = (
+  character: Character,
+  killedBy: string,
+  locationName: string,
+  consequence: DefeatConsequence
+): DefeatRecord => ({
+  characterName: character.name,
+  characterClass: character.class,
+  level: character.level,
+  killedBy,
+  locationName,
+  consequence
+});
+
+/**
+ * Bring a fallen character back at full strength, minus the respawn penalty
+ * @param character The fallen character
+ * @returns The revived character and what the death cost
+ */
+export const applyRespawnPenalty = (character: Character): RespawnPenalty => {
+  const goldLost = Math.floor(character.gold * DEFEAT_PENALTIES.goldShare);
+  const experienceLost = Math.floor(character.experience * DEFEAT_PENALTIES.experienceShare);
+
+  return {
+    character: {
+      ...character,
+      health: character.maxHealth,
+      mana: character.maxMana,
+      statusEffects: [],
+      gold: character.gold - goldLost,
+      experience: character.experience - experienceLost
+    },
+    goldLost,
+    experienceLost
+  };
+};
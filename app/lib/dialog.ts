@@ -0,0 +1,459 @@
+import { Character, DialogOption, DialogResponse, Item, NPC, Quest } from '../types';
+import { GameEvent } from './events';
+
+// Dialog tree engine. Responses carry small scripts: a condition deciding
+// whether the player is offered the response, and actions run when it is
+// chosen. Scripts are parsed into typed trees up front so broken content is
+// rejected when it loads rather than halfway through a conversation.
+//
+// Conditions:
+//   has "Iron Key"                      carrying or wearing an item (name or id)
+//   quest "wolf-pelts" is active        also: completed, available (not yet taken)
+//   gold >= 10                          also: level, health, mana and any stat
+//   attitude is friendly                the NPC's attitude
+//   not ..., ... and ..., ... or ..., ( ... )
+//
+// Actions, separated by semicolons:
+//   give "Healing Draught"              a fresh copy of one of the NPC's gifts or stock
+//   take "Wolf Pelt"                    removes an item from the player's pack
+//   gold +10 / gold -10                 pays or charges the player
+//   start quest "wolf-pelts"            starts one of the NPC's quests
+//   attitude friendly                   changes how the NPC feels about the player
+//   open shop                           opens the NPC's shop
+//   goto <option id>                    continues the conversation
+//   end                                 ends it
+
+export type NpcAttitude = NPC['attitude'];
+export type QuestState = 'active' | 'completed' | 'available';
+export type DialogSubject = 'gold' | 'level' | 'health' | 'mana' | keyof Character['stats'];
+export type Comparison = '>=' | '<=' | '>' | '<' | '==' | '!=';
+
+export type DialogCondition =
+  | { kind: 'and' | 'or'; left: DialogCondition; right: DialogCondition }
+  | { kind: 'not'; operand: DialogCondition }
+  | { kind: 'has'; item: string }
+  | { kind: 'quest'; questId: string; state: QuestState }
+  | { kind: 'compare'; subject: DialogSubject; comparison: Comparison; value: number }
+  | { kind: 'attitude'; attitude: NpcAttitude };
+
+export type DialogAction =
+  | { kind: 'give' | 'take'; item: string }
+  | { kind: 'gold'; amount: number }
+  | { kind: 'startQuest'; questId: string }
+  | { kind: 'attitude'; attitude: NpcAttitude }
+  | { kind: 'openShop' }
+  | { kind: 'goto'; optionId: string }
+  | { kind: 'end' };
+
+export class DialogScriptError extends Error {
+  constructor(message: string, source: string) {
+    super(`${message} in "${source}"`);
+    this.name = 'DialogScriptError';
+  }
+}
+
+// What conditions are checked against
+export interface DialogContext {
+  character: Character;
+  quests: Quest[];
+  npc: NPC;
+}
+
+// The result of choosing a response
+export interface DialogOutcome {
+  character: Character;
+  npc: NPC;
+  // Quests started by the response
+  startedQuests: Quest[];
+  openShop: boolean;
+  // Where the conversation goes next; null when it ends
+  nextOptionId: string | null;
+  // What happened, to announce once the outcome is applied
+  events: GameEvent[];
+}
+
+const SUBJECTS: DialogSubject[] = [
+  'gold', 'level', 'health', 'mana',
+  'strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma'
+];
+const COMPARISONS: Comparison[] = ['>=', '<=', '>', '<', '==', '!='];
+const QUEST_STATES: QuestState[] = ['active', 'completed', 'available'];
+const ATTITUDES: NpcAttitude[] = ['friendly', 'neutral', 'hostile'];
+
+type Token =
+  | { type: 'word'; value: string }
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'symbol'; value: string };
+
+const TOKEN_PATTERN = /\s*(?:"([^"]*)"|([+-]?\d+)|(>=|<=|==|!=|[<>();])|([A-Za-z_][\w-]*))/y;
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (source.slice(TOKEN_PATTERN.lastIndex).trim()) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) throw new DialogScriptError(`Unexpected character "${source.slice(start).trim()[0]}"`, source);
+    if (match[1] !== undefined) tokens.push({ type: 'string', value: match[1] });
+    else if (match[2] !== undefined) tokens.push({ type: 'number', value: Number(match[2]) });
+    else if (match[3] !== undefined) tokens.push({ type: 'symbol', value: match[3] });
+    else tokens.push({ type: 'word', value: match[4] });
+  }
+  return tokens;
+};
+
+// Reads tokens one at a time, failing with a readable message
+const createReader = (source: string) => {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const describe = (token?: Token) => token ? `"${token.value}"` : 'end of script';
+
+  const reader = {
+    peek: () => tokens[position] as Token | undefined,
+    done: () => position >= tokens.length,
+    fail: (message: string): never => {
+      throw new DialogScriptError(message, source);
+    },
+    accept: (type: Token['type'], value?: string) => {
+      const token = tokens[position];
+      if (token && token.type === type && (value === undefined || token.value === value)) {
+        position++;
+        return true;
+      }
+      return false;
+    },
+    expect: (type: Token['type'], what: string, value?: string): Token => {
+      const token = tokens[position];
+      if (!token || token.type !== type || (value !== undefined && token.value !== value)) {
+        return reader.fail(`Expected ${what} but found ${describe(token)}`);
+      }
+      position++;
+      return token;
+    },
+    expectOneOf: <T extends string>(values: readonly T[], what: string): T => {
+      const token = tokens[position];
+      if (!token || token.type === 'number' || !(values as readonly string[]).includes(String(token.value))) {
+        return reader.fail(`Expected ${what} (${values.join(', ')}) but found ${describe(token)}`);
+      }
+      position++;
+      return token.value as T;
+    }
+  };
+  return reader;
+};
+
+type Reader = ReturnType<typeof createReader>;
+
+const parseAtom = (reader: Reader): DialogCondition => {
+  if (reader.accept('symbol', '(')) {
+    const condition = parseOr(reader);
+    reader.expect('symbol', '")"', ')');
+    return condition;
+  }
+  if (reader.accept('word', 'not')) return { kind: 'not', operand: parseAtom(reader) };
+  if (reader.accept('word', 'has')) return { kind: 'has', item: String(reader.expect('string', 'an item name').value) };
+  if (reader.accept('word', 'quest')) {
+    const questId = String(reader.expect('string', 'a quest id').value);
+    reader.expect('word', '"is"', 'is');
+    return { kind: 'quest', questId, state: reader.expectOneOf(QUEST_STATES, 'a quest state') };
+  }
+  if (reader.accept('word', 'attitude')) {
+    reader.expect('word', '"is"', 'is');
+    return { kind: 'attitude', attitude: reader.expectOneOf(ATTITUDES, 'an attitude') };
+  }
+
+  const subject = reader.expectOneOf(SUBJECTS, 'a condition');
+  const comparison = reader.expectOneOf(COMPARISONS, 'a comparison');
+  const value = Number(reader.expect('number', 'a number').value);
+  return { kind: 'compare', subject, comparison, value };
+};
+
+const parseAnd = (reader: Reader): DialogCondition => {
+  let condition = parseAtom(reader);
+  while (reader.accept('word', 'and')) {
+    condition = { kind: 'and', left: condition, right: parseAtom(reader) };
+  }
+  return condition;
+};
+
+const parseOr = (reader: Reader): DialogCondition => {
+  let condition = parseAnd(reader);
+  while (reader.accept('word', 'or')) {
+    condition = { kind: 'or', left: condition, right: parseAnd(reader) };
+  }
+  return condition;
+};
+
+/**
+ * Parse a dialog condition
+ * @param source The condition script
+ * @returns The parsed condition
+ * @throws DialogScriptError if the script is invalid
+ */
+export const parseCondition = (source: string): DialogCondition => {
+  const reader = createReader(source);
+  const condition = parseOr(reader);
+  if (!reader.done()) reader.fail(`Unexpected "${reader.peek()?.value}"`);
+  return condition;
+};
+
+const parseAction = (reader: Reader): DialogAction => {
+  const verb = reader.expectOneOf(['give', 'take', 'gold', 'start', 'attitude', 'open', 'goto', 'end'] as const, 'an action');
+  switch (verb) {
+    case 'give':
+    case 'take':
+      return { kind: verb, item: String(reader.expect('string', 'an item name').value) };
+    case 'gold':
+      return { kind: 'gold', amount: Number(reader.expect('number', 'an amount').value) };
+    case 'start':
+      reader.expect('word', '"quest"', 'quest');
+      return { kind: 'startQuest', questId: String(reader.expect('string', 'a quest id').value) };
+    case 'attitude':
+      return { kind: 'attitude', attitude: reader.expectOneOf(ATTITUDES, 'an attitude') };
+    case 'open':
+      reader.expect('word', '"shop"', 'shop');
+      return { kind: 'openShop' };
+    case 'goto':
+      return { kind: 'goto', optionId: String(reader.expect('word', 'a dialog option id').value) };
+    case 'end':
+      return { kind: 'end' };
+  }
+};
+
+/**
+ * Parse a dialog action script
+ * @param source Actions separated by semicolons
+ * @returns The parsed actions, in order
+ * @throws DialogScriptError if the script is invalid
+ */
+export const parseActions = (source: string): DialogAction[] => {
+  const reader = createReader(source);
+  const actions: DialogAction[] = [];
+  while (!reader.done()) {
+    actions.push(parseAction(reader));
+    if (!reader.done()) reader.expect('symbol', '";"', ';');
+  }
+  return actions;
+};
+
+const sameName = (item: Item, name: string) =>
+  item.id === name || item.name.toLowerCase() === name.toLowerCase();
+
+// Items the NPC can hand over: gifts first, then shop stock
+const findGift = (npc: NPC, name: string) =>
+  [...(npc.gifts ?? []), ...(npc.merchant?.stock ?? []), ...(npc.shop ?? [])].find(item => sameName(item, name));
+
+const getQuestState = (quests: Quest[], questId: string): QuestState => {
+  const quest = quests.find(q => q.id === questId);
+  if (!quest) return 'available';
+  return quest.isCompleted ? 'completed' : 'active';
+};
+
+const getSubjectValue = (character: Character, subject: DialogSubject) => {
+  switch (subject) {
+    case 'gold':
+    case 'level':
+    case 'health':
+    case 'mana':
+      return character[subject];
+    default:
+      return character.stats[subject];
+  }
+};
+
+const compare = (left: number, comparison: Comparison, right: number) => {
+  switch (comparison) {
+    case '>=': return left >= right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '<': return left < right;
+    case '==': return left === right;
+    case '!=': return left !== right;
+  }
+};
+
+/**
+ * Evaluate a parsed condition
+ * @param condition The condition
+ * @param context The character, their quests and the NPC being spoken to
+ * @returns Whether it holds
+ */
+export const evaluateCondition = (condition: DialogCondition, context: DialogContext): boolean => {
+  switch (condition.kind) {
+    case 'and':
+      return evaluateCondition(condition.left, context) && evaluateCondition(condition.right, context);
+    case 'or':
+      return evaluateCondition(condition.left, context) || evaluateCondition(condition.right, context);
+    case 'not':
+      return !evaluateCondition(condition.operand, context);
+    case 'has':
+      return [...context.character.inventory, ...Object.values(context.character.equipment)]
+        .some(item => item && sameName(item, condition.item));
+    case 'quest':
+      return getQuestState(context.quests, condition.questId) === condition.state;
+    case 'compare':
+      return compare(getSubjectValue(context.character, condition.subject), condition.comparison, condition.value);
+    case 'attitude':
+      return context.npc.attitude === condition.attitude;
+  }
+};
+
+/**
+ * Find a dialog option by id
+ * @param npc The NPC
+ * @param optionId The option's id, or undefined for the greeting
+ * @returns The option, or undefined if there is none
+ */
+export const getDialogOption = (npc: NPC, optionId?: string): DialogOption | undefined =>
+  optionId ? npc.dialog.find(option => option.id === optionId) : npc.dialog[0];
+
+/**
+ * The responses the player may choose from right now
+ * @param option The current dialog option
+ * @param context The character, their quests and the NPC being spoken to
+ * @returns The responses whose conditions hold
+ */
+export const getAvailableResponses = (option: DialogOption, context: DialogContext): DialogResponse[] =>
+  option.responses.filter(response => !response.condition || evaluateCondition(parseCondition(response.condition), context));
+
+// Whether actions can run in order; "take" checks against the pack as it will
+// be by then, so a response can't give away the same item twice
+const checkActions = (actions: DialogAction[], context: DialogContext): string | null => {
+  let inventory = context.character.inventory;
+  let gold = context.character.gold;
+  for (const action of actions) {
+    if (action.kind === 'take') {
+      const item = inventory.find(i => sameName(i, action.item));
+      if (!item) return `You don't have ${action.item}.`;
+      inventory = inventory.filter(i => i !== item);
+    }
+    if (action.kind === 'gold') {
+      gold += action.amount;
+      if (gold < 0) return 'You don\'t have enough gold.';
+    }
+  }
+  return null;
+};
+
+/**
+ * Choose a response: run its actions and work out where the conversation goes.
+ * Nothing changes if an action can't be carried out.
+ * @param response The chosen response
+ * @param context The character, their quests and the NPC being spoken to
+ * @param createId Makes ids for items handed over
+ * @returns The updated character and NPC and what else happened, or the
+ * reason the response can't be chosen
+ */
+export const chooseDialogResponse = (
+  response: DialogResponse,
+  context: DialogContext,
+  createId: () => string
+): DialogOutcome | { reason: string } => {
+  if (response.condition && !evaluateCondition(parseCondition(response.condition), context)) {
+    return { reason: 'You can\'t say that now.' };
+  }
+
+  const actions = response.action ? parseActions(response.action) : [];
+  const blocker = checkActions(actions, context);
+  if (blocker) return { reason: blocker };
+
+  let { character, npc } = context;
+  const outcome: DialogOutcome = {
+    character,
+    npc,
+    startedQuests: [],
+    openShop: false,
+    nextOptionId: null,
+    events: []
+  };
+
+  for (const action of actions) {
+    switch (action.kind) {
+      case 'give': {
+        const gift = findGift(npc, action.item);
+        if (!gift) break;
+        const item = { ...gift, id: createId() };
+        character = { ...character, inventory: [...character.inventory, item] };
+        outcome.events.push({ type: 'GiftReceived', npc, item });
+        break;
+      }
+      case 'take': {
+        const item = character.inventory.find(i => sameName(i, action.item));
+        if (!item) break;
+        character = { ...character, inventory: character.inventory.filter(i => i.id !== item.id) };
+        outcome.events.push({ type: 'ItemHandedOver', npc, item });
+        break;
+      }
+      case 'gold':
+        character = { ...character, gold: character.gold + action.amount };
+        outcome.events.push({ type: 'GoldExchanged', npc, amount: action.amount });
+        break;
+      case 'startQuest': {
+        const quest = npc.quests?.find(q => q.id === action.questId);
+        const started = [...context.quests, ...outcome.startedQuests].some(q => q.id === action.questId);
+        if (!quest || started) break;
+        const accepted = { ...quest, isActive: true, isCompleted: false };
+        outcome.startedQuests.push(accepted);
+        outcome.events.push({ type: 'QuestAccepted', quest: accepted });
+        break;
+      }
+      case 'attitude':
+        if (npc.attitude !== action.attitude) {
+          npc = { ...npc, attitude: action.attitude };
+          outcome.events.push({ type: 'AttitudeChanged', npc, attitude: action.attitude });
+        }
+        break;
+      case 'openShop':
+        outcome.openShop = !!npc.merchant;
+        break;
+      case 'goto':
+        outcome.nextOptionId = action.optionId;
+        break;
+      case 'end':
+        outcome.nextOptionId = null;
+        break;
+    }
+  }
+
+  return { ...outcome, character, npc };
+};
+
+/**
+ * Check every script in an NPC's dialog, including that quests, gifts and
+ * goto targets exist
+ * @param npc The NPC
+ * @returns A message per problem; empty when the dialog is valid
+ */
+export const validateDialog = (npc: NPC): string[] => {
+  const errors: string[] = [];
+  const optionIds = new Set(npc.dialog.map(option => option.id));
+
+  npc.dialog.forEach(option => {
+    option.responses.forEach(response => {
+      const where = `${npc.id}/${option.id}/${response.id}`;
+      try {
+        if (response.condition) parseCondition(response.condition);
+        (response.action ? parseActions(response.action) : []).forEach(action => {
+          if (action.kind === 'goto' && !optionIds.has(action.optionId)) {
+            errors.push(`${where}: no dialog option "${action.optionId}"`);
+          }
+          if (action.kind === 'give' && !findGift(npc, action.item)) {
+            errors.push(`${where}: ${npc.name} has no "${action.item}" to give`);
+          }
+          if (action.kind === 'startQuest' && !npc.quests?.some(q => q.id === action.questId)) {
+            errors.push(`${where}: ${npc.name} has no quest "${action.questId}"`);
+          }
+          if (action.kind === 'openShop' && !npc.merchant) {
+            errors.push(`${where}: ${npc.name} has no shop`);
+          }
+        });
+      } catch (error) {
+        errors.push(`${where}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  });
+
+  return errors;
+};
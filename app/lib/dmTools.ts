@@ -0,0 +1,277 @@
+import { Character, DungeonMasterCall, Enemy, Item, Location, Quest } from '../types';
+import { getRarityBonuses } from './equipment';
+import { Schema, validateSchema } from './schema';
+
+// Tools the Dungeon Master can call to change game state. Every call is
+// checked twice: on the server against the state sent with the request (so
+// rejections can go back to the model), and again in the store against live
+// state right before it is applied.
+
+export interface ToolDeclaration {
+  name: DungeonMasterCall['name'];
+  description: string;
+  parameters: Schema & { type: 'object' };
+}
+
+// The slice of game state the validator needs
+export interface ToolState {
+  character: Character;
+  currentLocation: Location;
+  quests: Quest[];
+  inCombat: boolean;
+}
+
+export type ToolValidation =
+  | { ok: true; call: DungeonMasterCall }
+  | { ok: false; reason: string };
+
+// Balance limits for anything the model hands out
+export const DM_TOOL_LIMITS = {
+  maxCallsPerTurn: 3,
+  experiencePerLevel: 25,
+  itemValuePerLevel: 50,
+  healPerLevel: 10,
+  enemyLevelsAbovePlayer: 1
+};
+
+// Minimum character level for each item rarity
+export const RARITY_LEVELS: Record<Item['rarity'], number> = {
+  common: 1,
+  uncommon: 1,
+  rare: 3,
+  epic: 6,
+  legendary: 10
+};
+
+export const DM_TOOLS: ToolDeclaration[] = [
+  {
+    name: 'addItemToInventory',
+    description: 'Give the player an item they find, receive or take in the story.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        type: { type: 'string', enum: ['weapon', 'armor', 'potion', 'misc'] },
+        rarity: { type: 'string', enum: ['common', 'uncommon', 'rare', 'epic', 'legendary'] },
+        value: { type: 'integer', description: 'Worth in gold' },
+        healAmount: { type: 'integer', description: 'Health restored when used; potions only' }
+      },
+      required: ['name', 'description', 'type', 'rarity', 'value']
+    }
+  },
+  {
+    name: 'startCombat',
+    description: 'Start a fight when an enemy attacks or the player picks a fight. Prefer enemyId for enemies already at this location.',
+    parameters: {
+      type: 'object',
+      properties: {
+        enemyId: { type: 'string', description: 'Id of an enemy listed at the current location' },
+        enemyName: { type: 'string', description: 'Name of a new enemy' },
+        description: { type: 'string', description: 'Description of a new enemy' },
+        level: { type: 'integer', description: 'Level of a new enemy' },
+        behaviour: {
+          type: 'string',
+          enum: ['aggressive', 'cautious', 'support', 'cowardly'],
+          description: 'How a new enemy fights: to the death, warily, by helping others, or ready to run'
+        }
+      }
+    }
+  },
+  {
+    name: 'gainExperience',
+    description: 'Reward the player with experience for clever play or meaningful discoveries.',
+    parameters: {
+      type: 'object',
+      properties: {
+        amount: { type: 'integer' },
+        reason: { type: 'string' }
+      },
+      required: ['amount', 'reason']
+    }
+  },
+  {
+    name: 'moveToLocation',
+    description: 'Move the player to a location connected to the current one.',
+    parameters: {
+      type: 'object',
+      properties: {
+        locationId: { type: 'string' }
+      },
+      required: ['locationId']
+    }
+  },
+  {
+    name: 'updateQuestProgress',
+    description: 'Advance an objective of one of the player\'s active quests.',
+    parameters: {
+      type: 'object',
+      properties: {
+        questId: { type: 'string' },
+        objectiveId: { type: 'string' },
+        amount: { type: 'integer' }
+      },
+      required: ['questId', 'objectiveId', 'amount']
+    }
+  }
+];
+
+const reject = (reason: string): ToolValidation => ({ ok: false, reason });
+
+// Game rules for each tool, applied once the arguments have the right shape
+const checkCall = (call: DungeonMasterCall, state: ToolState): string | null => {
+  const { character, currentLocation } = state;
+
+  switch (call.name) {
+    case 'addItemToInventory': {
+      const { rarity, value, healAmount, type } = call.args;
+      if (RARITY_LEVELS[rarity] > character.level) {
+        return `A level ${character.level} character cannot receive ${rarity} items.`;
+      }
+      if (value < 0 || value > character.level * DM_TOOL_LIMITS.itemValuePerLevel) {
+        return `Item value must be between 0 and ${character.level * DM_TOOL_LIMITS.itemValuePerLevel}.`;
+      }
+      if (healAmount !== undefined && type !== 'potion') {
+        return 'Only potions can heal.';
+      }
+      if (healAmount !== undefined && (healAmount <= 0 || healAmount > character.level * DM_TOOL_LIMITS.healPerLevel)) {
+        return `Healing must be between 1 and ${character.level * DM_TOOL_LIMITS.healPerLevel}.`;
+      }
+      return null;
+    }
+    case 'startCombat': {
+      const { enemyId, enemyName, level } = call.args;
+      if (state.inCombat) return 'The player is already in combat.';
+      if (enemyId) {
+        return currentLocation.enemies?.some(enemy => enemy.id === enemyId)
+          ? null
+          : `There is no enemy "${enemyId}" at ${currentLocation.name}.`;
+      }
+      if (!enemyName || level === undefined) return 'A new enemy needs a name and a level.';
+      const maxLevel = character.level + DM_TOOL_LIMITS.enemyLevelsAbovePlayer;
+      return level >= 1 && level <= maxLevel ? null : `Enemy level must be between 1 and ${maxLevel}.`;
+    }
+    case 'gainExperience': {
+      const maxExperience = character.level * DM_TOOL_LIMITS.experiencePerLevel;
+      return call.args.amount > 0 && call.args.amount <= maxExperience
+        ? null
+        : `Experience rewards must be between 1 and ${maxExperience}.`;
+    }
+    case 'moveToLocation': {
+      if (state.inCombat) return 'The player cannot leave during combat.';
+      return currentLocation.connections.includes(call.args.locationId)
+        ? null
+        : `"${call.args.locationId}" is not connected to ${currentLocation.name}.`;
+    }
+    case 'updateQuestProgress': {
+      const quest = state.quests.find(q => q.id === call.args.questId);
+      if (!quest || !quest.isActive || quest.isCompleted) return `There is no active quest "${call.args.questId}".`;
+      const objective = quest.objectives.find(o => o.id === call.args.objectiveId);
+      if (!objective || objective.isCompleted) return `Quest "${quest.name}" has no open objective "${call.args.objectiveId}".`;
+      return call.args.amount >= 1 && call.args.amount <= objective.count - objective.progress
+        ? null
+        : `Progress must be between 1 and ${objective.count - objective.progress}.`;
+    }
+  }
+};
+
+/**
+ * Validate a raw tool call from the model against the schema and game rules
+ * @param name The tool name the model called
+ * @param args The arguments the model supplied
+ * @param state Current game state
+ * @returns The typed call if allowed, otherwise the reason it was rejected
+ */
+export const validateToolCall = (name: string, args: unknown, state: ToolState): ToolValidation => {
+  const tool = DM_TOOLS.find(t => t.name === name);
+  if (!tool) return reject(`Unknown tool "${name}".`);
+
+  const problems = validateSchema(tool.parameters, args ?? {});
+  if (problems.length > 0) return reject(problems.join('; '));
+
+  const call = { name, args: args ?? {} } as DungeonMasterCall;
+  const problem = checkCall(call, state);
+  return problem ? reject(problem) : { ok: true, call };
+};
+
+/**
+ * Build the inventory item for an accepted addItemToInventory call. Weapon
+ * and armour bonuses come from the rarity, never from the model.
+ * @param args The call's arguments
+ * @param id Id for the new item
+ * @returns The item
+ */
+export const createItemFromCall = (
+  args: Extract<DungeonMasterCall, { name: 'addItemToInventory' }>['args'],
+  id: string
+): Item => ({
+  id,
+  name: args.name,
+  description: args.description,
+  type: args.type,
+  rarity: args.rarity,
+  value: args.value,
+  effects: args.healAmount ? [{ type: 'heal', target: 'self', amount: args.healAmount }] : undefined,
+  usable: args.type === 'potion',
+  bonuses: getRarityBonuses(args.type, args.rarity)
+});
+
+/**
+ * Build an enemy for an accepted startCombat call that names a new enemy.
+ * Stats come from the level, never from the model.
+ * @param args The call's arguments
+ * @param id Id for the new enemy
+ * @returns The enemy
+ */
+export const createEnemyFromCall = (
+  args: Extract<DungeonMasterCall, { name: 'startCombat' }>['args'],
+  id: string
+): Enemy => {
+  const level = args.level ?? 1;
+  const maxHealth = 10 + level * 6;
+  return {
+    id,
+    name: args.enemyName ?? 'Nameless Horror',
+    description: args.description ?? 'A shape that should not exist, lurching out of the dark.',
+    level,
+    health: maxHealth,
+    maxHealth,
+    stats: {
+      strength: 2 + level,
+      dexterity: 2 + level,
+      constitution: 1 + level
+    },
+    abilities: [],
+    drops: [],
+    experience: level * 10,
+    gold: level * 3,
+    behaviour: args.behaviour
+  };
+};
+
+/**
+ * Create a validator for all the calls in one Dungeon Master turn. It enforces
+ * the per-turn limits and lets later calls see earlier accepted ones.
+ * @param initialState Game state at the start of the turn
+ * @returns A function validating each call in order
+ */
+export const createToolTurnValidator = (initialState: ToolState) => {
+  const state = { ...initialState };
+  const accepted: DungeonMasterCall[] = [];
+
+  return (name: string, args: unknown): ToolValidation => {
+    if (accepted.length >= DM_TOOL_LIMITS.maxCallsPerTurn) {
+      return reject('Too many changes in one turn.');
+    }
+    if (accepted.some(call => call.name === name)) {
+      return reject(`${name} was already used this turn.`);
+    }
+
+    const validation = validateToolCall(name, args, state);
+    if (validation.ok) {
+      accepted.push(validation.call);
+      if (validation.call.name === 'startCombat') state.inCombat = true;
+    }
+    return validation;
+  };
+};
@@ -0,0 +1,145 @@
+import { Character, EncounterEntry, Enemy, Location } from '../types';
+import { ContentPack, createEnemyFromTemplate } from './contentPacks';
+import { ENCOUNTER_CHANCE, getActiveEnemies, getTimeOfDay, MINUTES_PER_HOUR } from './clock';
+import { RandomSource, rollDie } from './random';
+
+// Random encounters on arrival. A location's encounter table lists what may
+// turn up, with weights, group sizes, the player levels and times of day each
+// entry is rolled for, and a cooldown so the same fight doesn't repeat at
+// once. Enemies come from the content pack's templates, scaled to the
+// player's level. Locations without a table (such as charted ones) fall back
+// on the enemies living there. Once an encounter is rolled, the player's
+// perception is matched against the enemies' stealth: lose and they ambush
+// the player; win and the player spots them first and may fight or slip away.
+
+// Hours an entry rests after it is rolled, unless it sets its own
+export const DEFAULT_ENCOUNTER_COOLDOWN = 6;
+
+export interface EncounterRoll {
+  // The table entry, or null when the location's own enemies turned up
+  entryId: string | null;
+  enemies: Enemy[];
+  // True if the enemies noticed the player first
+  ambush: boolean;
+}
+
+/**
+ * The key an entry's cooldown is kept under
+ * @param locationId The location
+ * @param entryId The encounter table entry
+ * @returns The key
+ */
+export const getCooldownKey = (locationId: string, entryId: string) => `${locationId}:${entryId}`;
+
+// Entries that may turn up for this player at this hour
+const getEligibleEntries = (
+  location: Location,
+  level: number,
+  gameTime: number,
+  cooldowns: Record<string, number>
+): EncounterEntry[] => {
+  const { phase } = getTimeOfDay(gameTime);
+  return (location.encounters?.entries ?? []).filter(entry =>
+    (!entry.levels || (level >= entry.levels.min && level <= entry.levels.max)) &&
+    (!entry.during || entry.during.includes(phase)) &&
+    (cooldowns[getCooldownKey(location.id, entry.id)] ?? 0) <= gameTime
+  );
+};
+
+const pickWeighted = (entries: EncounterEntry[], random: RandomSource) => {
+  const total = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  let roll = random() * total;
+  return entries.find(entry => (roll -= entry.weight) < 0) ?? entries[entries.length - 1];
+};
+
+/**
+ * Whether the enemies notice the player before the player notices them:
+ * d20 plus wisdom against d20 plus the stealthiest enemy's dexterity
+ * @param character The player's character
+ * @param enemies The enemies
+ * @param random Random source
+ * @returns True for an ambush
+ */
+export const rollAmbush = (character: Character, enemies: Enemy[], random: RandomSource) => {
+  const perception = rollDie(random, 20) + character.stats.wisdom;
+  const stealth = rollDie(random, 20) + Math.max(...enemies.map(enemy => enemy.stats.dexterity));
+  // Ties go to whoever is lying in wait
+  return stealth >= perception;
+};
+
+/**
+ * Roll for an encounter as the player arrives somewhere
+ * @param location Where the player arrived
+ * @param character The player's character
+ * @param pack The content pack holding the enemy templates
+ * @param gameTime Minutes since the world began
+ * @param cooldowns Encounter cooldowns, by getCooldownKey
+ * @param random Random source
+ * @param createId Creates ids for spawned enemies
+ * @returns The encounter, or null if the way is clear
+ */
+export const rollEncounter = (
+  location: Location,
+  character: Character,
+  pack: ContentPack,
+  gameTime: number,
+  cooldowns: Record<string, number>,
+  random: RandomSource,
+  createId: () => string
+): EncounterRoll | null => {
+  const { phase } = getTimeOfDay(gameTime);
+  const chance = location.encounters?.chance?.[phase] ?? ENCOUNTER_CHANCE[phase];
+
+  if (!location.encounters) {
+    const residents = getActiveEnemies(location.enemies ?? [], gameTime);
+    if (residents.length === 0 || random() >= chance) return null;
+    return { entryId: null, enemies: residents, ambush: rollAmbush(character, residents, random) };
+  }
+
+  const entries = getEligibleEntries(location, character.level, gameTime, cooldowns)
+    .filter(entry => pack.enemies[entry.enemy]);
+  if (entries.length === 0 || random() >= chance) return null;
+
+  const entry = pickWeighted(entries, random);
+  const size = entry.group.min + Math.floor(random() * (entry.group.max - entry.group.min + 1));
+  // Scaled up to the player's level, never down below the template's
+  const level = Math.max(pack.enemies[entry.enemy].level, character.level);
+  const enemies = Array.from({ length: size }, () => createEnemyFromTemplate(pack, entry.enemy, createId, level));
+
+  return { entryId: entry.id, enemies, ambush: rollAmbush(character, enemies, random) };
+};
+
+/**
+ * Put an encounter's entry to rest, dropping cooldowns that have run out
+ * @param cooldowns Encounter cooldowns, by getCooldownKey
+ * @param location Where the encounter happened
+ * @param entryId The entry that was rolled
+ * @param gameTime Minutes since the world began
+ * @returns The updated cooldowns
+ */
+export const startEncounterCooldown = (
+  cooldowns: Record<string, number>,
+  location: Location,
+  entryId: string,
+  gameTime: number
+): Record<string, number> => {
+  const entry = location.encounters?.entries.find(candidate => candidate.id === entryId);
+  const hours = entry?.cooldown ?? DEFAULT_ENCOUNTER_COOLDOWN;
+  const active = Object.fromEntries(Object.entries(cooldowns).filter(([, until]) => until > gameTime));
+  return { ...active, [getCooldownKey(location.id, entryId)]: gameTime + hours * MINUTES_PER_HOUR };
+};
+
+// "an" before a vowel sound, going by the first letter
+const withArticle = (name: string) => `${/^[aeiou]/i.test(name) ? 'an' : 'a'} ${name}`;
+
+/**
+ * Name an encounter's enemies for the log, e.g. "3 Shadow Wolves" or "an Imp"
+ * @param enemies The enemies
+ * @returns A short description
+ */
+export const describeEncounterGroup = (enemies: Enemy[]) => {
+  const counts = enemies.reduce<Record<string, number>>((all, enemy) => ({ ...all, [enemy.name]: (all[enemy.name] ?? 0) + 1 }), {});
+  return Object.entries(counts)
+    .map(([name, count]) => count === 1 ? withArticle(name) : `${count} ${name.endsWith('f') ? `${name.slice(0, -1)}ves` : `${name}s`}`)
+    .join(' and ');
+};
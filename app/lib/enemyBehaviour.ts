@@ -0,0 +1,144 @@
+import { Ability, Enemy, EnemyBehaviour, EnemyIntent, StatusEffect } from '../types';
+import { isStunned } from './statusEffects';
+
+// How enemies choose what to do. Each enemy has a behaviour profile that
+// decides which of its abilities it reaches for first, when it heals, whether
+// it looks after its allies, and when it gives up and flees or surrenders.
+// Planning is deterministic, so the intent worked out after one turn is
+// exactly what the enemy does on its next, and can be shown to the player
+// ahead of time.
+
+interface BehaviourProfile {
+  // Ability types in the order the enemy reaches for them
+  priorities: Ability['type'][];
+  // Heals are saved until the healed combatant is at or below this share of
+  // its health, unless the ability sets its own useBelow
+  healBelow: number;
+  // Whether the enemy heals and buffs its allies as well as itself
+  helpsAllies: boolean;
+  // At or below this share of its health the enemy gives up the fight
+  withdrawBelow: number;
+  withdrawal: 'flee' | 'surrender';
+}
+
+export const BEHAVIOUR_PROFILES: Record<EnemyBehaviour, BehaviourProfile> = {
+  // Goes for the throat and fights to the death
+  aggressive: { priorities: ['attack', 'debuff', 'buff', 'utility', 'heal'], healBelow: 0.25, helpsAllies: false, withdrawBelow: 0, withdrawal: 'flee' },
+  // Keeps itself healthy and protected, and yields when the fight is lost
+  cautious: { priorities: ['heal', 'buff', 'utility', 'debuff', 'attack'], healBelow: 0.6, helpsAllies: false, withdrawBelow: 0.2, withdrawal: 'surrender' },
+  // Mends and strengthens the others before it fights
+  support: { priorities: ['heal', 'buff', 'utility', 'debuff', 'attack'], healBelow: 0.7, helpsAllies: true, withdrawBelow: 0, withdrawal: 'surrender' },
+  // Fights dirty while it's winning and runs once it isn't
+  cowardly: { priorities: ['debuff', 'attack', 'heal', 'buff', 'utility'], healBelow: 0.5, helpsAllies: false, withdrawBelow: 0.4, withdrawal: 'flee' }
+};
+
+// How the player sees an action coming when the ability doesn't say
+const DEFAULT_TELLS: Record<Ability['type'], string> = {
+  attack: 'readies {ability} against {target}',
+  heal: 'prepares {ability} for {target}',
+  buff: 'prepares {ability} on {target}',
+  debuff: 'turns {ability} on {target}',
+  utility: 'prepares {ability}'
+};
+
+// The side of the fight an enemy plans against
+interface Opponent {
+  id: string;
+  statusEffects?: StatusEffect[];
+}
+
+/**
+ * Whether an enemy is still in the fight: standing and neither fled nor
+ * surrendered
+ * @param enemy The enemy
+ * @returns True if it can still act and be targeted
+ */
+export const isStillFighting = (enemy: Enemy) => enemy.health > 0 && !enemy.withdrawn;
+
+const healthShare = (enemy: Enemy) => enemy.health / enemy.maxHealth;
+
+const hasEffect = (effects: StatusEffect[] | undefined, ability: Ability) =>
+  !!ability.statusEffect && (effects ?? []).some(effect => effect.kind === ability.statusEffect?.kind);
+
+// The user's own health decides abilities other than heals
+const isSavedFor = (enemy: Enemy, ability: Ability) =>
+  ability.useBelow !== undefined && healthShare(enemy) > ability.useBelow;
+
+const describeIntent = (enemy: Enemy, text: string, targetName: string, abilityName = '') =>
+  `${enemy.name} ${text.replace(/\{target\}/g, targetName).replace(/\{ability\}/g, abilityName)}.`;
+
+/**
+ * Work out what an enemy will do on its next turn
+ * @param enemy The enemy
+ * @param allies The other enemies still fighting
+ * @param player The player, as the enemy's opponent
+ * @param cooldowns Turns left on the enemy's abilities, by ability id
+ * @returns The intent, or null if the enemy is stunned or out of the fight
+ */
+export const planEnemyIntent = (
+  enemy: Enemy,
+  allies: Enemy[],
+  player: Opponent,
+  cooldowns: Record<string, number> = {}
+): EnemyIntent | null => {
+  if (!isStillFighting(enemy) || isStunned(enemy.statusEffects)) return null;
+
+  const profile = BEHAVIOUR_PROFILES[enemy.behaviour ?? 'aggressive'];
+  if (healthShare(enemy) <= profile.withdrawBelow) {
+    return {
+      enemyId: enemy.id,
+      kind: profile.withdrawal,
+      targetId: enemy.id,
+      telegraph: profile.withdrawal === 'flee'
+        ? `${enemy.name} is badly hurt and looking for a way out.`
+        : `${enemy.name} is faltering and looks ready to yield.`
+    };
+  }
+
+  // Support enemies see to the others before themselves
+  const friends = profile.helpsAllies ? [...allies.filter(isStillFighting), enemy] : [enemy];
+  const nameOf = (id: string) =>
+    id === player.id ? 'you' : id === enemy.id ? 'itself' : friends.find(friend => friend.id === id)?.name ?? 'its ally';
+
+  const ready = enemy.abilities.filter(ability => (cooldowns[ability.id] ?? 0) <= 0);
+  const chooseTarget = (ability: Ability): string | null => {
+    switch (ability.type) {
+      case 'heal': {
+        const threshold = ability.useBelow ?? profile.healBelow;
+        const wounded = friends
+          .filter(friend => friend.health < friend.maxHealth && healthShare(friend) <= threshold)
+          .sort((a, b) => healthShare(a) - healthShare(b));
+        return wounded[0]?.id ?? null;
+      }
+      case 'buff':
+      case 'utility':
+        if (isSavedFor(enemy, ability)) return null;
+        return friends.find(friend => !hasEffect(friend.statusEffects, ability))?.id ?? null;
+      case 'debuff':
+        return isSavedFor(enemy, ability) || hasEffect(player.statusEffects, ability) ? null : player.id;
+      case 'attack':
+        return isSavedFor(enemy, ability) ? null : player.id;
+    }
+  };
+
+  for (const type of profile.priorities) {
+    for (const ability of ready.filter(candidate => candidate.type === type)) {
+      const targetId = chooseTarget(ability);
+      if (!targetId) continue;
+      return {
+        enemyId: enemy.id,
+        kind: 'ability',
+        abilityId: ability.id,
+        targetId,
+        telegraph: describeIntent(enemy, ability.telegraph ?? DEFAULT_TELLS[ability.type], nameOf(targetId), ability.name)
+      };
+    }
+  }
+
+  return {
+    enemyId: enemy.id,
+    kind: 'attack',
+    targetId: player.id,
+    telegraph: `${enemy.name} is readying an attack.`
+  };
+};
@@ -0,0 +1,201 @@
+import { Character, CharacterRelic, Equipment, EquipmentBonuses, EquipmentSlot, Item } from '../types';
+
+// Equipment slots and the stats they add. Max health and mana are stored on
+// the character already including equipment, so they are recalculated
+// whenever gear changes or the character levels up.
+
+export const EQUIPMENT_SLOTS: EquipmentSlot[] = ['mainHand', 'offHand', 'armor', 'trinket', 'relic'];
+
+export const SLOT_LABELS: Record<EquipmentSlot, string> = {
+  mainHand: 'Main hand',
+  offHand: 'Off hand',
+  armor: 'Armour',
+  trinket: 'Trinket',
+  relic: 'Relic'
+};
+
+// Bonus an item of each rarity gives to its main stat
+const RARITY_BONUSES: Record<Item['rarity'], number> = {
+  common: 1,
+  uncommon: 2,
+  rare: 3,
+  epic: 5,
+  legendary: 8
+};
+
+// Every starting relic has its own passive
+const RELICS: Record<CharacterRelic, { description: string; bonuses: EquipmentBonuses }> = {
+  'Blade of Ember': {
+    description: 'An ancient sword with a blade that glows with inner fire. Passive: +2 damage and +1 to hit.',
+    bonuses: { damage: 2, attack: 1 }
+  },
+  'Staff of Whispers': {
+    description: 'A gnarled staff wrapped in dark energy that whispers secrets of the void. Passive: +20 maximum mana.',
+    bonuses: { maxMana: 20 }
+  },
+  'Shadow Cloak': {
+    description: 'A cloak woven from the essence of darkness itself. Passive: +2 defence.',
+    bonuses: { defence: 2 }
+  },
+  'Divine Amulet': {
+    description: 'A holy relic that pulses with celestial light. Passive: +10 maximum health and +4 to every heal.',
+    bonuses: { maxHealth: 10, healing: 4 }
+  }
+};
+
+/**
+ * Create the item for a character's starting relic
+ * @param relic The relic chosen at character creation
+ * @param id Id for the item
+ * @returns The relic, ready for the relic slot
+ */
+export const createRelicItem = (relic: CharacterRelic, id: string): Item => ({
+  id,
+  name: relic,
+  description: RELICS[relic].description,
+  type: 'misc',
+  rarity: 'rare',
+  value: 0,
+  usable: false,
+  slot: 'relic',
+  bonuses: RELICS[relic].bonuses
+});
+
+/**
+ * The passive bonuses a starting relic grants
+ * @param relic The relic
+ * @returns Its bonuses
+ */
+export const getRelicBonuses = (relic: CharacterRelic): EquipmentBonuses => RELICS[relic].bonuses;
+
+/**
+ * Bonuses for a weapon or armour piece of the given rarity
+ * @param type The item type
+ * @param rarity The item's rarity
+ * @returns Damage for weapons, defence for armour, nothing for anything else
+ */
+export const getRarityBonuses = (type: Item['type'], rarity: Item['rarity']): EquipmentBonuses | undefined => {
+  if (type === 'weapon') return { damage: RARITY_BONUSES[rarity] };
+  if (type === 'armor') return { defence: RARITY_BONUSES[rarity] };
+  return undefined;
+};
+
+/**
+ * The slot an item goes in
+ * @param item The item
+ * @returns The slot, or null if the item can't be equipped
+ */
+export const getItemSlot = (item: Item): EquipmentSlot | null => {
+  if (item.slot) return item.slot;
+  if (item.type === 'weapon') return 'mainHand';
+  if (item.type === 'armor') return 'armor';
+  return null;
+};
+
+/**
+ * Total bonuses from everything equipped
+ * @param equipment The equipped items
+ * @returns Every bonus, zero where nothing adds to it
+ */
+export const getEquipmentBonuses = (equipment: Equipment = {}): Required<EquipmentBonuses> => {
+  const totals: Required<EquipmentBonuses> = { attack: 0, damage: 0, defence: 0, maxHealth: 0, maxMana: 0, healing: 0 };
+  Object.values(equipment).forEach(item => {
+    (Object.keys(totals) as (keyof EquipmentBonuses)[]).forEach(key => {
+      totals[key] += item?.bonuses?.[key] ?? 0;
+    });
+  });
+  return totals;
+};
+
+/**
+ * Describe an item's bonuses
+ * @param bonuses The bonuses
+ * @returns Text such as "+2 damage, +1 to hit", or an empty string
+ */
+export const describeBonuses = (bonuses: EquipmentBonuses = {}) => {
+  const labels: Record<keyof EquipmentBonuses, string> = {
+    attack: 'to hit',
+    damage: 'damage',
+    defence: 'defence',
+    maxHealth: 'max HP',
+    maxMana: 'max MP',
+    healing: 'healing'
+  };
+  return (Object.keys(labels) as (keyof EquipmentBonuses)[])
+    .filter(key => bonuses[key])
+    .map(key => `+${bonuses[key]} ${labels[key]}`)
+    .join(', ');
+};
+
+/**
+ * Describe what a character has equipped, for prompts
+ * @param equipment The equipped items
+ * @returns Text such as "Notched Shortsword (main hand), Shadow Cloak (relic)", or an empty string
+ */
+export const describeEquipment = (equipment: Equipment = {}) =>
+  EQUIPMENT_SLOTS
+    .filter(slot => equipment[slot])
+    .map(slot => `${equipment[slot]?.name} (${SLOT_LABELS[slot].toLowerCase()})`)
+    .join(', ');
+
+// Max health and mana before equipment
+export const getBaseMaxHealth = (stats: Character['stats']) => 20 + stats.constitution * 5;
+
+export const getBaseMaxMana = (stats: Character['stats']) => stats.intelligence * 10;
+
+/**
+ * Recalculate max health and mana from stats and equipment, keeping current
+ * health and mana within the new limits
+ * @param character The character
+ * @returns The character with updated limits
+ */
+export const applyEquipmentStats = (character: Character): Character => {
+  const bonuses = getEquipmentBonuses(character.equipment);
+  const maxHealth = getBaseMaxHealth(character.stats) + bonuses.maxHealth;
+  const maxMana = getBaseMaxMana(character.stats) + bonuses.maxMana;
+  return {
+    ...character,
+    maxHealth,
+    maxMana,
+    health: Math.min(character.health, maxHealth),
+    mana: Math.min(character.mana, maxMana)
+  };
+};
+
+/**
+ * Equip an item from the inventory, returning whatever it replaces to the inventory
+ * @param character The character
+ * @param itemId The inventory item to equip
+ * @returns The updated character and the replaced item, or null if the item can't be equipped
+ */
+export const equipItem = (character: Character, itemId: string): { character: Character; replaced?: Item } | null => {
+  const item = character.inventory.find(i => i.id === itemId);
+  const slot = item ? getItemSlot(item) : null;
+  if (!item || !slot) return null;
+
+  const replaced = character.equipment[slot];
+  const inventory = character.inventory.filter(i => i.id !== itemId);
+  return {
+    character: applyEquipmentStats({
+      ...character,
+      inventory: replaced ? [...inventory, replaced] : inventory,
+      equipment: { ...character.equipment, [slot]: item }
+    }),
+    replaced
+  };
+};
+
+/**
+ * Move the item in a slot back to the inventory
+ * @param character The character
+ * @param slot The slot to empty
+ * @returns The updated character, or null if the slot is already empty
+ */
+export const unequipItem = (character: Character, slot: EquipmentSlot): Character | null => {
+  const item = character.equipment[slot];
+  if (!item) return null;
+
+  const equipment = { ...character.equipment };
+  delete equipment[slot];
+  return applyEquipmentStats({ ...character, inventory: [...character.inventory, item], equipment });
+};
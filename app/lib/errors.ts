@@ -0,0 +1,60 @@
+// Typed errors for narrative generation, shared by the API routes and the
+// client wrappers so the UI can react to each failure differently.
+
+export type NarrativeErrorCode =
+  | 'invalid_request'      // The request body failed validation
+  | 'rate_limited'         // Too many requests for this session
+  | 'provider_unavailable' // The model could not be reached or errored
+  | 'malformed_output'     // No JSON object could be recovered from the output
+  | 'schema_mismatch'      // JSON was recovered but did not match the schema
+  | 'network'              // The browser could not reach the API route
+  | 'cancelled';           // The player cancelled a streaming generation
+
+export class NarrativeError extends Error {
+  code: NarrativeErrorCode;
+  details?: string[];
+
+  constructor(code: NarrativeErrorCode, message: string, details?: string[]) {
+    super(message);
+    this.name = 'NarrativeError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// HTTP status used by the API routes for each error code
+export const NARRATIVE_ERROR_STATUS: Record<NarrativeErrorCode, number> = {
+  invalid_request: 400,
+  rate_limited: 429,
+  provider_unavailable: 503,
+  malformed_output: 502,
+  schema_mismatch: 502,
+  network: 503,
+  cancelled: 499
+};
+
+/**
+ * Turn any error from a narrative call into text suitable for the game log
+ * @param error The caught error
+ * @returns A player-facing message
+ */
+export const describeNarrativeError = (error: unknown) => {
+  if (!(error instanceof NarrativeError)) {
+    return 'Something went wrong. Please try again.';
+  }
+
+  switch (error.code) {
+    case 'rate_limited':
+      return 'The Dungeon Master needs a moment to catch their breath. Try again shortly.';
+    case 'provider_unavailable':
+    case 'network':
+      return 'The Dungeon Master cannot be reached right now. Try again shortly.';
+    case 'malformed_output':
+    case 'schema_mismatch':
+      return 'The Dungeon Master lost the thread of the story. Try that again.';
+    case 'invalid_request':
+      return 'That request could not be understood.';
+    case 'cancelled':
+      return 'The Dungeon Master falls silent.';
+  }
+};
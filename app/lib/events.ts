@@ -0,0 +1,119 @@
+import { Ability, CombatResult, CombatRewards, DefeatRecord, Enemy, Item, Location, NPC, Quest, StatusEffectKind } from '../types';
+import { ItemUse } from './inventory';
+
+// Domain events. Store actions change state and then announce what happened;
+// the game log, quest tracking and anything else that cares subscribe here
+// instead of being called from every action. Handlers run synchronously in
+// the order they subscribed, after the state change is in the store.
+
+export type GameEvent =
+  // A new game begins, with the pack's opening text
+  | { type: 'GameStarted'; intro: string }
+  | { type: 'LocationEntered'; location: Location; firstVisit: boolean }
+  // Where an item came from: picked up, handed over by the Dungeon Master,
+  // looted after a fight, bought, or given as a quest reward
+  | { type: 'ItemAcquired'; item: Item; source: 'pickup' | 'story' | 'loot' | 'purchase' | 'reward' }
+  | { type: 'ItemUsed'; item: Item; use: ItemUse; inCombat: boolean }
+  | { type: 'ItemDropped'; item: Item }
+  // Replaced is whatever the item took the place of in its slot
+  | { type: 'ItemEquipped'; item: Item; replaced?: Item }
+  | { type: 'ItemUnequipped'; item: Item }
+  | { type: 'TradeCompleted'; trade: 'buy' | 'sell'; item: Item; npc: NPC; price: number }
+  | { type: 'Rested'; healthRestored: number; manaRestored: number }
+  // Lingering effects worked on the player as an hour turned over
+  | { type: 'StatusEffectsTicked'; kinds: StatusEffectKind[]; damage: number; healing: number }
+  | { type: 'PathFound'; from: Location; to: Location }
+  | { type: 'QuestAccepted'; quest: Quest }
+  // An objective moved on without finishing the quest
+  | { type: 'QuestUpdated'; quest: Quest }
+  | { type: 'QuestCompleted'; quest: Quest }
+  // A line said in conversation, by the player or by the NPC
+  | { type: 'DialogLine'; npc: NPC; fromPlayer: boolean; text: string }
+  // What changes hands in conversation; a positive amount is paid to the player
+  | { type: 'GiftReceived'; npc: NPC; item: Item }
+  | { type: 'ItemHandedOver'; npc: NPC; item: Item }
+  | { type: 'GoldExchanged'; npc: NPC; amount: number }
+  | { type: 'AttitudeChanged'; npc: NPC; attitude: NPC['attitude'] }
+  // An NPC the conversation turned hostile goes for the player
+  | { type: 'NpcAttacked'; npc: NPC }
+  | { type: 'ExperienceGained'; amount: number }
+  | { type: 'LevelUp'; level: number; learned: Ability[] }
+  // Turn order is combatant ids, with the player as PLAYER_COMBATANT_ID
+  | { type: 'CombatStarted'; enemies: Enemy[]; turnOrder: string[] }
+  // Enemies turned up as the player arrived; in an ambush they saw the player first
+  | { type: 'EncounterStarted'; location: Location; enemies: Enemy[]; ambush: boolean }
+  | { type: 'EncounterAvoided'; enemies: Enemy[] }
+  // One action in a fight, by the player or an enemy
+  | { type: 'CombatActionResolved'; result: CombatResult }
+  | { type: 'EnemyDefeated'; enemy: Enemy }
+  | { type: 'CombatEnded'; rewards: CombatRewards }
+  | { type: 'PlayerDefeated'; defeat: DefeatRecord }
+  // After a defeat: back at the respawn point, poorer, or back at the last save
+  | { type: 'Respawned'; placeName: string; goldLost: number; experienceLost: number }
+  | { type: 'GameReloaded' }
+  // The player tried something there's no time for mid-fight
+  | { type: 'ActionBlockedByCombat'; action: 'drop' | 'equip' | 'unequip' | 'rest' | 'trade' }
+  // The player tried something the rules don't allow, and why
+  | { type: 'ActionRefused'; reason: string }
+  // Game time moved on, in minutes since the world began
+  | { type: 'TimePassed'; from: number; to: number };
+
+export type GameEventType = GameEvent['type'];
+
+export type GameEventOf<K extends GameEventType> = Extract<GameEvent, { type: K }>;
+
+export type GameEventHandler<K extends GameEventType> = (event: GameEventOf<K>) => void;
+
+export interface GameEventBus {
+  /**
+   * Announce an event to every subscriber
+   * @param event What happened
+   */
+  emit: (event: GameEvent) => void;
+  /**
+   * Subscribe to one kind of event
+   * @param type The event type
+   * @param handler Called with each event of that type
+   * @returns A function that unsubscribes
+   */
+  on: <K extends GameEventType>(type: K, handler: GameEventHandler<K>) => () => void;
+  /**
+   * Subscribe to every event
+   * @param handler Called with each event
+   * @returns A function that unsubscribes
+   */
+  onAny: (handler: (event: GameEvent) => void) => () => void;
+}
+
+/**
+ * Create an event bus. A handler that throws is reported and skipped, so one
+ * broken subscriber can't stop the others or the action that emitted.
+ * @returns An empty bus
+ */
+export const createEventBus = (): GameEventBus => {
+  // Each subscription is kept as a catch-all with its type filter applied
+  let handlers: ((event: GameEvent) => void)[] = [];
+
+  const subscribe = (handler: (event: GameEvent) => void) => {
+    handlers = [...handlers, handler];
+    return () => {
+      handlers = handlers.filter(existing => existing !== handler);
+    };
+  };
+
+  return {
+    emit: (event) => {
+      handlers.forEach(handler => {
+        try {
+          handler(event);
+        } catch (error) {
+          console.error(`Game event handler failed for ${event.type}:`, error);
+        }
+      });
+    },
+    on: (type, handler) => subscribe(event => {
+      if (event.type === type) handler(event as GameEventOf<typeof type>);
+    }),
+    onAny: subscribe
+  };
+};
@@ -0,0 +1,191 @@
+import { GameLogEntry, TimePhase } from '../types';
+import { describeCombatResult, PLAYER_COMBATANT_ID } from './combat';
+import { GameEvent, GameEventBus, GameEventOf } from './events';
+import { STATUS_RULES } from './statusEffects';
+import { getTimeOfDay } from './clock';
+import { describeEncounterGroup } from './encounters';
+import { describeObjective, describeRewards } from './quests';
+
+// The game log as a subscriber to game events. Events that already show up
+// another way (loot and purchases, in the combat and trade lines) add nothing
+// here.
+
+// Announced when time passes into a new part of the day
+const PHASE_LINES: Record<TimePhase, string> = {
+  dawn: 'Dawn breaks, grey and cold, over the land.',
+  day: 'What passes for daylight here settles over the land.',
+  dusk: 'Dusk gathers and the shadows lengthen.',
+  night: 'Night falls. Things stir in the dark.'
+};
+
+// What the player is told when a fight leaves no time for something
+const BLOCKED_BY_COMBAT_LINES: Record<GameEventOf<'ActionBlockedByCombat'>['action'], string> = {
+  drop: 'There is no time for that mid-fight!',
+  equip: 'There is no time to change equipment mid-fight!',
+  unequip: 'There is no time to change equipment mid-fight!',
+  rest: 'You cannot rest while enemies are near!',
+  trade: 'There is no time to haggle mid-fight!'
+};
+
+export interface GameLogLine {
+  text: string;
+  type: GameLogEntry['type'];
+}
+
+/**
+ * How a game event reads in the game log
+ * @param event What happened
+ * @returns The lines to log, possibly none
+ */
+export const describeGameEvent = (event: GameEvent): GameLogLine[] => {
+  switch (event.type) {
+    case 'GameStarted':
+      return [{ text: event.intro, type: 'narrative' }];
+    case 'LocationEntered':
+      return [{ text: `You have moved to ${event.location.name}.`, type: 'narrative' }];
+    case 'ItemAcquired':
+      if (event.source === 'pickup') return [{ text: `You picked up ${event.item.name}.`, type: 'system' }];
+      if (event.source === 'story') return [{ text: `You received ${event.item.name}.`, type: 'system' }];
+      return [];
+    case 'ItemUsed': {
+      // The combat log already reports items used mid-fight
+      if (event.inCombat) return [];
+      const { item, use } = event;
+      const lines: GameLogLine[] = [];
+      if (use.healing > 0) {
+        lines.push({ text: `You used ${item.name} and restored ${use.healing} health.`, type: 'system' });
+      }
+      use.statuses.forEach(status => {
+        lines.push({ text: `You used ${item.name} and are now ${STATUS_RULES[status.kind].adjective}.`, type: 'system' });
+      });
+      if (lines.length === 0) {
+        lines.push({ text: `You used ${item.name}, but nothing happens.`, type: 'system' });
+      }
+      return lines;
+    }
+    case 'ItemDropped':
+      return [{ text: `You dropped ${event.item.name}.`, type: 'system' }];
+    case 'ItemEquipped':
+      return [{
+        text: event.replaced
+          ? `You equip ${event.item.name}, putting away ${event.replaced.name}.`
+          : `You equip ${event.item.name}.`,
+        type: 'system'
+      }];
+    case 'ItemUnequipped':
+      return [{ text: `You unequip ${event.item.name}.`, type: 'system' }];
+    case 'TradeCompleted':
+      return [{
+        text: event.trade === 'buy'
+          ? `You buy ${event.item.name} from ${event.npc.name} for ${event.price} gold.`
+          : `You sell ${event.item.name} to ${event.npc.name} for ${event.price} gold.`,
+        type: 'system'
+      }];
+    case 'Rested':
+      return [{
+        text: `You rest for a while, recovering ${event.healthRestored} health and ${event.manaRestored} mana.`,
+        type: 'system'
+      }];
+    case 'StatusEffectsTicked': {
+      const source = event.kinds.map(kind => STATUS_RULES[kind].label).join(' and ');
+      const lines: GameLogLine[] = [];
+      if (event.damage > 0) lines.push({ text: `You take ${event.damage} damage from ${source}.`, type: 'system' });
+      if (event.healing > 0) lines.push({ text: `You recover ${event.healing} health from ${source}.`, type: 'system' });
+      return lines;
+    }
+    case 'PathFound':
+      return [{ text: `You find a path from ${event.from.name} to ${event.to.name}.`, type: 'system' }];
+    case 'QuestAccepted':
+      return [{ text: `Quest accepted: ${event.quest.name}.`, type: 'system' }];
+    case 'QuestUpdated': {
+      const remaining = event.quest.objectives.filter(objective => !objective.isCompleted).map(describeObjective);
+      return [{ text: `Quest updated: ${event.quest.name}. ${remaining.join('; ')}.`, type: 'system' }];
+    }
+    case 'QuestCompleted': {
+      const rewards = describeRewards(event.quest.rewards);
+      return [
+        { text: `Quest completed: ${event.quest.name}.`, type: 'system' },
+        ...(rewards ? [{ text: `Reward: ${rewards}.`, type: 'system' as const }] : [])
+      ];
+    }
+    case 'DialogLine':
+      return [{ text: `${event.fromPlayer ? 'You' : event.npc.name}: ${event.text}`, type: 'dialog' }];
+    case 'GiftReceived':
+      return [{ text: `${event.npc.name} gives you ${event.item.name}.`, type: 'system' }];
+    case 'ItemHandedOver':
+      return [{ text: `You hand ${event.item.name} to ${event.npc.name}.`, type: 'system' }];
+    case 'GoldExchanged':
+      return [{
+        text: event.amount >= 0
+          ? `${event.npc.name} pays you ${event.amount} gold.`
+          : `You pay ${event.npc.name} ${-event.amount} gold.`,
+        type: 'system'
+      }];
+    case 'AttitudeChanged':
+      return [{ text: `${event.npc.name} now seems ${event.attitude} towards you.`, type: 'system' }];
+    case 'NpcAttacked':
+      return [{ text: `${event.npc.name} attacks you!`, type: 'combat' }];
+    case 'ExperienceGained':
+      return [{ text: `You gained ${event.amount} experience.`, type: 'system' }];
+    case 'LevelUp':
+      return [
+        { text: `You leveled up to level ${event.level}!`, type: 'system' },
+        ...event.learned.map(ability => ({ text: `You learned ${ability.name}!`, type: 'system' as const }))
+      ];
+    case 'CombatStarted': {
+      const order = event.turnOrder
+        .map(id => id === PLAYER_COMBATANT_ID ? 'you' : event.enemies.find(enemy => enemy.id === id)?.name)
+        .join(', ');
+      return [{
+        text: `Combat started! You are facing ${event.enemies.map(enemy => enemy.name).join(', ')}. Turn order: ${order}.`,
+        type: 'combat'
+      }];
+    }
+    case 'CombatEnded':
+      return [{
+        text: `Combat ended. You gained ${event.rewards.experience} experience and ${event.rewards.gold} gold.`,
+        type: 'combat'
+      }];
+    case 'PlayerDefeated':
+      return [{ text: `You have been slain by ${event.defeat.killedBy}.`, type: 'system' }];
+    case 'Respawned':
+      return [{
+        text: `You wake in ${event.placeName}, aching and half-frozen. Death cost you ${event.goldLost} gold and ${event.experienceLost} experience.`,
+        type: 'system'
+      }];
+    case 'GameReloaded':
+      return [{ text: 'You wake, and the world is as it was when you last saved.', type: 'system' }];
+    case 'ActionBlockedByCombat':
+      return [{ text: BLOCKED_BY_COMBAT_LINES[event.action], type: 'system' }];
+    case 'ActionRefused':
+      return [{ text: event.reason, type: 'system' }];
+    case 'EncounterStarted': {
+      const group = describeEncounterGroup(event.enemies);
+      return [{
+        text: event.ambush
+          ? `Ambush! ${group.charAt(0).toUpperCase()}${group.slice(1)} set upon you before you can react.`
+          : `You spot ${group} before they notice you. You can attack first or try to slip away.`,
+        type: 'combat'
+      }];
+    }
+    case 'CombatActionResolved':
+      return [{ text: describeCombatResult(event.result), type: 'combat' }];
+    case 'EncounterAvoided':
+      return [{ text: `You slip past ${describeEncounterGroup(event.enemies)} unseen.`, type: 'narrative' }];
+    case 'TimePassed': {
+      const { phase } = getTimeOfDay(event.to);
+      return phase === getTimeOfDay(event.from).phase ? [] : [{ text: PHASE_LINES[phase], type: 'narrative' }];
+    }
+    case 'EnemyDefeated':
+      return [];
+  }
+};
+
+/**
+ * Write game events to the game log
+ * @param bus The event bus
+ * @param log Adds a line to the log
+ * @returns A function that unsubscribes
+ */
+export const subscribeGameLog = (bus: GameEventBus, log: (text: string, type: GameLogEntry['type']) => void) =>
+  bus.onAny(event => describeGameEvent(event).forEach(line => log(line.text, line.type)));
@@ -0,0 +1,123 @@
+import { Character, Item, StatusEffectApplication } from '../types';
+import { describeBonuses } from './equipment';
+import { STATUS_RULES } from './statusEffects';
+
+// Inventory helpers for the inventory panel and for using items in and out
+// of combat. Every item keeps its own id; identical consumables are only
+// grouped for display.
+
+export type InventorySort = 'name' | 'type' | 'rarity' | 'value';
+
+export interface InventoryFilter {
+  type: Item['type'] | 'all';
+  rarity: Item['rarity'] | 'all';
+}
+
+// A row in the inventory panel: one item, or several identical consumables
+export interface ItemStack {
+  key: string;
+  item: Item;
+  itemIds: string[];
+  count: number;
+}
+
+// What using an item does to the character, before it is applied
+export interface ItemUse {
+  healing: number;
+  statuses: StatusEffectApplication[];
+}
+
+const RARITY_ORDER: Item['rarity'][] = ['common', 'uncommon', 'rare', 'epic', 'legendary'];
+
+// Default duration for item buffs that don't give one
+const DEFAULT_ITEM_EFFECT_DURATION = 3;
+
+// Consumables with the same name, type, rarity and value stack; anything
+// else gets a row of its own
+const stackKey = (item: Item) =>
+  item.usable ? `${item.name}|${item.type}|${item.rarity}|${item.value}` : item.id;
+
+/**
+ * Group identical consumables, then filter and sort the rows
+ * @param items The inventory
+ * @param filter Type and rarity to show
+ * @param sort Sort order; rarity and value sort highest first
+ * @returns The rows to display
+ */
+export const stackInventory = (
+  items: Item[],
+  filter: InventoryFilter = { type: 'all', rarity: 'all' },
+  sort: InventorySort = 'name'
+): ItemStack[] => {
+  const stacks = new Map<string, ItemStack>();
+  items.forEach(item => {
+    const key = stackKey(item);
+    const stack = stacks.get(key);
+    if (stack) {
+      stack.itemIds.push(item.id);
+      stack.count++;
+    } else {
+      stacks.set(key, { key, item, itemIds: [item.id], count: 1 });
+    }
+  });
+
+  const byName = (a: ItemStack, b: ItemStack) => a.item.name.localeCompare(b.item.name);
+  const compare: Record<InventorySort, (a: ItemStack, b: ItemStack) => number> = {
+    name: byName,
+    type: (a, b) => a.item.type.localeCompare(b.item.type) || byName(a, b),
+    rarity: (a, b) => RARITY_ORDER.indexOf(b.item.rarity) - RARITY_ORDER.indexOf(a.item.rarity) || byName(a, b),
+    value: (a, b) => b.item.value - a.item.value || byName(a, b)
+  };
+
+  return [...stacks.values()]
+    .filter(stack => filter.type === 'all' || stack.item.type === filter.type)
+    .filter(stack => filter.rarity === 'all' || stack.item.rarity === filter.rarity)
+    .sort(compare[sort]);
+};
+
+/**
+ * Describe what an item does
+ * @param item The item
+ * @returns One short phrase per effect and equipment bonus
+ */
+export const describeItemEffects = (item: Item): string[] => {
+  const effects = (item.effects ?? []).map(effect => {
+    if (effect.type === 'heal') return `Restores ${effect.amount} health`;
+    if (effect.status) {
+      return `${STATUS_RULES[effect.status].label} ${effect.amount} for ${effect.duration ?? DEFAULT_ITEM_EFFECT_DURATION} turns`;
+    }
+    return effect.type === 'damage' ? `Deals ${effect.amount} damage` : `${effect.type} ${effect.amount}`;
+  });
+  const bonuses = describeBonuses(item.bonuses);
+  return bonuses ? [...effects, bonuses] : effects;
+};
+
+/**
+ * Work out what using an item does to the character. Only effects that
+ * target the user apply.
+ * @param character The character using the item
+ * @param item The item being used
+ * @returns The health restored and the status effects to apply
+ */
+export const resolveItemUse = (character: Character, item: Item): ItemUse => {
+  let healing = 0;
+  const statuses: StatusEffectApplication[] = [];
+
+  item.effects?.forEach(effect => {
+    if (effect.target !== 'self') return;
+    if (effect.type === 'heal') {
+      healing += effect.amount;
+    } else if (effect.status) {
+      statuses.push({
+        kind: effect.status,
+        duration: effect.duration ?? DEFAULT_ITEM_EFFECT_DURATION,
+        potency: effect.amount
+      });
+    }
+  });
+
+  return {
+    healing: Math.min(healing, character.maxHealth - character.health),
+    statuses
+  };
+};
@@ -0,0 +1,158 @@
+import { Quest, QuestObjective, QuestReward } from '../types';
+import { GameEvent, GameEventBus } from './events';
+
+// Quest engine. Game events from the store become quest events; each quest
+// event advances every unfinished objective of an active quest whose
+// type matches and whose target names the thing involved. Completing every
+// objective completes the quest, and the store then grants its rewards.
+
+export interface QuestEvent {
+  type: QuestObjective['type'];
+  // Ids and names the event can be matched by, e.g. an enemy's id and name
+  targets: string[];
+  amount?: number;
+}
+
+export interface QuestProgress {
+  quests: Quest[];
+  // Quests with an objective advanced by the event, as they are afterwards
+  updated: Quest[];
+  // Quests the event completed
+  completed: Quest[];
+}
+
+// Most quests the narrative routes accept in one request
+export const MAX_REQUEST_QUESTS = 20;
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+// Targets match by id or name, ignoring case
+const matchesTarget = (objective: QuestObjective, targets: string[]) =>
+  targets.some(target => normalize(target) === normalize(objective.target));
+
+// Advance the unfinished objectives of active quests that the predicate
+// picks out, collecting which quests changed and which are now complete
+const advanceObjectives = (
+  quests: Quest[],
+  picks: (quest: Quest, objective: QuestObjective) => boolean,
+  amount: number
+): QuestProgress => {
+  const updated: Quest[] = [];
+  const completed: Quest[] = [];
+
+  const next = quests.map(quest => {
+    if (!quest.isActive || quest.isCompleted) return quest;
+
+    let changed = false;
+    const objectives = quest.objectives.map(objective => {
+      if (objective.isCompleted || !picks(quest, objective)) return objective;
+      changed = true;
+      const progress = Math.min(objective.progress + amount, objective.count);
+      return { ...objective, progress, isCompleted: progress >= objective.count };
+    });
+    if (!changed) return quest;
+
+    const result = { ...quest, objectives, isCompleted: objectives.every(objective => objective.isCompleted) };
+    updated.push(result);
+    if (result.isCompleted) completed.push(result);
+    return result;
+  });
+
+  return { quests: next, updated, completed };
+};
+
+/**
+ * Advance objectives for something that happened in the world
+ * @param quests The player's quests
+ * @param event What happened
+ * @returns The updated quests, and which were advanced or completed
+ */
+export const applyQuestEvent = (quests: Quest[], event: QuestEvent): QuestProgress =>
+  advanceObjectives(
+    quests,
+    (_, objective) => objective.type === event.type && matchesTarget(objective, event.targets),
+    event.amount ?? 1
+  );
+
+/**
+ * The quest event a game event counts as. Items count when picked up or
+ * handed over in the story, not when bought, looted or given as a reward.
+ * @param event What happened in the game
+ * @returns The quest event, or null if it doesn't advance quests
+ */
+export const toQuestEvent = (event: GameEvent): QuestEvent | null => {
+  switch (event.type) {
+    case 'LocationEntered':
+      return { type: 'explore', targets: [event.location.id, event.location.name] };
+    case 'ItemAcquired':
+      return event.source === 'pickup' || event.source === 'story'
+        ? { type: 'collect', targets: [event.item.id, event.item.name] }
+        : null;
+    case 'EnemyDefeated':
+      return { type: 'kill', targets: [event.enemy.id, event.enemy.name] };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Track quest progress from game events
+ * @param bus The event bus
+ * @param record Applies a quest event to the player's quests
+ * @returns A function that unsubscribes
+ */
+export const subscribeQuestTracking = (bus: GameEventBus, record: (event: QuestEvent) => void) =>
+  bus.onAny(event => {
+    const questEvent = toQuestEvent(event);
+    if (questEvent) record(questEvent);
+  });
+
+/**
+ * Advance one objective of one quest by id, as the Dungeon Master's tool does
+ * @param quests The player's quests
+ * @param questId The quest
+ * @param objectiveId The objective
+ * @param amount How far to advance it
+ * @returns The updated quests, and which were advanced or completed
+ */
+export const advanceObjective = (
+  quests: Quest[],
+  questId: string,
+  objectiveId: string,
+  amount: number
+): QuestProgress =>
+  advanceObjectives(quests, (quest, objective) => quest.id === questId && objective.id === objectiveId, amount);
+
+/**
+ * Describe how far an objective has come
+ * @param objective The objective
+ * @returns Text such as "Kill the Shadow Wolf (0/1)"
+ */
+export const describeObjective = (objective: QuestObjective) =>
+  `${objective.description} (${objective.progress}/${objective.count})`;
+
+/**
+ * Describe a quest's rewards
+ * @param rewards The rewards
+ * @returns Text such as "20 gold, 50 experience, Iron Key", or an empty string
+ */
+export const describeRewards = (rewards: QuestReward[]) =>
+  rewards
+    .map(reward => {
+      if (reward.type === 'item') return reward.item?.name ?? '';
+      return `${reward.amount} ${reward.type}`;
+    })
+    .filter(Boolean)
+    .join(', ');
+
+/**
+ * The quests to send with a narrative request. The journal only grows, so
+ * open quests come first and the rest are the most recent, up to the cap.
+ * @param quests Every quest the player has had
+ * @returns At most MAX_REQUEST_QUESTS quests
+ */
+export const selectRequestQuests = (quests: Quest[]) => {
+  const isOpen = (quest: Quest) => quest.isActive && !quest.isCompleted;
+  const others = quests.filter(quest => !isOpen(quest)).reverse();
+  return [...quests.filter(isOpen), ...others].slice(0, MAX_REQUEST_QUESTS);
+};
@@ -0,0 +1,50 @@
+// Seedable random number helpers, used wherever output must be reproducible
+
+export type RandomSource = () => number;
+
+/**
+ * Hash a string into a 32-bit unsigned integer (FNV-1a)
+ * @param text The text to hash
+ * @returns A 32-bit hash
+ */
+export const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Create a deterministic random source (mulberry32)
+ * @param seed Numeric or string seed
+ * @returns A function returning numbers in [0, 1)
+ */
+export const createRandom = (seed: number | string): RandomSource => {
+  let state = typeof seed === 'string' ? hashString(seed) : seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Pick a random element from a list
+ * @param random Random source
+ * @param items Items to choose from
+ * @returns One of the items
+ */
+export const pick = <T>(random: RandomSource, items: readonly T[]): T =>
+  items[Math.floor(random() * items.length)];
+
+/**
+ * Roll a die
+ * @param random Random source
+ * @param sides Number of sides
+ * @returns A number from 1 to sides
+ */
+export const rollDie = (random: RandomSource, sides: number) => Math.floor(random() * sides) + 1;
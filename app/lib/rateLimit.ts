@@ -0,0 +1,42 @@
+// Simple fixed-window rate limiter for the narrative API routes.
+// State lives in memory, which is enough for a single server instance.
+
+const WINDOW_MS = Number(process.env.NARRATIVE_RATE_WINDOW_MS) || 60_000;
+const MAX_REQUESTS = Number(process.env.NARRATIVE_RATE_LIMIT) || 20;
+
+interface RateWindow {
+  start: number;
+  count: number;
+}
+
+const windows = new Map<string, RateWindow>();
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+/**
+ * Record a request for a caller and report whether it is allowed
+ * @param key Identifies the caller, such as its session or address
+ * @param now Current time in milliseconds
+ * @returns Whether the request is allowed and how long to wait if not
+ */
+export const checkRateLimit = (key: string, now = Date.now()): RateLimitResult => {
+  // Drop expired windows so the map does not grow without bound
+  windows.forEach((window, key) => {
+    if (now - window.start >= WINDOW_MS) windows.delete(key);
+  });
+
+  const window = windows.get(key) ?? { start: now, count: 0 };
+  window.count++;
+  windows.set(key, window);
+
+  const allowed = window.count <= MAX_REQUESTS;
+  return {
+    allowed,
+    remaining: Math.max(0, MAX_REQUESTS - window.count),
+    retryAfterMs: allowed ? 0 : window.start + WINDOW_MS - now
+  };
+};
@@ -0,0 +1,63 @@
+// Minimal runtime schemas for model output. The shape deliberately mirrors
+// the JSON-schema subset accepted by Gemini's responseSchema and by
+// OpenAI-compatible json_schema response formats, so a single definition
+// both constrains generation and validates the result.
+
+export type Schema =
+  | { type: 'string'; description?: string; enum?: string[] }
+  | { type: 'number' | 'integer'; description?: string }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; description?: string; items: Schema; minItems?: number; maxItems?: number }
+  | { type: 'object'; description?: string; properties: Record<string, Schema>; required?: string[] };
+
+/**
+ * Validate a value against a schema
+ * @param schema The schema to check against
+ * @param value The parsed value
+ * @param path Location of the value, used in error messages
+ * @returns A list of human-readable problems; empty when the value is valid
+ */
+export const validateSchema = (schema: Schema, value: unknown, path = '$'): string[] => {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} must be one of ${schema.enum.join(', ')}`];
+      }
+      return [];
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} must be a number`];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path} must be an integer`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} must have at most ${schema.maxItems} items`);
+      }
+      value.forEach((item, index) => errors.push(...validateSchema(schema.items, item, `${path}[${index}]`)));
+      return errors;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      (schema.required ?? []).forEach(key => {
+        if (record[key] === undefined) errors.push(`${path}.${key} is required`);
+      });
+      Object.entries(schema.properties).forEach(([key, propertySchema]) => {
+        if (record[key] !== undefined) {
+          errors.push(...validateSchema(propertySchema, record[key], `${path}.${key}`));
+        }
+      });
+      return errors;
+    }
+  }
+};
@@ -0,0 +1,224 @@
+import { Character, Enemy, Item, Location, Quest, QuestObjective, QuestReward, SideQuestDraft, SideQuestDraftObjective } from '../types';
+import { createEnemyFromCall } from './dmTools';
+
+// Side quests the Dungeon Master invents. The narrator proposes a draft from
+// an index of the known world; every objective must name a location, enemy,
+// NPC or item in that index, or something the draft itself spawns. The game
+// decides the rewards and the strength of spawned enemies from the player's
+// level, so nothing the model says about either is used. Drafts are checked
+// on the server (so problems can go back to the model) and again against live
+// state before the player can accept them.
+
+export const SIDE_QUEST_LIMITS = {
+  maxObjectives: 3,
+  maxCount: 3,
+  maxSpawns: 2,
+  maxNameLength: 60,
+  maxDescriptionLength: 400,
+  goldPerLevel: 4,
+  experiencePerLevel: 6
+};
+
+// How much each kind of objective adds to a quest's difficulty, per count
+const OBJECTIVE_WEIGHTS: Record<QuestObjective['type'], number> = {
+  kill: 3,
+  collect: 2,
+  explore: 2,
+  interact: 1
+};
+
+// What the narrator may build quests around. Items appear once per copy
+// lying in the world, since each can only be picked up once.
+export interface WorldIndex {
+  locations: { id: string; name: string }[];
+  npcs: { id: string; name: string; locationId: string }[];
+  enemies: { id: string; name: string; locationId: string }[];
+  items: { name: string; locationId: string }[];
+}
+
+// A validated quest, not yet accepted, with what it adds to the world
+export interface SideQuestOffer {
+  quest: Quest;
+  enemies: { locationId: string; enemy: Enemy }[];
+  items: { locationId: string; item: Item }[];
+}
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+const named = (text: string) => (entity: { id?: string; name: string }) =>
+  normalize(entity.name) === normalize(text) || (!!entity.id && normalize(entity.id) === normalize(text));
+
+/**
+ * Index everything in the known world that a quest could refer to
+ * @param locations Every known location
+ * @returns The locations, NPCs, enemies and items by name and id
+ */
+export const buildWorldIndex = (locations: Record<string, Location>): WorldIndex => {
+  const all = Object.values(locations);
+  return {
+    locations: all.map(location => ({ id: location.id, name: location.name })),
+    npcs: all.flatMap(location => (location.npcs ?? []).map(npc => ({ id: npc.id, name: npc.name, locationId: location.id }))),
+    enemies: all.flatMap(location => (location.enemies ?? []).map(enemy => ({ id: enemy.id, name: enemy.name, locationId: location.id }))),
+    items: all.flatMap(location => (location.items ?? []).map(item => ({ name: item.name, locationId: location.id })))
+  };
+};
+
+// The canonical name of whatever an objective targets, or null if nothing
+// in the world (or spawned by the draft) matches it
+const resolveTarget = (objective: SideQuestDraftObjective, world: WorldIndex, draft: SideQuestDraft) => {
+  const matches = named(objective.target);
+  const spawned = (kind: 'enemy' | 'item') =>
+    (draft.spawns ?? []).filter(spawn => spawn.kind === kind).map(spawn => ({ name: spawn.name }));
+
+  switch (objective.type) {
+    case 'explore':
+      return world.locations.find(matches)?.name ?? null;
+    case 'interact':
+      return world.npcs.find(matches)?.name ?? null;
+    case 'kill':
+      return [...world.enemies, ...spawned('enemy')].find(matches)?.name ?? null;
+    case 'collect':
+      return [...world.items, ...spawned('item')].find(matches)?.name ?? null;
+  }
+};
+
+// How many copies of an item there are to collect
+const countCopies = (name: string, world: WorldIndex, draft: SideQuestDraft) =>
+  world.items.filter(named(name)).length +
+  (draft.spawns ?? []).filter(spawn => spawn.kind === 'item' && named(name)(spawn)).length;
+
+/**
+ * Check a proposed side quest against the world
+ * @param draft The proposal
+ * @param world What exists in the world
+ * @param quests The player's quests, so the same quest is not offered twice
+ * @returns Problems with the draft; empty if it is valid
+ */
+export const validateSideQuestDraft = (draft: SideQuestDraft, world: WorldIndex, quests: Quest[]): string[] => {
+  const problems: string[] = [];
+  const limits = SIDE_QUEST_LIMITS;
+
+  if (!draft.name.trim() || draft.name.length > limits.maxNameLength) {
+    problems.push(`The quest name must be 1-${limits.maxNameLength} characters.`);
+  }
+  if (!draft.description.trim() || draft.description.length > limits.maxDescriptionLength) {
+    problems.push(`The quest description must be 1-${limits.maxDescriptionLength} characters.`);
+  }
+  if (quests.some(named(draft.name))) {
+    problems.push(`The player already has a quest called "${draft.name}".`);
+  }
+  if (draft.objectives.length === 0 || draft.objectives.length > limits.maxObjectives) {
+    problems.push(`A side quest needs 1-${limits.maxObjectives} objectives.`);
+  }
+
+  const spawns = draft.spawns ?? [];
+  if (spawns.length > limits.maxSpawns) {
+    problems.push(`A side quest may add at most ${limits.maxSpawns} enemies or items to the world.`);
+  }
+  spawns.forEach(spawn => {
+    if (!spawn.name.trim()) problems.push(`Every spawned ${spawn.kind} needs a name.`);
+    if (!world.locations.some(location => location.id === spawn.locationId)) {
+      problems.push(`Spawned ${spawn.kind} "${spawn.name}" is placed in unknown location "${spawn.locationId}".`);
+    }
+    const type = spawn.kind === 'enemy' ? 'kill' : 'collect';
+    if (!draft.objectives.some(objective => objective.type === type && named(objective.target)(spawn))) {
+      problems.push(`Spawned ${spawn.kind} "${spawn.name}" is not the target of any ${type} objective.`);
+    }
+  });
+
+  draft.objectives.forEach(objective => {
+    if (!objective.description.trim()) {
+      problems.push('Every objective needs a description.');
+    }
+    if (!Number.isInteger(objective.count) || objective.count < 1 || objective.count > limits.maxCount) {
+      problems.push(`Objective "${objective.description}" must have a count from 1 to ${limits.maxCount}.`);
+    }
+    if ((objective.type === 'explore' || objective.type === 'interact') && objective.count !== 1) {
+      problems.push(`Objective "${objective.description}" must have a count of 1, since ${objective.type} objectives are done once.`);
+    }
+
+    const target = resolveTarget(objective, world, draft);
+    if (!target) {
+      const kinds = { explore: 'location', interact: 'NPC', kill: 'enemy', collect: 'item' };
+      problems.push(`Objective "${objective.description}" targets "${objective.target}", which is not a known ${kinds[objective.type]}.`);
+    } else if (objective.type === 'collect' && countCopies(target, world, draft) < objective.count) {
+      problems.push(`Objective "${objective.description}" needs ${objective.count} of "${target}", but there are only ${countCopies(target, world, draft)} in the world.`);
+    }
+  });
+
+  return problems;
+};
+
+/**
+ * The rewards for a side quest, scaled by level and by what it asks
+ * @param level The player's level
+ * @param objectives The quest's objectives
+ * @returns Gold and experience rewards
+ */
+export const getSideQuestRewards = (
+  level: number,
+  objectives: Pick<SideQuestDraftObjective, 'type' | 'count'>[]
+): QuestReward[] => {
+  const difficulty = objectives.reduce((total, objective) => total + OBJECTIVE_WEIGHTS[objective.type] * objective.count, 0);
+  return [
+    { type: 'gold', amount: SIDE_QUEST_LIMITS.goldPerLevel * level * difficulty },
+    { type: 'experience', amount: SIDE_QUEST_LIMITS.experiencePerLevel * level * difficulty }
+  ];
+};
+
+/**
+ * Build the quest, and anything it spawns, from a validated draft
+ * @param draft A draft that passed validateSideQuestDraft
+ * @param world What exists in the world
+ * @param character The player's character
+ * @param createId Creates ids for the quest, its objectives and spawns
+ * @returns The offer; the quest is inactive until accepted
+ */
+export const createSideQuestOffer = (
+  draft: SideQuestDraft,
+  world: WorldIndex,
+  character: Character,
+  createId: () => string
+): SideQuestOffer => {
+  const spawns = draft.spawns ?? [];
+  return {
+    quest: {
+      id: createId(),
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      objectives: draft.objectives.map(objective => ({
+        id: createId(),
+        description: objective.description.trim(),
+        type: objective.type,
+        target: resolveTarget(objective, world, draft) ?? objective.target,
+        count: objective.count,
+        progress: 0,
+        isCompleted: false
+      })),
+      rewards: getSideQuestRewards(character.level, draft.objectives),
+      isCompleted: false,
+      isActive: false
+    },
+    enemies: spawns
+      .filter(spawn => spawn.kind === 'enemy')
+      .map(spawn => ({
+        locationId: spawn.locationId,
+        enemy: createEnemyFromCall({ enemyName: spawn.name.trim(), description: spawn.description, level: character.level }, createId())
+      })),
+    // Quest items are worthless to merchants, so they can't be sold on
+    items: spawns
+      .filter(spawn => spawn.kind === 'item')
+      .map(spawn => ({
+        locationId: spawn.locationId,
+        item: {
+          id: createId(),
+          name: spawn.name.trim(),
+          description: spawn.description,
+          type: 'quest',
+          rarity: 'common',
+          value: 0,
+          usable: false
+        }
+      }))
+  };
+};
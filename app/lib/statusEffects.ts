@@ -0,0 +1,162 @@
+import { StatusEffect, StatusEffectApplication, StatusEffectKind } from '../types';
+import { RandomSource } from './random';
+
+// Status effects on the character and on enemies. In combat an effect ticks
+// at the end of each of its bearer's turns; outside combat it ticks once per
+// unit of game time. Damage-over-time effects stack up to a limit and every
+// new application refreshes the duration; the rest simply refresh, keeping
+// the stronger potency.
+
+interface StatusRule {
+  label: string;
+  // How the narrator and log describe a bearer under this effect
+  adjective: string;
+  maxStacks: number;
+  harmful: boolean;
+}
+
+export const STATUS_RULES: Record<StatusEffectKind, StatusRule> = {
+  poison: { label: 'Poison', adjective: 'poisoned', maxStacks: 3, harmful: true },
+  bleed: { label: 'Bleed', adjective: 'bleeding', maxStacks: 5, harmful: true },
+  stun: { label: 'Stun', adjective: 'stunned', maxStacks: 1, harmful: true },
+  weakness: { label: 'Weakness', adjective: 'weakened', maxStacks: 1, harmful: true },
+  blessing: { label: 'Blessing', adjective: 'blessed', maxStacks: 1, harmful: false },
+  regeneration: { label: 'Regeneration', adjective: 'regenerating', maxStacks: 1, harmful: false }
+};
+
+// Share of damage a weakened combatant still deals
+const WEAKNESS_DAMAGE_MULTIPLIER = 0.7;
+
+export interface StatusTick {
+  effects: StatusEffect[];
+  health: number;
+  damage: number;
+  healing: number;
+  // Effects that dealt damage or healing this tick
+  active: StatusEffectKind[];
+}
+
+/**
+ * Add an effect, stacking or refreshing an existing one of the same kind
+ * @param effects The bearer's current effects
+ * @param application The effect to apply
+ * @param source Who or what applied it
+ * @returns The updated effects
+ */
+export const applyStatusEffect = (
+  effects: StatusEffect[] = [],
+  application: StatusEffectApplication,
+  source?: string
+): StatusEffect[] => {
+  const rule = STATUS_RULES[application.kind];
+  const existing = effects.find(effect => effect.kind === application.kind);
+
+  if (!existing) {
+    return [...effects, {
+      kind: application.kind,
+      duration: application.duration,
+      potency: application.potency,
+      stacks: 1,
+      source
+    }];
+  }
+
+  const refreshed: StatusEffect = {
+    ...existing,
+    duration: Math.max(existing.duration, application.duration),
+    potency: Math.max(existing.potency, application.potency),
+    stacks: Math.min(existing.stacks + 1, rule.maxStacks),
+    source: source ?? existing.source
+  };
+  return effects.map(effect => effect === existing ? refreshed : effect);
+};
+
+/**
+ * Roll whether an application lands
+ * @param application The effect to apply
+ * @param random Random source
+ * @returns Whether it takes hold
+ */
+export const rollStatusChance = (application: StatusEffectApplication, random: RandomSource) =>
+  application.chance === undefined || random() < application.chance;
+
+/**
+ * Advance every effect by one tick: apply damage and healing, then count
+ * durations down and drop expired effects
+ * @param effects The bearer's current effects
+ * @param health The bearer's health
+ * @param maxHealth The bearer's maximum health
+ * @returns The new effects and health, with what happened
+ */
+export const tickStatusEffects = (effects: StatusEffect[] = [], health: number, maxHealth: number): StatusTick => {
+  let damage = 0;
+  let healing = 0;
+  const active: StatusEffectKind[] = [];
+
+  effects.forEach(effect => {
+    if (effect.kind === 'poison' || effect.kind === 'bleed') {
+      damage += effect.potency * effect.stacks;
+      active.push(effect.kind);
+    } else if (effect.kind === 'regeneration') {
+      healing += effect.potency;
+      active.push(effect.kind);
+    }
+  });
+
+  const afterDamage = Math.max(0, health - damage);
+  const healed = afterDamage > 0 ? Math.min(healing, maxHealth - afterDamage) : 0;
+
+  return {
+    effects: effects
+      .map(effect => ({ ...effect, duration: effect.duration - 1 }))
+      .filter(effect => effect.duration > 0),
+    health: afterDamage + healed,
+    damage,
+    healing: healed,
+    active
+  };
+};
+
+/**
+ * Whether the bearer loses their turn
+ * @param effects The bearer's current effects
+ * @returns True when stunned
+ */
+export const isStunned = (effects: StatusEffect[] = []) => effects.some(effect => effect.kind === 'stun');
+
+/**
+ * Bonus to attack rolls from the bearer's effects
+ * @param effects The bearer's current effects
+ * @returns The bonus
+ */
+export const getAttackBonus = (effects: StatusEffect[] = []) =>
+  effects.find(effect => effect.kind === 'blessing')?.potency ?? 0;
+
+/**
+ * Adjust outgoing damage for the bearer's effects
+ * @param damage Damage before effects
+ * @param effects The attacker's current effects
+ * @returns Damage after blessing and weakness
+ */
+export const modifyDamage = (damage: number, effects: StatusEffect[] = []) => {
+  const blessed = damage + getAttackBonus(effects);
+  return effects.some(effect => effect.kind === 'weakness')
+    ? Math.max(1, Math.floor(blessed * WEAKNESS_DAMAGE_MULTIPLIER))
+    : blessed;
+};
+
+/**
+ * Describe an effect for badges and prompts
+ * @param effect The effect
+ * @returns Short text such as "Poison x2 (3)"
+ */
+export const describeStatusEffect = (effect: StatusEffect) =>
+  `${STATUS_RULES[effect.kind].label}${effect.stacks > 1 ? ` x${effect.stacks}` : ''} (${effect.duration})`;
+
+/**
+ * Describe the bearer's condition in words
+ * @param effects The bearer's current effects
+ * @returns Text such as "poisoned, blessed", or an empty string
+ */
+export const describeCondition = (effects: StatusEffect[] = []) =>
+  effects.map(effect => STATUS_RULES[effect.kind].adjective).join(', ');
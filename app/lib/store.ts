@@ -10,92 +10,63 @@ import {
   Enemy, 
   Item, 
   GameLogEntry,
+  CombatResult,
+  CombatRewards,
+  CombatRoundOutcome,
+  ConversationResponse,
+  DefeatConsequence,
+  DungeonMasterCall,
+  EquipmentSlot,
+  GameState,
+  LocationDraft,
+  NPC,
   Quest,
-  CombatState,
-  GameState
+  SideQuestDraft
 } from '../types';
+import { getUnlockedAbilities } from './abilities';
+import { applyStatusEffect, isStunned, tickStatusEffects } from './statusEffects';
+import { createEnemyFromCall, createItemFromCall, createToolTurnValidator } from './dmTools';
+import {
+  CombatStep,
+  createCombatState,
+  getCombatRewards,
+  getUpcomingIntents,
+  performAutomaticTurn,
+  performPlayerAbility,
+  performPlayerAttack,
+  performPlayerItem,
+  summarizeCombatRound
+} from './combat';
+import { applyRespawnPenalty, createDefeatRecord, findKiller } from './defeat';
+import { applyEquipmentStats, createRelicItem, equipItem, SLOT_LABELS, unequipItem } from './equipment';
+import { resolveItemUse } from './inventory';
+import { buyFromMerchant, getShopBlocker, restockMerchants, sellToMerchant } from './trading';
+import { chooseDialogResponse, getDialogOption, validateDialog } from './dialog';
+import { applyConversationResponse, createEnemyFromNpc } from './conversation';
+import {
+  advanceObjective,
+  applyQuestEvent,
+  QuestEvent,
+  QuestProgress,
+  subscribeQuestTracking
+} from './quests';
+import { buildWorldIndex, createSideQuestOffer, validateSideQuestDraft } from './sideQuests';
+import { createEventBus } from './events';
+import { subscribeGameLog } from './gameLog';
+import { createLocationFromDraft, getExpansionBlocker, validateLocationDraft } from './worldGen';
+import { createWorldFromPack, getRespawnPoint, loadContentPack } from './contentPacks';
+import { GAME_START_TIME, getGameHour, TIME_COSTS } from './clock';
+import { rollEncounter, startEncounterCooldown } from './encounters';
+import eldermoorPack from '../content/eldermoor.json';
 
-// Initial locations
-const locations: Record<string, Location> = {
-  'village': {
-    id: 'village',
-    name: 'Eldermoor Village',
-    description: 'A small, dreary settlement shrouded in perpetual twilight. Dilapidated wooden buildings line the muddy streets, and villagers hurry about with wary eyes.',
-    connections: ['forest', 'tavern', 'blacksmith'],
-    npcs: []
-  },
-  'tavern': {
-    id: 'tavern',
-    name: 'The Howling Wolf Tavern',
-    description: 'A dimly lit tavern with rough-hewn wooden tables and the smell of stale ale. A few patrons huddle in corners, speaking in hushed tones.',
-    connections: ['village'],
-    npcs: []
-  },
-  'forest': {
-    id: 'forest',
-    name: 'The Whispering Woods',
-    description: 'Ancient trees loom overhead, their twisted branches blocking what little light filters through the perpetual mist. Strange sounds echo from deep within.',
-    connections: ['village', 'ruins'],
-    enemies: [
-      {
-        id: 'wolf1',
-        name: 'Shadow Wolf',
-        description: 'A wolf with fur as black as midnight and eyes that glow with an unnatural red light.',
-        level: 1,
-        health: 15,
-        maxHealth: 15,
-        stats: {
-          strength: 3,
-          dexterity: 4,
-          constitution: 2
-        },
-        abilities: [],
-        drops: [],
-        experience: 10,
-        gold: 0
-      }
-    ]
-  },
-  'blacksmith': {
-    id: 'blacksmith',
-    name: 'The Smoldering Forge',
-    description: 'A soot-covered workshop where the village blacksmith crafts weapons and armor. The heat from the forge provides rare warmth in this cold place.',
-    connections: ['village'],
-    npcs: []
-  },
-  'ruins': {
-    id: 'ruins',
-    name: 'Ancient Temple Ruins',
-    description: 'Crumbling stone structures covered in strange symbols. The air here feels charged with forgotten magic.',
-    connections: ['forest', 'crypt'],
-    enemies: []
-  },
-  'crypt': {
-    id: 'crypt',
-    name: 'The Forgotten Crypt',
-    description: 'A dark, underground chamber filled with ancient sarcophagi. The walls are adorned with faded murals depicting strange rituals.',
-    connections: ['ruins'],
-    enemies: [
-      {
-        id: 'skeleton1',
-        name: 'Reanimated Skeleton',
-        description: 'A skeleton animated by dark magic, its bones yellowed with age. It clutches a rusted sword in its bony hands.',
-        level: 2,
-        health: 20,
-        maxHealth: 20,
-        stats: {
-          strength: 4,
-          dexterity: 2,
-          constitution: 3
-        },
-        abilities: [],
-        drops: [],
-        experience: 20,
-        gold: 5
-      }
-    ]
-  }
-};
+// The campaign the game ships with. A broken pack is a bug and fails loudly.
+export const contentPack = loadContentPack(eldermoorPack);
+
+// Where the player wakes after death
+export const respawnPoint = getRespawnPoint(contentPack);
+
+// A fresh copy of the pack's world; every enemy and item gets a new id
+const createWorld = () => createWorldFromPack(contentPack, uuidv4);
 
 // Helper function to generate base stats based on character class
 const getBaseStats = (characterClass: CharacterClass) => {
@@ -148,53 +119,141 @@ const getBaseStats = (characterClass: CharacterClass) => {
   }
 };
 
-// Calculate damage based on stats and weapons
-const calculateDamage = (strength: number, dexterity: number, isRanged = false) => {
-  const baseDamage = isRanged ? dexterity : strength;
-  return Math.floor(baseDamage * 1.5) + Math.floor(Math.random() * 4);
+// Pause between enemy turns so the player can follow the fight
+const ENEMY_TURN_DELAY_MS = 700;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const SAVE_KEY = 'rpg_save';
+
+// Check every NPC's dialog scripts in a save. An invalid dialog is dropped so
+// the rest of the save loads; the pack's own dialogs are checked as it loads.
+const checkDialogs = (locations: Record<string, Location>): Record<string, Location> =>
+  Object.fromEntries(Object.entries(locations).map(([id, location]) => [
+    id,
+    {
+      ...location,
+      npcs: location.npcs?.map(npc => {
+        const errors = validateDialog(npc);
+        if (errors.length === 0) return npc;
+        console.warn(`Dropping invalid dialog for ${npc.id}:`, errors);
+        return { ...npc, dialog: [] };
+      })
+    }
+  ]));
+
+// Older saves predate the village merchants; give NPC-less pack locations
+// their starting NPCs
+const withSeededNpcs = (locations: Record<string, Location>): Record<string, Location> => {
+  const world = createWorld();
+  return Object.fromEntries(Object.entries(locations).map(([id, location]) => [
+    id,
+    location.npcs?.length || !world[id]?.npcs?.length ? location : { ...location, npcs: world[id].npcs }
+  ]));
 };
 
+// Older saves could hold copies of a shop's first stock sharing one id; give
+// the repeats ids of their own
+const withUniqueItemIds = (items: Item[]): Item[] =>
+  items.map((item, index) =>
+    items.findIndex(other => other.id === item.id) === index ? item : { ...item, id: `${item.id}-${uuidv4()}` }
+  );
+
+// Swap an updated NPC into its location
+const replaceNpc = (location: Location, npc: NPC): Location => ({
+  ...location,
+  npcs: (location.npcs ?? []).map(n => n.id === npc.id ? npc : n)
+});
+
+// Everything a new run starts from
+const createInitialState = (): GameState => ({
+  character: null,
+  currentLocation: null,
+  gameLog: [],
+  quests: [],
+  combat: null,
+  visitedLocations: [],
+  gameTime: GAME_START_TIME,
+  locations: createWorld(),
+  defeatConsequence: 'respawn',
+  defeat: null,
+  encounterCooldowns: {},
+  encounter: null
+});
+
+// Domain events announced by the store's actions. Subscribe here to react to
+// what happens in the game without touching the actions themselves.
+export const gameEvents = createEventBus();
+
 // Game store using Zustand
 export const useGameStore = create<GameState & {
   // Character actions
-  createNewCharacter: (name: string, description: string, characterClass: CharacterClass, relic: CharacterRelic) => void;
+  createNewCharacter: (
+    name: string,
+    description: string,
+    characterClass: CharacterClass,
+    relic: CharacterRelic,
+    defeatConsequence?: DefeatConsequence
+  ) => void;
   updateCharacterStats: (stats: Partial<Character['stats']>) => void;
   addItemToInventory: (item: Item) => void;
   removeItemFromInventory: (itemId: string) => void;
-  useItem: (itemId: string) => void;
+  useItem: (itemId: string) => Promise<CombatRoundOutcome | null>;
+  dropItem: (itemId: string) => void;
+  equipItem: (itemId: string) => void;
+  unequipItem: (slot: EquipmentSlot) => void;
   gainExperience: (amount: number) => void;
   
   // World actions
-  moveToLocation: (locationId: string) => void;
+  moveToLocation: (locationId: string, options?: { travel?: boolean }) => void;
+  engageEncounter: () => void;
+  avoidEncounter: () => void;
+  discoverLocation: (originId: string, draft: LocationDraft) => boolean;
+  takeItem: (itemId: string) => void;
+  rest: () => void;
+  passTime: (minutes: number) => void;
+  buyItem: (npcId: string, itemId: string) => void;
+  sellItem: (npcId: string, itemId: string) => void;
+  respondToDialog: (npcId: string, optionId: string, responseId: string) => { nextOptionId: string | null; openShop: boolean } | null;
+  applyConversationResponse: (npcId: string, response: ConversationResponse) => { attacked: boolean };
   addToGameLog: (text: string, type: GameLogEntry['type']) => void;
   
+  // Quest actions
+  recordQuestEvent: (event: QuestEvent) => void;
+  updateQuestProgress: (questId: string, objectiveId: string, amount: number) => void;
+  applyQuestProgress: (progress: QuestProgress) => void;
+  grantQuestRewards: (quest: Quest) => void;
+  acceptSideQuest: (draft: SideQuestDraft) => string[];
+  applyDungeonMasterCalls: (calls: DungeonMasterCall[]) => void;
+  
   // Combat actions
-  startCombat: (enemies: Enemy[]) => void;
-  endCombat: () => void;
-  attackEnemy: (enemyId: string, abilityName: string) => void;
+  startCombat: (enemies: Enemy[], opener?: 'player' | 'enemies') => void;
+  endCombat: () => CombatRewards | null;
+  attackEnemy: (enemyId: string, abilityName: string) => Promise<CombatRoundOutcome | null>;
+  castAbility: (abilityId: string, enemyId: string) => Promise<CombatRoundOutcome | null>;
+  resolvePlayerTurn: (step: CombatStep | null) => Promise<CombatRoundOutcome | null>;
+  applyCombatStep: (step: CombatStep) => CombatRewards | null;
+  runAutomaticTurns: () => Promise<CombatRoundOutcome>;
+  
+  // Defeat actions
+  defeatPlayer: (killedBy: string) => void;
+  acceptDefeat: () => void;
   
   // Game management
   startNewGame: () => void;
   saveGame: () => void;
-  loadGame: () => void;
+  loadGame: () => boolean;
 }>((set, get) => ({
   // Initial state
-  character: null,
-  currentLocation: null,
-  gameLog: [],
-  quests: [],
-  combat: null,
-  visitedLocations: [],
-  gameTime: 0,
+  ...createInitialState(),
 
   // Create a new character
-  createNewCharacter: (name, description, characterClass, relic) => {
+  createNewCharacter: (name, description, characterClass, relic, defeatConsequence = 'respawn') => {
     const id = uuidv4();
     const baseStats = getBaseStats(characterClass);
-    const initialHealth = 20 + baseStats.constitution * 5;
-    const initialMana = baseStats.intelligence * 10;
     
-    const newCharacter: Character = {
+    // Max health and mana come from stats plus the relic's passive
+    const equipped = applyEquipmentStats({
       id,
       name,
       description,
@@ -202,17 +261,19 @@ export const useGameStore = create<GameState & {
       relic,
       level: 1,
       experience: 0,
-      health: initialHealth,
-      maxHealth: initialHealth,
-      mana: initialMana,
-      maxMana: initialMana,
+      health: 0,
+      maxHealth: 0,
+      mana: 0,
+      maxMana: 0,
       inventory: [],
       stats: baseStats,
-      abilities: [],
-      gold: 10
-    };
+      abilities: getUnlockedAbilities(characterClass, 1),
+      gold: 10,
+      equipment: { relic: createRelicItem(relic, uuidv4()) }
+    });
+    const newCharacter: Character = { ...equipped, health: equipped.maxHealth, mana: equipped.maxMana };
     
-    set({ character: newCharacter });
+    set({ character: newCharacter, defeatConsequence, defeat: null });
   },
   
   // Update character stats
@@ -254,33 +315,104 @@ export const useGameStore = create<GameState & {
     });
   },
   
-  // Use an item from inventory
-  useItem: (itemId) => {
-    const { character } = get();
+  // Use an item from inventory. In combat this takes the player's turn.
+  useItem: async (itemId) => {
+    const { character, combat } = get();
+    if (!character) return null;
+    
+    const item = character.inventory.find(i => i.id === itemId);
+    if (combat) {
+      const step = performPlayerItem(character, combat, itemId);
+      if (step && item) gameEvents.emit({ type: 'ItemUsed', item, use: resolveItemUse(character, item), inCombat: true });
+      return get().resolvePlayerTurn(step);
+    }
+    
+    if (!item || !item.usable) return null;
+    
+    // Apply item effects and remove the used item
+    const use = resolveItemUse(character, item);
+    set({
+      character: {
+        ...character,
+        health: character.health + use.healing,
+        statusEffects: use.statuses.reduce(
+          (effects, application) => applyStatusEffect(effects, application, item.name),
+          character.statusEffects ?? []
+        ),
+        inventory: character.inventory.filter(i => i.id !== itemId)
+      }
+    });
+    
+    gameEvents.emit({ type: 'ItemUsed', item, use, inCombat: false });
+    return null;
+  },
+  
+  // Drop an item at the current location, where it can be picked up again
+  dropItem: (itemId) => {
+    const { character, currentLocation, locations, combat } = get();
+    if (!character || !currentLocation) return;
+    
+    const item = character.inventory.find(i => i.id === itemId);
+    if (!item) return;
+    
+    if (combat) {
+      gameEvents.emit({ type: 'ActionBlockedByCombat', action: 'drop' });
+      return;
+    }
+    
+    const updatedLocation: Location = {
+      ...currentLocation,
+      items: [...(currentLocation.items ?? []), item]
+    };
+    
+    set({
+      character: { ...character, inventory: character.inventory.filter(i => i.id !== itemId) },
+      currentLocation: updatedLocation,
+      locations: { ...locations, [updatedLocation.id]: updatedLocation }
+    });
+    gameEvents.emit({ type: 'ItemDropped', item });
+  },
+  
+  // Equip an item from the inventory
+  equipItem: (itemId) => {
+    const { character, combat } = get();
     if (!character) return;
     
+    if (combat) {
+      gameEvents.emit({ type: 'ActionBlockedByCombat', action: 'equip' });
+      return;
+    }
+    
     const item = character.inventory.find(i => i.id === itemId);
-    if (!item || !item.usable) return;
-    
-    // Apply item effects
-    if (item.effects) {
-      item.effects.forEach(effect => {
-        if (effect.type === 'heal' && effect.target === 'self') {
-          const newHealth = Math.min(character.health + effect.amount, character.maxHealth);
-          set({
-            character: {
-              ...character,
-              health: newHealth
-            }
-          });
-          
-          get().addToGameLog(`You used ${item.name} and restored ${effect.amount} health.`, 'system');
-        }
-      });
+    const result = equipItem(character, itemId);
+    if (!item || !result) {
+      gameEvents.emit({ type: 'ActionRefused', reason: item ? `You can't equip ${item.name}.` : 'You aren\'t carrying that.' });
+      return;
+    }
+    
+    set({ character: result.character });
+    gameEvents.emit({ type: 'ItemEquipped', item, replaced: result.replaced });
+  },
+  
+  // Move an equipped item back to the inventory
+  unequipItem: (slot) => {
+    const { character, combat } = get();
+    if (!character) return;
+    
+    if (combat) {
+      gameEvents.emit({ type: 'ActionBlockedByCombat', action: 'unequip' });
+      return;
+    }
+    
+    const item = character.equipment[slot];
+    const updatedCharacter = unequipItem(character, slot);
+    if (!item || !updatedCharacter) {
+      gameEvents.emit({ type: 'ActionRefused', reason: `Nothing is equipped in your ${SLOT_LABELS[slot].toLowerCase()} slot.` });
+      return;
     }
     
-    // Remove the used item
-    get().removeItemFromInventory(itemId);
+    set({ character: updatedCharacter });
+    gameEvents.emit({ type: 'ItemUnequipped', item });
   },
   
   // Gain experience and level up if needed
@@ -316,24 +448,29 @@ export const useGameStore = create<GameState & {
         newStats.constitution += 1;
       }
       
-      // Calculate new max health and mana
-      const newMaxHealth = 20 + newStats.constitution * 5;
-      const newMaxMana = newStats.intelligence * 10;
+      // Learn any abilities unlocked at the new level
+      const abilities = getUnlockedAbilities(character.class, newLevel);
+      const learned = abilities.filter(ability => !character.abilities.some(a => a.id === ability.id));
+      
+      // Calculate new max health and mana, including equipment
+      const leveled = applyEquipmentStats({
+        ...character,
+        level: newLevel,
+        experience: remainingExperience,
+        stats: newStats,
+        abilities
+      });
       
       set({
         character: {
-          ...character,
-          level: newLevel,
-          experience: remainingExperience,
-          maxHealth: newMaxHealth,
-          health: newMaxHealth, // Fully heal on level up
-          maxMana: newMaxMana,
-          mana: newMaxMana, // Fully restore mana on level up
-          stats: newStats
+          ...leveled,
+          health: leveled.maxHealth, // Fully heal on level up
+          mana: leveled.maxMana // Fully restore mana on level up
         }
       });
       
-      get().addToGameLog(`You gained ${amount} experience and leveled up to level ${newLevel}!`, 'system');
+      gameEvents.emit({ type: 'ExperienceGained', amount });
+      gameEvents.emit({ type: 'LevelUp', level: newLevel, learned });
     } else {
       set({
         character: {
@@ -342,13 +479,13 @@ export const useGameStore = create<GameState & {
         }
       });
       
-      get().addToGameLog(`You gained ${amount} experience.`, 'system');
+      gameEvents.emit({ type: 'ExperienceGained', amount });
     }
   },
   
-  // Move to a new location
-  moveToLocation: (locationId) => {
-    const location = locations[locationId];
+  // Move to a new location, travelling there unless told otherwise
+  moveToLocation: (locationId, { travel = true } = {}) => {
+    const location = get().locations[locationId];
     if (!location) return;
     
     // Add to visited locations
@@ -358,21 +495,279 @@ export const useGameStore = create<GameState & {
       newVisitedLocations.push(locationId);
     }
     
-    // Check for random encounters
-    const hasEnemies = location.enemies && location.enemies.length > 0;
-    const randomEncounter = hasEnemies && Math.random() < 0.3; // 30% chance
-    
     set({
       currentLocation: location,
-      visitedLocations: newVisitedLocations
+      visitedLocations: newVisitedLocations,
+      // Enemies spotted and left behind don't follow
+      encounter: null
     });
     
-    get().addToGameLog(`You have moved to ${location.name}.`, 'narrative');
+    gameEvents.emit({ type: 'LocationEntered', location, firstVisit: !visitedLocations.includes(locationId) });
     
-    // Start combat if random encounter
-    if (randomEncounter && location.enemies) {
-      get().startCombat(location.enemies);
+    // Being placed somewhere, as at the start or on waking after death, takes
+    // no time and nothing lies in wait
+    if (!travel) return;
+    get().passTime(TIME_COSTS.travel);
+    
+    // Something may turn up as the player arrives, more often after dark
+    const { character, gameTime, encounterCooldowns } = get();
+    if (!character) return;
+    const rolled = rollEncounter(location, character, contentPack, gameTime, encounterCooldowns, Math.random, uuidv4);
+    if (!rolled) return;
+    
+    if (rolled.entryId) {
+      set({ encounterCooldowns: startEncounterCooldown(encounterCooldowns, location, rolled.entryId, gameTime) });
     }
+    gameEvents.emit({ type: 'EncounterStarted', location, enemies: rolled.enemies, ambush: rolled.ambush });
+    
+    if (rolled.ambush) {
+      get().startCombat(rolled.enemies, 'enemies');
+    } else {
+      set({ encounter: { locationId, enemies: rolled.enemies } });
+    }
+  },
+  
+  // Attack enemies the player spotted first, taking the first turn
+  engageEncounter: () => {
+    const { encounter, combat } = get();
+    if (!encounter || combat) return;
+    
+    set({ encounter: null });
+    get().startCombat(encounter.enemies, 'player');
+  },
+  
+  // Leave spotted enemies be; they stay unaware of the player
+  avoidEncounter: () => {
+    const { encounter } = get();
+    if (!encounter) return;
+    
+    set({ encounter: null });
+    gameEvents.emit({ type: 'EncounterAvoided', enemies: encounter.enemies });
+  },
+  
+  // Add a newly charted location beyond the origin and travel there.
+  // The draft is checked again against live state; false if it no longer fits.
+  discoverLocation: (originId, draft) => {
+    const { character, locations, combat } = get();
+    const origin = locations[originId];
+    if (!character || !origin || combat) return false;
+    
+    const blocker = getExpansionBlocker(locations, origin, character.level);
+    const neighbours = origin.connections.map(id => locations[id]).filter(Boolean);
+    const knownNames = Object.values(locations).map(location => location.name);
+    if (blocker || validateLocationDraft(draft, origin, neighbours, knownNames).length > 0) {
+      gameEvents.emit({ type: 'ActionRefused', reason: blocker ?? 'You search for a way onward, but find none.' });
+      return false;
+    }
+    
+    const discovered = createLocationFromDraft(draft, origin, locations, contentPack.startLocationId, character, uuidv4);
+    const { currentLocation } = get();
+    set({
+      locations: discovered.locations,
+      currentLocation: currentLocation && discovered.locations[currentLocation.id]
+    });
+    gameEvents.emit({ type: 'PathFound', from: origin, to: discovered.locations[discovered.locationId] });
+    get().moveToLocation(discovered.locationId);
+    return true;
+  },
+  
+  // Pick up an item lying in the current location
+  takeItem: (itemId) => {
+    const { currentLocation, locations } = get();
+    if (!currentLocation) return;
+    
+    const item = currentLocation.items?.find(i => i.id === itemId);
+    if (!item) return;
+    
+    const updatedLocation: Location = {
+      ...currentLocation,
+      items: currentLocation.items?.filter(i => i.id !== itemId)
+    };
+    
+    set({
+      currentLocation: updatedLocation,
+      locations: { ...locations, [updatedLocation.id]: updatedLocation }
+    });
+    
+    get().addItemToInventory(item);
+    gameEvents.emit({ type: 'ItemAcquired', item, source: 'pickup' });
+  },
+  
+  // Rest to recover a quarter of health and mana
+  rest: () => {
+    const { character, combat } = get();
+    if (!character) return;
+    
+    if (combat) {
+      gameEvents.emit({ type: 'ActionBlockedByCombat', action: 'rest' });
+      return;
+    }
+    
+    const healthRestored = Math.min(Math.ceil(character.maxHealth / 4), character.maxHealth - character.health);
+    const manaRestored = Math.min(Math.ceil(character.maxMana / 4), character.maxMana - character.mana);
+    
+    set({
+      character: {
+        ...character,
+        health: character.health + healthRestored,
+        mana: character.mana + manaRestored
+      }
+    });
+    
+    gameEvents.emit({ type: 'Rested', healthRestored, manaRestored });
+    get().passTime(TIME_COSTS.rest);
+  },
+  
+  // Advance the clock. Status effects tick and merchants restock once for
+  // every hour that turns over. Outside combat a lingering effect can't kill
+  // the character.
+  passTime: (minutes) => {
+    const from = get().gameTime;
+    if (!get().character || minutes <= 0) return;
+    set({ gameTime: from + minutes });
+    
+    for (let hour = getGameHour(from) + 1; hour <= getGameHour(from + minutes); hour++) {
+      const { character, combat } = get();
+      if (!character) break;
+      
+      const tick = tickStatusEffects(character.statusEffects, character.health, character.maxHealth);
+      const health = combat ? tick.health : Math.max(1, tick.health);
+      set(state => {
+        const locations = restockMerchants(state.locations, hour, uuidv4);
+        return {
+          character: { ...character, health, statusEffects: tick.effects },
+          locations,
+          currentLocation: state.currentLocation && locations[state.currentLocation.id]
+        };
+      });
+      
+      if (tick.damage > 0 || tick.healing > 0) {
+        gameEvents.emit({ type: 'StatusEffectsTicked', kinds: tick.active, damage: tick.damage, healing: tick.healing });
+      }
+    }
+    
+    gameEvents.emit({ type: 'TimePassed', from, to: from + minutes });
+  },
+  
+  // Buy an item from a merchant at the current location
+  buyItem: (npcId, itemId) => {
+    const { character, currentLocation, locations, combat } = get();
+    const npc = currentLocation?.npcs?.find(n => n.id === npcId);
+    if (!character || !currentLocation || !npc) return;
+    
+    if (combat) {
+      gameEvents.emit({ type: 'ActionBlockedByCombat', action: 'trade' });
+      return;
+    }
+    
+    const closed = getShopBlocker(npc, get().gameTime);
+    if (closed) {
+      gameEvents.emit({ type: 'ActionRefused', reason: closed });
+      return;
+    }
+    
+    const result = buyFromMerchant(character, npc, itemId);
+    if (!result.ok) {
+      gameEvents.emit({ type: 'ActionRefused', reason: result.reason });
+      return;
+    }
+    
+    const updatedLocation = replaceNpc(currentLocation, result.npc);
+    set({
+      character: result.character,
+      currentLocation: updatedLocation,
+      locations: { ...locations, [updatedLocation.id]: updatedLocation }
+    });
+    gameEvents.emit({ type: 'TradeCompleted', trade: 'buy', item: result.item, npc, price: result.price });
+    gameEvents.emit({ type: 'ItemAcquired', item: result.item, source: 'purchase' });
+  },
+  
+  // Sell an item from the inventory to a merchant at the current location
+  sellItem: (npcId, itemId) => {
+    const { character, currentLocation, locations, combat } = get();
+    const npc = currentLocation?.npcs?.find(n => n.id === npcId);
+    if (!character || !currentLocation || !npc) return;
+    
+    if (combat) {
+      gameEvents.emit({ type: 'ActionBlockedByCombat', action: 'trade' });
+      return;
+    }
+    
+    const closed = getShopBlocker(npc, get().gameTime);
+    if (closed) {
+      gameEvents.emit({ type: 'ActionRefused', reason: closed });
+      return;
+    }
+    
+    const result = sellToMerchant(character, npc, itemId);
+    if (!result.ok) {
+      gameEvents.emit({ type: 'ActionRefused', reason: result.reason });
+      return;
+    }
+    
+    const updatedLocation = replaceNpc(currentLocation, result.npc);
+    set({
+      character: result.character,
+      currentLocation: updatedLocation,
+      locations: { ...locations, [updatedLocation.id]: updatedLocation }
+    });
+    gameEvents.emit({ type: 'TradeCompleted', trade: 'sell', item: result.item, npc, price: result.price });
+  },
+  
+  // Reply to an NPC at the current location, running the response's actions.
+  // Returns where the conversation goes next, or null if the reply failed.
+  respondToDialog: (npcId, optionId, responseId) => {
+    const { character, currentLocation, locations, quests, combat } = get();
+    const npc = currentLocation?.npcs?.find(n => n.id === npcId);
+    const response = npc && getDialogOption(npc, optionId)?.responses.find(r => r.id === responseId);
+    if (!character || !currentLocation || !npc || !response || combat) return null;
+    
+    gameEvents.emit({ type: 'DialogLine', npc, fromPlayer: true, text: response.text });
+    const outcome = chooseDialogResponse(response, { character, quests, npc }, uuidv4);
+    if ('reason' in outcome) {
+      gameEvents.emit({ type: 'ActionRefused', reason: outcome.reason });
+      return null;
+    }
+    
+    const updatedLocation = replaceNpc(currentLocation, outcome.npc);
+    set({
+      character: outcome.character,
+      quests: [...quests, ...outcome.startedQuests],
+      currentLocation: updatedLocation,
+      locations: { ...locations, [updatedLocation.id]: updatedLocation }
+    });
+    outcome.events.forEach(event => gameEvents.emit(event));
+    get().passTime(TIME_COSTS.dialog);
+    
+    const next = outcome.nextOptionId ? getDialogOption(outcome.npc, outcome.nextOptionId) : undefined;
+    if (next) gameEvents.emit({ type: 'DialogLine', npc: outcome.npc, fromPlayer: false, text: next.text });
+    return { nextOptionId: next?.id ?? null, openShop: outcome.openShop };
+  },
+  
+  // Apply an NPC's reply in a free-form conversation: their attitude and
+  // memories change, and a hostile NPC may attack
+  applyConversationResponse: (npcId, response) => {
+    const { character, currentLocation, locations, combat } = get();
+    const npc = currentLocation?.npcs?.find(n => n.id === npcId);
+    if (!character || !currentLocation || !npc || combat) return { attacked: false };
+    
+    const result = applyConversationResponse(npc, response);
+    const updatedLocation = replaceNpc(currentLocation, result.npc);
+    set({
+      currentLocation: updatedLocation,
+      locations: { ...locations, [updatedLocation.id]: updatedLocation }
+    });
+    
+    gameEvents.emit({ type: 'DialogLine', npc, fromPlayer: false, text: response.reply });
+    if (result.npc.attitude !== npc.attitude) {
+      gameEvents.emit({ type: 'AttitudeChanged', npc: result.npc, attitude: result.npc.attitude });
+    }
+    get().passTime(TIME_COSTS.conversation);
+    if (result.attacks) {
+      gameEvents.emit({ type: 'NpcAttacked', npc: result.npc });
+      get().startCombat([createEnemyFromNpc(result.npc, character.level)]);
+    }
+    return { attacked: result.attacks };
   },
   
   // Add entry to game log
@@ -389,154 +784,316 @@ export const useGameStore = create<GameState & {
     }));
   },
   
-  // Start combat
-  startCombat: (enemies) => {
-    const combatState: CombatState = {
-      inCombat: true,
-      enemies: JSON.parse(JSON.stringify(enemies)), // Deep copy
-      playerTurn: true,
-      round: 1,
-      combatLog: []
-    };
+  // Advance every active quest objective that matches something that happened
+  recordQuestEvent: (event) => {
+    get().applyQuestProgress(applyQuestEvent(get().quests, event));
+  },
+  
+  // Advance a quest objective by id, as the Dungeon Master's tool does
+  updateQuestProgress: (questId, objectiveId, amount) => {
+    get().applyQuestProgress(advanceObjective(get().quests, questId, objectiveId, amount));
+  },
+  
+  // Store advanced quests, then reward any the progress completed
+  applyQuestProgress: (progress) => {
+    if (progress.updated.length === 0) return;
+    
+    set({ quests: progress.quests });
+    progress.updated.forEach(quest => {
+      if (!quest.isCompleted) gameEvents.emit({ type: 'QuestUpdated', quest });
+    });
+    progress.completed.forEach(quest => {
+      gameEvents.emit({ type: 'QuestCompleted', quest });
+      get().grantQuestRewards(quest);
+    });
+  },
+  
+  // Hand out a completed quest's rewards
+  grantQuestRewards: (quest) => {
+    quest.rewards.forEach(reward => {
+      switch (reward.type) {
+        case 'experience':
+          get().gainExperience(reward.amount);
+          break;
+        case 'gold': {
+          const { character } = get();
+          if (character) set({ character: { ...character, gold: character.gold + reward.amount } });
+          break;
+        }
+        case 'item':
+          // Each reward is a fresh copy, so a quest template can be reused
+          if (reward.item) {
+            const item = { ...reward.item, id: uuidv4() };
+            get().addItemToInventory(item);
+            gameEvents.emit({ type: 'ItemAcquired', item, source: 'reward' });
+          }
+          break;
+      }
+    });
+  },
+  
+  // Re-check a proposed side quest against live state, then start it and
+  // place whatever it spawns. Returns the problems if it no longer fits.
+  acceptSideQuest: (draft) => {
+    const { character, currentLocation, locations, quests } = get();
+    if (!character || !currentLocation) return ['There is no one to take the quest.'];
     
-    set({ combat: combatState });
+    const world = buildWorldIndex(locations);
+    const problems = validateSideQuestDraft(draft, world, quests);
+    if (problems.length > 0) return problems;
     
-    // Log combat start
-    get().addToGameLog(`Combat started! You are facing ${enemies.map(e => e.name).join(', ')}.`, 'combat');
+    const offer = createSideQuestOffer(draft, world, character, uuidv4);
+    const updatedLocations = { ...locations };
+    offer.enemies.forEach(({ locationId, enemy }) => {
+      const location = updatedLocations[locationId];
+      updatedLocations[locationId] = { ...location, enemies: [...(location.enemies ?? []), enemy] };
+    });
+    offer.items.forEach(({ locationId, item }) => {
+      const location = updatedLocations[locationId];
+      updatedLocations[locationId] = { ...location, items: [...(location.items ?? []), item] };
+    });
+    
+    set({
+      locations: updatedLocations,
+      currentLocation: updatedLocations[currentLocation.id],
+      quests: [...quests, { ...offer.quest, isActive: true }]
+    });
+    gameEvents.emit({ type: 'QuestAccepted', quest: offer.quest });
+    return [];
   },
   
-  // End combat
-  endCombat: () => {
-    const { character, combat } = get();
-    if (!combat || !character) return;
+  // Apply the Dungeon Master's tool calls after re-checking them against live state
+  applyDungeonMasterCalls: (calls) => {
+    const { character, currentLocation, quests, combat } = get();
+    if (!character || !currentLocation) return;
     
-    // Award experience and loot
-    let totalExperience = 0;
-    let totalGold = 0;
+    const validate = createToolTurnValidator({ character, currentLocation, quests, inCombat: !!combat });
     
-    combat.enemies.forEach(enemy => {
-      totalExperience += enemy.experience;
-      totalGold += enemy.gold;
+    calls.forEach(({ name, args }) => {
+      const validation = validate(name, args);
+      if (!validation.ok) {
+        console.warn(`Ignored Dungeon Master call ${name}: ${validation.reason}`);
+        return;
+      }
       
-      // Add drops to inventory (simplified for MVP)
-      if (enemy.drops && enemy.drops.length > 0) {
-        enemy.drops.forEach(item => {
+      const call = validation.call;
+      switch (call.name) {
+        case 'addItemToInventory': {
+          const item = createItemFromCall(call.args, uuidv4());
           get().addItemToInventory(item);
-        });
+          gameEvents.emit({ type: 'ItemAcquired', item, source: 'story' });
+          break;
+        }
+        case 'startCombat': {
+          const { enemyId } = call.args;
+          const location = get().currentLocation;
+          const enemy = enemyId
+            ? location?.enemies?.find(e => e.id === enemyId)
+            : createEnemyFromCall(call.args, uuidv4());
+          if (enemy) get().startCombat([enemy]);
+          break;
+        }
+        case 'gainExperience':
+          get().gainExperience(call.args.amount);
+          break;
+        case 'moveToLocation':
+          get().moveToLocation(call.args.locationId);
+          break;
+        case 'updateQuestProgress':
+          get().updateQuestProgress(call.args.questId, call.args.objectiveId, call.args.amount);
+          break;
       }
     });
+  },
+  
+  // Start combat, rolling initiative for everyone involved unless one side
+  // caught the other unawares
+  startCombat: (enemies, opener) => {
+    const { character } = get();
+    if (!character) return;
+    
+    const combatState = createCombatState(character, enemies, Math.random, opener);
+    set({ combat: combatState, encounter: null });
+    
+    gameEvents.emit({ type: 'CombatStarted', enemies, turnOrder: combatState.turnOrder });
+    
+    // Faster enemies act before the player's first turn, as does a stun
+    if (!combatState.playerTurn || isStunned(character.statusEffects)) {
+      get().runAutomaticTurns();
+    }
+  },
+  
+  // End combat, awarding experience, gold and loot
+  endCombat: () => {
+    const { character, combat } = get();
+    if (!combat || !character) return null;
+    
+    const rewards = getCombatRewards(combat);
+    
+    // Add drops to inventory (simplified for MVP)
+    rewards.items.forEach(item => {
+      get().addItemToInventory(item);
+      gameEvents.emit({ type: 'ItemAcquired', item, source: 'loot' });
+    });
     
     // Gain experience
-    get().gainExperience(totalExperience);
+    get().gainExperience(rewards.experience);
     
     // Gain gold
-    set({
-      character: {
-        ...character,
-        gold: character.gold + totalGold
-      }
-    });
+    const updatedCharacter = get().character;
+    if (updatedCharacter) {
+      set({
+        character: {
+          ...updatedCharacter,
+          gold: updatedCharacter.gold + rewards.gold
+        }
+      });
+    }
     
-    // Log rewards
-    get().addToGameLog(`Combat ended. You gained ${totalExperience} experience and ${totalGold} gold.`, 'combat');
+    gameEvents.emit({ type: 'CombatEnded', rewards });
+    const slain = combat.enemies.filter(enemy => enemy.health <= 0);
+    slain.forEach(enemy => gameEvents.emit({ type: 'EnemyDefeated', enemy }));
     
-    // End combat
+    // Slain enemies living here, and NPCs who turned on the player, are gone
+    // for good, so the same fight can't be won over and over
+    const { currentLocation, locations } = get();
+    const slainIds = slain.map(enemy => enemy.id);
+    if (
+      currentLocation &&
+      (currentLocation.npcs?.some(npc => slainIds.includes(npc.id)) ||
+        currentLocation.enemies?.some(enemy => slainIds.includes(enemy.id)))
+    ) {
+      const updatedLocation: Location = {
+        ...currentLocation,
+        npcs: currentLocation.npcs?.filter(npc => !slainIds.includes(npc.id)),
+        enemies: currentLocation.enemies?.filter(enemy => !slainIds.includes(enemy.id))
+      };
+      set({ currentLocation: updatedLocation, locations: { ...locations, [updatedLocation.id]: updatedLocation } });
+    }
+    
+    // End combat; the fight took a minute or so a round
     set({ combat: null });
+    get().passTime(combat.round * TIME_COSTS.combatRound);
+    return rewards;
   },
   
-  // Attack an enemy
-  attackEnemy: (enemyId, abilityName) => {
+  // Attack an enemy on the player's turn, then let the enemies act
+  attackEnemy: async (enemyId, abilityName) => {
     const { character, combat } = get();
-    if (!combat || !character) return;
-    
-    // Find the target enemy
-    const enemyIndex = combat.enemies.findIndex(e => e.id === enemyId);
-    if (enemyIndex === -1) return;
+    if (!combat || !character) return null;
     
-    const enemy = combat.enemies[enemyIndex];
+    return get().resolvePlayerTurn(performPlayerAttack(character, combat, enemyId, abilityName, Math.random));
+  },
+  
+  // Use an ability on the player's turn, then let the enemies act
+  castAbility: async (abilityId, enemyId) => {
+    const { character, combat } = get();
+    if (!combat || !character) return null;
     
-    // Calculate damage
-    const damage = calculateDamage(character.stats.strength, character.stats.dexterity);
+    return get().resolvePlayerTurn(performPlayerAbility(character, combat, abilityId, enemyId, Math.random));
+  },
+  
+  // Commit the player's action and play out the turns that follow it
+  resolvePlayerTurn: async (step) => {
+    if (!step) return null;
     
-    // Apply damage to enemy
-    const newEnemyHealth = Math.max(0, enemy.health - damage);
-    const newEnemies = [...combat.enemies];
-    newEnemies[enemyIndex] = {
-      ...enemy,
-      health: newEnemyHealth
-    };
+    const rewards = get().applyCombatStep(step);
+    if (step.status !== 'ongoing') {
+      return summarizeCombatRound(step.results, step.status, rewards, getUpcomingIntents(get().combat));
+    }
     
-    // Update combat state
-    set({
-      combat: {
-        ...combat,
-        enemies: newEnemies,
-        playerTurn: false, // End player turn
-        round: newEnemyHealth <= 0 ? combat.round : combat.round + 1
-      }
-    });
+    const enemyTurns = await get().runAutomaticTurns();
+    return summarizeCombatRound(
+      [...step.results, ...enemyTurns.results],
+      enemyTurns.status,
+      enemyTurns.rewards,
+      enemyTurns.intents
+    );
+  },
+  
+  // Commit one engine step to the store and announce its results
+  applyCombatStep: (step) => {
+    set({ character: step.character, combat: step.combat });
+    step.results.forEach(result => gameEvents.emit({ type: 'CombatActionResolved', result }));
     
-    // Log attack
-    get().addToGameLog(`You hit ${enemy.name} for ${damage} damage.`, 'combat');
+    if (step.status === 'victory') {
+      return get().endCombat();
+    }
+    if (step.status === 'defeat') {
+      get().defeatPlayer(findKiller(step.results));
+    }
+    return null;
+  },
+  
+  // Play enemy turns, and any turn a stun costs the player, one at a time
+  // until the player can act or the fight ends
+  runAutomaticTurns: async () => {
+    const results: CombatResult[] = [];
+    let status: CombatStep['status'] = 'ongoing';
+    let rewards: CombatRewards | null = null;
     
-    // Check if enemy is defeated
-    if (newEnemyHealth <= 0) {
-      get().addToGameLog(`You defeated ${enemy.name}!`, 'combat');
+    while (true) {
+      await wait(ENEMY_TURN_DELAY_MS);
       
-      // Remove defeated enemy
-      const remainingEnemies = newEnemies.filter(e => e.health > 0);
+      const { character, combat } = get();
+      if (!combat || !character) break;
       
-      // Check if all enemies are defeated
-      if (remainingEnemies.length === 0) {
-        get().endCombat();
-        return;
-      }
+      const step = performAutomaticTurn(character, combat, Math.random);
+      if (!step) break;
       
-      // Continue combat with remaining enemies
-      set({
-        combat: {
-          ...combat,
-          enemies: remainingEnemies,
-          playerTurn: true // Give player another turn after defeating an enemy
-        }
-      });
-      return;
+      rewards = get().applyCombatStep(step);
+      results.push(...step.results);
+      status = step.status;
+      if (status !== 'ongoing' || (step.combat.playerTurn && !isStunned(step.character.statusEffects))) break;
     }
     
-    // Enemy turn - simplified for MVP
-    setTimeout(() => {
-      const { character, combat } = get();
-      if (!combat || !character) return;
-      
-      // Each enemy attacks
-      let totalDamage = 0;
-      combat.enemies.forEach(enemy => {
-        const enemyDamage = Math.max(1, Math.floor(enemy.stats.strength * 1.2));
-        totalDamage += enemyDamage;
-      });
-      
-      // Apply damage to player
-      const newHealth = Math.max(0, character.health - totalDamage);
-      set({
-        character: {
-          ...character,
-          health: newHealth
-        },
-        combat: {
-          ...combat,
-          playerTurn: true // Return to player turn
-        }
-      });
-      
-      // Log enemy attack
-      get().addToGameLog(`Enemies attack! You take ${totalDamage} damage.`, 'combat');
-      
-      // Check if player is defeated
-      if (newHealth <= 0) {
-        get().addToGameLog('You have been defeated! Game over.', 'system');
-        // In a full game, would handle player defeat/game over here
+    return summarizeCombatRound(results, status, rewards, getUpcomingIntents(get().combat));
+  },
+  
+  // End combat and record the player's death until they accept its consequence
+  defeatPlayer: (killedBy) => {
+    const { character, currentLocation, defeatConsequence } = get();
+    if (!character) return;
+    
+    const defeat = createDefeatRecord(character, killedBy, currentLocation?.name ?? 'the wilds', defeatConsequence);
+    set({ combat: null, defeat });
+    gameEvents.emit({ type: 'PlayerDefeated', defeat });
+    
+    // A hardcore death can't be undone by reloading
+    if (defeatConsequence === 'permadeath') {
+      try {
+        localStorage.removeItem(SAVE_KEY);
+      } catch (error) {
+        console.error('Failed to delete save:', error);
       }
-    }, 1000);
+    }
+  },
+  
+  // Apply the consequence of the player's death
+  acceptDefeat: () => {
+    const { character, defeat } = get();
+    if (!character || !defeat) return;
+    
+    if (defeat.consequence === 'permadeath') {
+      set(createInitialState());
+      return;
+    }
+    
+    if (defeat.consequence === 'reload' && get().loadGame()) {
+      gameEvents.emit({ type: 'GameReloaded' });
+      return;
+    }
+    
+    // Respawn, also the fallback when there is no save to reload
+    const penalty = applyRespawnPenalty(character);
+    set({ character: penalty.character, defeat: null });
+    get().moveToLocation(respawnPoint.locationId, { travel: false });
+    gameEvents.emit({
+      type: 'Respawned',
+      placeName: respawnPoint.name,
+      goldLost: penalty.goldLost,
+      experienceLost: penalty.experienceLost
+    });
   },
   
   // Start a new game
@@ -544,24 +1101,29 @@ export const useGameStore = create<GameState & {
     const { character } = get();
     if (!character) return;
     
-    // Set initial location to village
-    get().moveToLocation('village');
+    // Reset the world to its initial state
+    set({ locations: createWorld(), encounterCooldowns: {}, encounter: null });
+    
+    // Set initial location to the pack's start
+    get().moveToLocation(contentPack.startLocationId, { travel: false });
     
-    // Add initial game log entry
-    get().addToGameLog('Your adventure begins in the cursed village of Eldermoor. Darkness lurks in every shadow, but perhaps you can find the light...', 'narrative');
+    gameEvents.emit({ type: 'GameStarted', intro: contentPack.intro });
   },
   
   // Save game to localStorage
   saveGame: () => {
     const state = get();
     try {
-      localStorage.setItem('rpg_save', JSON.stringify({
+      localStorage.setItem(SAVE_KEY, JSON.stringify({
         character: state.character,
         currentLocation: state.currentLocation,
         gameLog: state.gameLog,
         quests: state.quests,
         visitedLocations: state.visitedLocations,
-        gameTime: state.gameTime
+        gameTime: state.gameTime,
+        encounterCooldowns: state.encounterCooldowns,
+        locations: state.locations,
+        defeatConsequence: state.defeatConsequence
       }));
       console.log('Game saved successfully');
     } catch (error) {
@@ -572,25 +1134,50 @@ export const useGameStore = create<GameState & {
   // Load game from localStorage
   loadGame: () => {
     try {
-      const savedGame = localStorage.getItem('rpg_save');
+      const savedGame = localStorage.getItem(SAVE_KEY);
       if (!savedGame) {
         console.log('No saved game found');
-        return;
+        return false;
       }
       
       const gameData = JSON.parse(savedGame);
+      const character: Character | null = gameData.character;
+      // Older saves predate world state; fall back to a fresh world
+      const locations: Record<string, Location> = gameData.locations
+        ? checkDialogs(withSeededNpcs(gameData.locations))
+        : createWorld();
       set({
-        character: gameData.character,
-        currentLocation: gameData.currentLocation,
+        // Older saves predate ability kits and equipment; fill them in
+        character: character && {
+          ...character,
+          inventory: withUniqueItemIds(character.inventory),
+          abilities: character.abilities.length === 0
+            ? getUnlockedAbilities(character.class, character.level)
+            : character.abilities,
+          equipment: character.equipment ?? { relic: createRelicItem(character.relic, uuidv4()) }
+        },
+        currentLocation: gameData.currentLocation && (locations[gameData.currentLocation.id] ?? gameData.currentLocation),
         gameLog: gameData.gameLog,
         quests: gameData.quests,
         visitedLocations: gameData.visitedLocations,
-        gameTime: gameData.gameTime
+        gameTime: gameData.gameTime,
+        encounterCooldowns: gameData.encounterCooldowns ?? {},
+        encounter: null,
+        locations,
+        defeatConsequence: gameData.defeatConsequence ?? 'respawn',
+        combat: null,
+        defeat: null
       });
       
       console.log('Game loaded successfully');
+      return true;
     } catch (error) {
       console.error('Failed to load game:', error);
+      return false;
     }
   }
-})); 
\ No newline at end of file
+})); 
+
+// The game log and quest tracking are subscribers like any other
+subscribeGameLog(gameEvents, (text, type) => useGameStore.getState().addToGameLog(text, type));
+subscribeQuestTracking(gameEvents, event => useGameStore.getState().recordQuestEvent(event));
@@ -0,0 +1,169 @@
+import { Character, Item, Location, NPC } from '../types';
+import { formatClock, isWithinHours, MINUTES_PER_HOUR } from './clock';
+
+// Buying from and selling to merchants. Prices start from Item.value and
+// charisma moves them in the player's favour, within limits that keep the
+// sell price below the buy price. Merchants pay for what they buy out of a
+// purse of their own, which refills when they restock, and may only trade
+// during opening hours.
+
+const BUY_MARKUP = 1.3;
+const MIN_BUY_MULTIPLIER = 0.9;
+const SELL_SHARE = 0.3;
+const MAX_SELL_MULTIPLIER = 0.6;
+const CHARISMA_STEP = 0.02;
+
+export type TradeResult =
+  | { ok: true; character: Character; npc: NPC; item: Item; price: number }
+  | { ok: false; reason: string };
+
+const fail = (reason: string): TradeResult => ({ ok: false, reason });
+
+/**
+ * What a merchant charges the player for an item
+ * @param item The item for sale
+ * @param charisma The player's charisma
+ * @returns The price in gold
+ */
+export const getBuyPrice = (item: Item, charisma: number) =>
+  Math.max(1, Math.ceil(item.value * Math.max(MIN_BUY_MULTIPLIER, BUY_MARKUP - charisma * CHARISMA_STEP)));
+
+/**
+ * What a merchant pays the player for an item
+ * @param item The item being sold
+ * @param charisma The player's charisma
+ * @returns The price in gold
+ */
+export const getSellPrice = (item: Item, charisma: number) =>
+  Math.floor(item.value * Math.min(MAX_SELL_MULTIPLIER, SELL_SHARE + charisma * CHARISMA_STEP));
+
+/**
+ * Whether a merchant will take an item at all
+ * @param item The item
+ * @returns Why not, or null if it can be sold
+ */
+export const getSellBlocker = (item: Item): string | null => {
+  if (item.type === 'quest') return 'Quest items can\'t be sold.';
+  if (item.value <= 0) return 'It is worthless to a merchant.';
+  return null;
+};
+
+/**
+ * Whether a merchant is trading at this time of day
+ * @param npc The merchant
+ * @param gameTime Minutes since the world began
+ * @returns Why not, or null if the shop is open
+ */
+export const getShopBlocker = (npc: NPC, gameTime: number): string | null => {
+  const hours = npc.merchant?.hours;
+  if (!hours || isWithinHours(hours, gameTime)) return null;
+  return `${npc.name} isn't trading at this hour. Come back at ${formatClock(hours.opens * MINUTES_PER_HOUR)}.`;
+};
+
+/**
+ * Buy an item from a merchant
+ * @param character The player's character
+ * @param npc The merchant
+ * @param itemId The shop item to buy
+ * @returns The updated character and merchant, or why the trade failed
+ */
+export const buyFromMerchant = (character: Character, npc: NPC, itemId: string): TradeResult => {
+  const item = npc.shop?.find(i => i.id === itemId);
+  if (!npc.merchant || !item) return fail(`${npc.name} has no such item for sale.`);
+
+  const price = getBuyPrice(item, character.stats.charisma);
+  if (character.gold < price) return fail(`You can't afford ${item.name}.`);
+
+  return {
+    ok: true,
+    item,
+    price,
+    character: { ...character, gold: character.gold - price, inventory: [...character.inventory, item] },
+    npc: {
+      ...npc,
+      shop: npc.shop?.filter(i => i.id !== itemId),
+      merchant: { ...npc.merchant, gold: npc.merchant.gold + price }
+    }
+  };
+};
+
+/**
+ * Sell an item from the inventory to a merchant
+ * @param character The player's character
+ * @param npc The merchant
+ * @param itemId The inventory item to sell
+ * @returns The updated character and merchant, or why the trade failed
+ */
+export const sellToMerchant = (character: Character, npc: NPC, itemId: string): TradeResult => {
+  const item = character.inventory.find(i => i.id === itemId);
+  if (!npc.merchant || !item) return fail('You aren\'t carrying that.');
+
+  const blocker = getSellBlocker(item);
+  if (blocker) return fail(blocker);
+
+  const price = getSellPrice(item, character.stats.charisma);
+  if (npc.merchant.gold < price) return fail(`${npc.name} can't afford to buy ${item.name}.`);
+
+  return {
+    ok: true,
+    item,
+    price,
+    character: {
+      ...character,
+      gold: character.gold + price,
+      inventory: character.inventory.filter(i => i.id !== itemId)
+    },
+    npc: {
+      ...npc,
+      shop: [...(npc.shop ?? []), item],
+      merchant: { ...npc.merchant, gold: npc.merchant.gold - price }
+    }
+  };
+};
+
+/**
+ * Restock a merchant if enough game time has passed: sold-out lines come back
+ * and the purse refills to its usual amount
+ * @param npc The merchant
+ * @param gameHour The current game hour (see getGameHour)
+ * @param createId Makes ids for restocked items
+ * @returns The restocked merchant, or the same NPC if nothing changed
+ */
+export const restockMerchant = (npc: NPC, gameHour: number, createId: () => string): NPC => {
+  const merchant = npc.merchant;
+  if (!merchant || gameHour - merchant.lastRestockedAt < merchant.restockInterval) return npc;
+
+  const shop = npc.shop ?? [];
+  const restocked = merchant.stock
+    .filter(line => !shop.some(item => item.name === line.name))
+    .map(line => ({ ...line, id: `${line.id}-${createId()}` }));
+
+  return {
+    ...npc,
+    shop: [...shop, ...restocked],
+    merchant: {
+      ...merchant,
+      gold: Math.max(merchant.gold, merchant.baseGold),
+      lastRestockedAt: gameHour
+    }
+  };
+};
+
+/**
+ * Restock every merchant in the world that is due
+ * @param locations Every location, keyed by id
+ * @param gameHour The current game hour (see getGameHour)
+ * @param createId Makes ids for restocked items
+ * @returns The locations, with restocked merchants
+ */
+export const restockMerchants = (
+  locations: Record<string, Location>,
+  gameHour: number,
+  createId: () => string
+): Record<string, Location> =>
+  Object.fromEntries(Object.entries(locations).map(([id, location]) => [
+    id,
+    location.npcs?.some(npc => npc.merchant)
+      ? { ...location, npcs: location.npcs.map(npc => restockMerchant(npc, gameHour, createId)) }
+      : location
+  ]));
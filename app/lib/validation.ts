@@ -0,0 +1,374 @@
+import {
+  Ability,
+  Character,
+  CombatResult,
+  CombatRoundOutcome,
+  ConversationLine,
+  DefeatRecord,
+  DialogOption,
+  Enemy,
+  EnemyIntent,
+  Equipment,
+  GameLogEntry,
+  Item,
+  ItemEffect,
+  Location,
+  Quest,
+  StatusEffect,
+  StatusEffectApplication
+} from '../types';
+import { CONVERSATION_WINDOW, MAX_NPC_MEMORIES, NpcPersona } from './conversation';
+import { MAX_REQUEST_QUESTS } from './quests';
+import { WorldIndex } from './sideQuests';
+
+// Runtime guards for data that crosses the client/server boundary. The
+// narrative routes trust nothing the browser sends, so every body is checked
+// against the shapes declared in app/types before it reaches a prompt.
+// Content packs are checked against the same shapes when they load.
+
+export const MAX_TEXT_LENGTH = 4000;
+export const MAX_LOG_ENTRIES = 20;
+
+type Guard<T> = (value: unknown) => value is T;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string =>
+  typeof value === 'string' && value.length <= MAX_TEXT_LENGTH;
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isOneOf = <T extends string>(values: readonly T[]) =>
+  (value: unknown): value is T => typeof value === 'string' && (values as readonly string[]).includes(value);
+
+const isArrayOf = <T>(guard: Guard<T>, maxLength = 100) =>
+  (value: unknown): value is T[] =>
+    Array.isArray(value) && value.length <= maxLength && value.every(guard);
+
+const isOptional = <T>(guard: Guard<T>) =>
+  (value: unknown): value is T | undefined => value === undefined || guard(value);
+
+const hasNumbers = (value: unknown, keys: string[]) =>
+  isObject(value) && keys.every(key => isNumber(value[key]));
+
+const STATUS_EFFECT_KINDS = ['poison', 'bleed', 'stun', 'weakness', 'blessing', 'regeneration'] as const;
+
+export const isStatusEffect = (value: unknown): value is StatusEffect =>
+  isObject(value) &&
+  isOneOf(STATUS_EFFECT_KINDS)(value.kind) &&
+  hasNumbers(value, ['duration', 'potency', 'stacks']) &&
+  isOptional(isString)(value.source);
+
+const isStatusEffectApplication = (value: unknown): value is StatusEffectApplication =>
+  isObject(value) &&
+  isOneOf(STATUS_EFFECT_KINDS)(value.kind) &&
+  hasNumbers(value, ['duration', 'potency']) &&
+  isOptional(isNumber)(value.chance);
+
+export const isAbility = (value: unknown): value is Ability =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isString(value.description) &&
+  isOptional(isNumber)(value.damage) &&
+  isOptional(isNumber)(value.healing) &&
+  isNumber(value.manaCost) &&
+  isNumber(value.cooldown) &&
+  isBoolean(value.aoe) &&
+  isOneOf(['attack', 'heal', 'buff', 'debuff', 'utility'] as const)(value.type) &&
+  isOptional(isStatusEffectApplication)(value.statusEffect) &&
+  isOptional(isNumber)(value.useBelow) &&
+  isOptional(isString)(value.telegraph);
+
+const EQUIPMENT_SLOTS = ['mainHand', 'offHand', 'armor', 'trinket', 'relic'] as const;
+
+const isItemEffect = (value: unknown): value is ItemEffect =>
+  isObject(value) &&
+  isOneOf(['heal', 'damage', 'buff', 'debuff'] as const)(value.type) &&
+  isOneOf(['self', 'enemy', 'allies'] as const)(value.target) &&
+  isNumber(value.amount) &&
+  isOptional(isNumber)(value.duration) &&
+  isOptional(isOneOf(STATUS_EFFECT_KINDS))(value.status);
+
+export const isItem = (value: unknown): value is Item =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isString(value.description) &&
+  isOneOf(['weapon', 'armor', 'potion', 'quest', 'misc'] as const)(value.type) &&
+  isOneOf(['common', 'uncommon', 'rare', 'epic', 'legendary'] as const)(value.rarity) &&
+  isNumber(value.value) &&
+  isOptional(isArrayOf(isItemEffect, 10))(value.effects) &&
+  isBoolean(value.usable) &&
+  isOptional(isOneOf(EQUIPMENT_SLOTS))(value.slot) &&
+  (value.bonuses === undefined || (isObject(value.bonuses) && Object.values(value.bonuses).every(isNumber)));
+
+const isEquipment = (value: unknown): value is Equipment =>
+  isObject(value) &&
+  Object.entries(value).every(([slot, item]) => isOneOf(EQUIPMENT_SLOTS)(slot) && isItem(item));
+
+export const isCharacter = (value: unknown): value is Character =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isString(value.description) &&
+  isOneOf(['Warrior', 'Mage', 'Rogue', 'Cleric'] as const)(value.class) &&
+  isOneOf(['Blade of Ember', 'Staff of Whispers', 'Shadow Cloak', 'Divine Amulet'] as const)(value.relic) &&
+  hasNumbers(value, ['level', 'experience', 'health', 'maxHealth', 'mana', 'maxMana', 'gold']) &&
+  isArrayOf(isItem)(value.inventory) &&
+  hasNumbers(value.stats, ['strength', 'dexterity', 'constitution', 'intelligence', 'wisdom', 'charisma']) &&
+  isArrayOf(isAbility)(value.abilities) &&
+  isOptional(isArrayOf(isStatusEffect, 10))(value.statusEffects) &&
+  isEquipment(value.equipment);
+
+export const isEnemy = (value: unknown): value is Enemy =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isString(value.description) &&
+  hasNumbers(value, ['level', 'health', 'maxHealth', 'experience', 'gold']) &&
+  hasNumbers(value.stats, ['strength', 'dexterity', 'constitution']) &&
+  isArrayOf(isAbility)(value.abilities) &&
+  isArrayOf(isItem)(value.drops) &&
+  isOptional(isArrayOf(isStatusEffect, 10))(value.statusEffects) &&
+  isOptional(isStatusEffectApplication)(value.attackEffect) &&
+  isOptional(isArrayOf(isOneOf(['dawn', 'day', 'dusk', 'night'] as const), 4))(value.activeDuring) &&
+  isOptional(isOneOf(['aggressive', 'cautious', 'support', 'cowardly'] as const))(value.behaviour) &&
+  isOptional(isOneOf(['fled', 'surrendered'] as const))(value.withdrawn);
+
+export const isLocation = (value: unknown): value is Location =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isString(value.description) &&
+  isOptional(isString)(value.image) &&
+  isArrayOf(isString)(value.connections) &&
+  isOptional(isArrayOf(isEnemy))(value.enemies) &&
+  isOptional(isArrayOf(isItem))(value.items);
+
+export const isGameLogEntry = (value: unknown): value is GameLogEntry =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.text) &&
+  isNumber(value.timestamp) &&
+  isOneOf(['narrative', 'dialog', 'combat', 'system'] as const)(value.type);
+
+export const isQuest = (value: unknown): value is Quest =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isString(value.description) &&
+  isArrayOf((objective: unknown): objective is Quest['objectives'][number] =>
+    isObject(objective) &&
+    isString(objective.id) &&
+    isString(objective.description) &&
+    isOneOf(['kill', 'collect', 'interact', 'explore'] as const)(objective.type) &&
+    isString(objective.target) &&
+    hasNumbers(objective, ['count', 'progress']) &&
+    isBoolean(objective.isCompleted), 20)(value.objectives) &&
+  isArrayOf((reward: unknown): reward is Quest['rewards'][number] =>
+    isObject(reward) &&
+    isOneOf(['experience', 'gold', 'item'] as const)(reward.type) &&
+    isNumber(reward.amount) &&
+    isOptional(isItem)(reward.item), 10)(value.rewards) &&
+  isBoolean(value.isCompleted) &&
+  isBoolean(value.isActive);
+
+export const isCombatResult = (value: unknown): value is CombatResult =>
+  isObject(value) &&
+  hasNumbers(value, ['round', 'roll', 'defence', 'damage', 'targetHealth']) &&
+  isString(value.actorId) &&
+  isString(value.actorName) &&
+  isString(value.targetId) &&
+  isString(value.targetName) &&
+  isString(value.action) &&
+  isOptional(isString)(value.abilityId) &&
+  isOneOf(['hit', 'critical', 'miss', 'heal', 'effect', 'status', 'stunned', 'fled', 'surrendered'] as const)(value.outcome) &&
+  isOptional(isNumber)(value.healing) &&
+  isOptional(isArrayOf(isOneOf(STATUS_EFFECT_KINDS), 10))(value.appliedEffects) &&
+  isBoolean(value.defeated);
+
+const isEnemyIntent = (value: unknown): value is EnemyIntent =>
+  isObject(value) &&
+  isString(value.enemyId) &&
+  isOneOf(['attack', 'ability', 'flee', 'surrender'] as const)(value.kind) &&
+  isOptional(isString)(value.abilityId) &&
+  isString(value.targetId) &&
+  isString(value.telegraph);
+
+export const isCombatRoundOutcome = (value: unknown): value is CombatRoundOutcome =>
+  isObject(value) &&
+  isArrayOf(isCombatResult, 40)(value.results) &&
+  isOneOf(['ongoing', 'victory', 'defeat'] as const)(value.status) &&
+  hasNumbers(value, ['damageDealt', 'damageTaken']) &&
+  isArrayOf(isString, 10)(value.defeatedEnemies) &&
+  (value.rewards === null || (
+    hasNumbers(value.rewards, ['experience', 'gold']) &&
+    isArrayOf(isItem, 20)((value.rewards as Record<string, unknown>).items)
+  )) &&
+  isArrayOf(isEnemyIntent, 10)(value.intents);
+
+export const isDefeatRecord = (value: unknown): value is DefeatRecord =>
+  isObject(value) &&
+  isString(value.characterName) &&
+  isOneOf(['Warrior', 'Mage', 'Rogue', 'Cleric'] as const)(value.characterClass) &&
+  isNumber(value.level) &&
+  isString(value.killedBy) &&
+  isString(value.locationName) &&
+  isOneOf(['respawn', 'reload', 'permadeath'] as const)(value.consequence);
+
+const ATTITUDES = ['friendly', 'neutral', 'hostile'] as const;
+
+export const isNpcPersona = (value: unknown): value is NpcPersona =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isString(value.description) &&
+  isOneOf(ATTITUDES)(value.attitude) &&
+  isOptional(isArrayOf(isString, MAX_NPC_MEMORIES))(value.memory);
+
+export const isDialogOption = (value: unknown): value is DialogOption =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.text) &&
+  isArrayOf(isString, 20)(value.playerResponse) &&
+  isArrayOf((response: unknown): response is DialogOption['responses'][number] =>
+    isObject(response) &&
+    isString(response.id) &&
+    isString(response.text) &&
+    isOptional(isString)(response.condition) &&
+    isOptional(isString)(response.action), 20)(value.responses);
+
+export const isConversationLine = (value: unknown): value is ConversationLine =>
+  isObject(value) &&
+  isOneOf(['player', 'npc'] as const)(value.speaker) &&
+  isString(value.text);
+
+const isWorldEntry = (value: unknown): value is { id: string; name: string } =>
+  isObject(value) &&
+  isString(value.id) &&
+  isString(value.name);
+
+const isPlacedEntry = (value: unknown): value is { name: string; locationId: string } =>
+  isObject(value) &&
+  isString(value.name) &&
+  isString(value.locationId);
+
+export const isWorldIndex = (value: unknown): value is WorldIndex =>
+  isObject(value) &&
+  isArrayOf(isWorldEntry)(value.locations) &&
+  isArrayOf((entry: unknown): entry is WorldIndex['npcs'][number] => isWorldEntry(entry) && isPlacedEntry(entry))(value.npcs) &&
+  isArrayOf((entry: unknown): entry is WorldIndex['enemies'][number] => isWorldEntry(entry) && isPlacedEntry(entry))(value.enemies) &&
+  isArrayOf(isPlacedEntry)(value.items);
+
+// Request body guards for the /api/narrative routes
+
+export interface NarrativeRequestBody {
+  context: {
+    character: Character;
+    currentLocation: Location;
+    gameLog: GameLogEntry[];
+    quests?: Quest[];
+    inCombat?: boolean;
+    gameTime?: number;
+  };
+  playerAction?: string;
+}
+
+export interface CharacterDescriptionRequestBody {
+  userDescription: string;
+  characterClass: Character['class'];
+}
+
+export interface CombatNarrativeRequestBody {
+  character: Character;
+  enemies: Enemy[];
+  outcome: CombatRoundOutcome;
+}
+
+export interface ConversationRequestBody {
+  character: Character;
+  npc: NpcPersona;
+  locationName: string;
+  transcript: ConversationLine[];
+  message: string;
+}
+
+export interface LocationRequestBody {
+  character: Character;
+  origin: Location;
+  neighbours: Location[];
+  knownNames: string[];
+  destination: string;
+}
+
+export interface SideQuestRequestBody {
+  character: Character;
+  currentLocation: Location;
+  world: WorldIndex;
+  quests: Quest[];
+  gameLog: GameLogEntry[];
+}
+
+export interface EpitaphRequestBody {
+  character: Character;
+  defeat: DefeatRecord;
+}
+
+export const isNarrativeRequestBody = (value: unknown): value is NarrativeRequestBody =>
+  isObject(value) &&
+  isObject(value.context) &&
+  isCharacter(value.context.character) &&
+  isLocation(value.context.currentLocation) &&
+  isArrayOf(isGameLogEntry, MAX_LOG_ENTRIES)(value.context.gameLog) &&
+  isOptional(isArrayOf(isQuest, MAX_REQUEST_QUESTS))(value.context.quests) &&
+  isOptional(isBoolean)(value.context.inCombat) &&
+  isOptional(isNumber)(value.context.gameTime) &&
+  isOptional(isString)(value.playerAction);
+
+export const isCharacterDescriptionRequestBody = (value: unknown): value is CharacterDescriptionRequestBody =>
+  isObject(value) &&
+  isString(value.userDescription) &&
+  value.userDescription.trim().length > 0 &&
+  isOneOf(['Warrior', 'Mage', 'Rogue', 'Cleric'] as const)(value.characterClass);
+
+export const isCombatNarrativeRequestBody = (value: unknown): value is CombatNarrativeRequestBody =>
+  isObject(value) &&
+  isCharacter(value.character) &&
+  isArrayOf(isEnemy, 10)(value.enemies) &&
+  isCombatRoundOutcome(value.outcome);
+
+export const isEpitaphRequestBody = (value: unknown): value is EpitaphRequestBody =>
+  isObject(value) &&
+  isCharacter(value.character) &&
+  isDefeatRecord(value.defeat);
+
+export const isConversationRequestBody = (value: unknown): value is ConversationRequestBody =>
+  isObject(value) &&
+  isCharacter(value.character) &&
+  isNpcPersona(value.npc) &&
+  isString(value.locationName) &&
+  isArrayOf(isConversationLine, CONVERSATION_WINDOW)(value.transcript) &&
+  isString(value.message) &&
+  value.message.trim().length > 0;
+
+export const isSideQuestRequestBody = (value: unknown): value is SideQuestRequestBody =>
+  isObject(value) &&
+  isCharacter(value.character) &&
+  isLocation(value.currentLocation) &&
+  isWorldIndex(value.world) &&
+  isArrayOf(isQuest, MAX_REQUEST_QUESTS)(value.quests) &&
+  isArrayOf(isGameLogEntry, MAX_LOG_ENTRIES)(value.gameLog);
+
+export const isLocationRequestBody = (value: unknown): value is LocationRequestBody =>
+  isObject(value) &&
+  isCharacter(value.character) &&
+  isLocation(value.origin) &&
+  isArrayOf(isLocation, 10)(value.neighbours) &&
+  isArrayOf(isString, 200)(value.knownNames) &&
+  isString(value.destination) &&
+  value.destination.trim().length > 0;
@@ -0,0 +1,192 @@
+import { Character, Item, Location, LocationDraft } from '../types';
+import { createEnemyFromCall, createItemFromCall, DM_TOOL_LIMITS, RARITY_LEVELS } from './dmTools';
+
+// The world grows as the player explores. When they head somewhere beyond the
+// known paths, the narrator proposes a location from its neighbours; this
+// module checks the proposal and builds the Location. The model only names
+// and describes things: enemy strength, item worth and how many locations may
+// exist are decided here, from the player's level and how far the new place
+// lies from the village. Generated locations join the locations record, so
+// they are saved with it and look the same on every visit.
+
+export const WORLD_LIMITS = {
+  // Generated locations allowed per character level, and overall
+  locationsPerLevel: 4,
+  maxGeneratedLocations: 40,
+  maxConnections: 4,
+  maxEnemies: 2,
+  maxItems: 2,
+  maxNameLength: 60,
+  maxDescriptionLength: 600,
+  // Steps from the village per enemy level gained beyond the player's own
+  depthPerEnemyLevel: 3
+};
+
+// Base worth of a generated item, before the per-level cap
+const RARITY_VALUES: Record<Item['rarity'], number> = {
+  common: 10,
+  uncommon: 25,
+  rare: 60,
+  epic: 150,
+  legendary: 400
+};
+
+/**
+ * Shortest number of steps from where the campaign starts to a location
+ * @param locations Every known location
+ * @param locationId The location
+ * @param homeId Where the campaign starts
+ * @returns The distance, or 0 if it can't be reached
+ */
+export const getLocationDepth = (locations: Record<string, Location>, locationId: string, homeId: string) => {
+  const depths: Record<string, number> = { [homeId]: 0 };
+  const queue = [homeId];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (id === locationId) return depths[id];
+    (locations[id]?.connections ?? []).forEach(next => {
+      if (depths[next] === undefined) {
+        depths[next] = depths[id] + 1;
+        queue.push(next);
+      }
+    });
+  }
+  return 0;
+};
+
+/**
+ * Why the world can't grow from a location right now, if it can't
+ * @param locations Every known location
+ * @param origin Where the player is heading out from
+ * @param level The player's level
+ * @returns The reason, or null if a new location may be generated
+ */
+export const getExpansionBlocker = (locations: Record<string, Location>, origin: Location, level: number): string | null => {
+  const generated = Object.values(locations).filter(location => location.generated).length;
+  const allowed = Math.min(WORLD_LIMITS.maxGeneratedLocations, WORLD_LIMITS.locationsPerLevel * level);
+  if (generated >= allowed) {
+    return 'The land beyond is trackless and strange. You will need more experience before you can find your way through it.';
+  }
+  if (origin.connections.length >= WORLD_LIMITS.maxConnections) {
+    return `Every path from ${origin.name} is already known.`;
+  }
+  return null;
+};
+
+/**
+ * Check a proposed location against the world around it
+ * @param draft The proposal
+ * @param origin Where the player heads out from
+ * @param neighbours The locations the origin connects to
+ * @param knownNames The name of every known location
+ * @returns Problems with the draft; empty if it is valid
+ */
+export const validateLocationDraft = (
+  draft: LocationDraft,
+  origin: Location,
+  neighbours: Location[],
+  knownNames: string[]
+): string[] => {
+  const problems: string[] = [];
+  const limits = WORLD_LIMITS;
+  const name = draft.name.trim().toLowerCase();
+
+  if (!name || draft.name.length > limits.maxNameLength) {
+    problems.push(`The location name must be 1-${limits.maxNameLength} characters.`);
+  }
+  if (knownNames.some(known => known.trim().toLowerCase() === name)) {
+    problems.push(`A location called "${draft.name}" already exists; choose a new name.`);
+  }
+  if (!draft.description.trim() || draft.description.length > limits.maxDescriptionLength) {
+    problems.push(`The location description must be 1-${limits.maxDescriptionLength} characters.`);
+  }
+  if (draft.enemies.length > limits.maxEnemies) {
+    problems.push(`A location may have at most ${limits.maxEnemies} enemies.`);
+  }
+  if (draft.items.length > limits.maxItems) {
+    problems.push(`A location may have at most ${limits.maxItems} items.`);
+  }
+  [...draft.enemies, ...draft.items].forEach(thing => {
+    if (!thing.name.trim()) problems.push('Every enemy and item needs a name.');
+  });
+
+  // Extra paths may only lead to the origin's neighbours, and only those with room
+  (draft.alsoConnectsTo ?? []).forEach(id => {
+    const neighbour = neighbours.find(location => location.id === id);
+    if (!neighbour || !origin.connections.includes(id)) {
+      problems.push(`"${id}" is not a location next to ${origin.name}.`);
+    } else if (neighbour.connections.length >= limits.maxConnections) {
+      problems.push(`${neighbour.name} has no room for another path.`);
+    }
+  });
+
+  return problems;
+};
+
+// A readable id from the name that no other location uses
+const createLocationId = (name: string, locations: Record<string, Location>) => {
+  const base = name.toLowerCase().replace(/^the\s+/, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'wilds';
+  let id = base;
+  for (let n = 2; locations[id]; n++) id = `${base}-${n}`;
+  return id;
+};
+
+/**
+ * Build a new location from a validated draft
+ * @param draft A draft that passed validateLocationDraft
+ * @param origin Where the player heads out from
+ * @param locations Every known location
+ * @param homeId Where the campaign starts, which depth is measured from
+ * @param character The player's character
+ * @param createId Creates ids for enemies and items
+ * @returns The locations with the new one added and linked both ways, and its id
+ */
+export const createLocationFromDraft = (
+  draft: LocationDraft,
+  origin: Location,
+  locations: Record<string, Location>,
+  homeId: string,
+  character: Character,
+  createId: () => string
+): { locations: Record<string, Location>; locationId: string } => {
+  const id = createLocationId(draft.name, locations);
+  const neighbours = [origin.id, ...(draft.alsoConnectsTo ?? []).filter(neighbour => neighbour !== origin.id)];
+
+  // Deeper places hold tougher enemies, but never far beyond the player
+  const depth = getLocationDepth(locations, origin.id, homeId) + 1;
+  const enemyLevel = Math.min(
+    character.level + DM_TOOL_LIMITS.enemyLevelsAbovePlayer,
+    Math.max(1, character.level - 1 + Math.floor(depth / WORLD_LIMITS.depthPerEnemyLevel))
+  );
+  const valueCap = character.level * DM_TOOL_LIMITS.itemValuePerLevel;
+
+  const location: Location = {
+    id,
+    name: draft.name.trim(),
+    description: draft.description.trim(),
+    connections: neighbours,
+    enemies: draft.enemies.map(enemy =>
+      createEnemyFromCall({ enemyName: enemy.name.trim(), description: enemy.description, level: enemyLevel }, createId())
+    ),
+    items: draft.items.map(item => {
+      // Rarities the player hasn't reached yet are toned down to common
+      const rarity = RARITY_LEVELS[item.rarity] <= character.level ? item.rarity : 'common';
+      return createItemFromCall({
+        name: item.name.trim(),
+        description: item.description,
+        type: item.type,
+        rarity,
+        value: Math.min(valueCap, RARITY_VALUES[rarity]),
+        healAmount: item.type === 'potion' ? Math.ceil(character.level * DM_TOOL_LIMITS.healPerLevel / 2) : undefined
+      }, createId());
+    }),
+    generated: true
+  };
+
+  const linked = Object.fromEntries(neighbours.map(neighbour => [
+    neighbour,
+    { ...locations[neighbour], connections: [...locations[neighbour].connections, id] }
+  ]));
+
+  return { locations: { ...locations, ...linked, [id]: location }, locationId: id };
+};
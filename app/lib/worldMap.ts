@@ -0,0 +1,134 @@
+import { Location } from '../types';
+
+// The map the player has uncovered. Visited locations are drawn in full;
+// unvisited ones next to them show as unknown, without name or threats; the
+// rest of the world stays hidden. Positions come from the uncovered part of
+// the connections graph only, so the layout gives nothing away either.
+
+export const MAP_LAYOUT = {
+  columnWidth: 120,
+  rowHeight: 70,
+  margin: 40
+};
+
+export interface MapNode {
+  id: string;
+  // Null for unknown locations
+  name: string | null;
+  status: 'visited' | 'unknown';
+  isCurrent: boolean;
+  // One step from the player, so it can be travelled to
+  isAdjacent: boolean;
+  // Enemies were there when the player last saw it
+  hasThreats: boolean;
+  x: number;
+  y: number;
+}
+
+export interface MapEdge {
+  from: string;
+  to: string;
+}
+
+export interface WorldMapView {
+  nodes: MapNode[];
+  edges: MapEdge[];
+  width: number;
+  height: number;
+}
+
+// Columns by distance from the root. Within a column, nodes sit near the
+// average row of the neighbours already placed, which keeps crossings down.
+const layoutColumns = (root: string, shown: Set<string>, locations: Record<string, Location>) => {
+  const depth: Record<string, number> = { [root]: 0 };
+  const order = [root];
+  for (let i = 0; i < order.length; i++) {
+    (locations[order[i]]?.connections ?? []).forEach(next => {
+      if (shown.has(next) && depth[next] === undefined) {
+        depth[next] = depth[order[i]] + 1;
+        order.push(next);
+      }
+    });
+  }
+  // Anything cut off from the root goes in a column of its own at the end
+  const lastColumn = Math.max(...Object.values(depth)) + 1;
+  shown.forEach(id => {
+    if (depth[id] === undefined) {
+      depth[id] = lastColumn;
+      order.push(id);
+    }
+  });
+
+  const columns: string[][] = [];
+  const rows: Record<string, number> = {};
+  order.forEach(id => {
+    (columns[depth[id]] ??= []).push(id);
+  });
+  columns.forEach(column => {
+    const wanted = (id: string) => {
+      const placed = (locations[id]?.connections ?? []).filter(next => rows[next] !== undefined);
+      return placed.length > 0 ? placed.reduce((sum, next) => sum + rows[next], 0) / placed.length : 0;
+    };
+    column.sort((a, b) => wanted(a) - wanted(b)).forEach((id, row) => {
+      rows[id] = row;
+    });
+  });
+  return { depth, rows, columns };
+};
+
+/**
+ * What the player knows of the world, laid out for drawing
+ * @param locations Every location
+ * @param visitedLocations Ids of the locations the player has been to
+ * @param currentLocationId Where the player is
+ * @returns The nodes and paths to draw, and the size they need
+ */
+export const buildWorldMap = (
+  locations: Record<string, Location>,
+  visitedLocations: string[],
+  currentLocationId: string | null
+): WorldMapView => {
+  const visited = new Set(visitedLocations.filter(id => locations[id]));
+  if (currentLocationId && locations[currentLocationId]) visited.add(currentLocationId);
+
+  const shown = new Set(visited);
+  visited.forEach(id => locations[id].connections.forEach(next => {
+    if (locations[next]) shown.add(next);
+  }));
+  if (shown.size === 0) return { nodes: [], edges: [], width: 0, height: 0 };
+
+  // Paths are only known from the end the player has stood at
+  const edges: MapEdge[] = [];
+  visited.forEach(id => locations[id].connections.forEach(next => {
+    if (shown.has(next) && !(visited.has(next) && next < id)) edges.push({ from: id, to: next });
+  }));
+
+  const root = visitedLocations.find(id => visited.has(id)) ?? (currentLocationId as string);
+  const { depth, rows, columns } = layoutColumns(root, shown, locations);
+  const tallest = Math.max(...columns.map(column => column.length));
+  const { columnWidth, rowHeight, margin } = MAP_LAYOUT;
+  const adjacent = new Set(currentLocationId ? locations[currentLocationId]?.connections ?? [] : []);
+
+  const nodes = [...shown].map((id): MapNode => {
+    const isVisited = visited.has(id);
+    // Shorter columns are centred against the tallest
+    const offset = (tallest - columns[depth[id]].length) / 2;
+    return {
+      id,
+      name: isVisited ? locations[id].name : null,
+      status: isVisited ? 'visited' : 'unknown',
+      isCurrent: id === currentLocationId,
+      isAdjacent: adjacent.has(id),
+      hasThreats: isVisited && (locations[id].enemies?.length ?? 0) > 0,
+      x: margin + depth[id] * columnWidth,
+      y: margin + (rows[id] + offset) * rowHeight
+    };
+  });
+
+  return {
+    nodes,
+    edges,
+    width: margin * 2 + (columns.length - 1) * columnWidth,
+    height: margin * 2 + (tallest - 1) * rowHeight
+  };
+};
@@ -3,10 +3,11 @@
 import React, { useState, useEffect } from 'react';
 import CharacterCreation from './components/CharacterCreation';
 import GameInterface from './components/GameInterface';
+import DeathScreen from './components/DeathScreen';
 import { useGameStore } from './lib/store';
 
 export default function Home() {
-  const { character } = useGameStore();
+  const { character, defeat } = useGameStore();
   const [isClient, setIsClient] = useState(false);
 
   // This effect is used to prevent hydration mismatch
@@ -19,10 +20,11 @@ export default function Home() {
     return null;
   }
 
-  // Show character creation if no character exists, otherwise show game interface
+  // Show character creation if no character exists, the death screen while the
+  // player is dead, otherwise the game interface
   return (
     <div className="min-h-screen bg-gray-900">
-      {!character ? <CharacterCreation /> : <GameInterface />}
+      {!character ? <CharacterCreation /> : defeat ? <DeathScreen /> : <GameInterface />}
     </div>
   );
 }
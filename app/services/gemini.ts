@@ -1,55 +1,119 @@
 'use client';
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { 
-  Character, 
-  Enemy, 
-  Location, 
-  GameLogEntry, 
+import {
+  Character,
+  Enemy,
+  Location,
+  GameLogEntry,
   NarrativeResponse,
-  CharacterDescriptionResponse 
+  NarrativeStreamEvent,
+  CharacterDescriptionResponse,
+  CombatRoundOutcome,
+  ConversationLine,
+  ConversationResponse,
+  DefeatRecord,
+  DungeonMasterCall,
+  EpitaphResponse,
+  LocationDraft,
+  Quest,
+  SideQuestDraft
 } from '../types';
+import { NarrativeError } from '../lib/errors';
+import { getConversationWindow, NpcPersona } from '../lib/conversation';
+import { WorldIndex } from '../lib/sideQuests';
 
-// Initialize the Gemini API Client
-// Note: You would normally store this in an environment variable
-const API_KEY = process.env.NEXT_PUBLIC_GEMINI_API_KEY || 'YOUR_API_KEY_HERE';
-const genAI = new GoogleGenerativeAI(API_KEY);
-const model = genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+// Client-side wrappers around the /api/narrative routes. The Gemini key stays
+// on the server; these functions only post game context and read the result.
+// Every failure is thrown as a NarrativeError.
 
-// Context building for the AI
-const getGameSystemPrompt = () => {
-  return `You are the AI Dungeon Master for a dark fantasy RPG game. The setting is a grim, medieval world where magic exists but is feared, monsters lurk in the shadows, and humanity struggles to survive in isolated settlements. The tone is mature, atmospheric, and foreboding - similar to Dark Souls, The Witcher, or Darkest Dungeon.
+export interface StreamOptions {
+  // Called with the full text received so far each time a chunk arrives
+  onText: (text: string) => void;
+  signal?: AbortSignal;
+}
 
-Your task is to generate narrative text for the game based on the player's character, current location, and recent game history. Generate descriptions that are vivid, immersive, and maintain the dark atmosphere of the game world.
+export interface StreamedNarrative {
+  text: string;
+  // Dungeon Master tool calls the server accepted, to apply once the stream ends
+  calls: DungeonMasterCall[];
+}
 
-The narrative should be written in second-person perspective, addressing the player directly as "you". Keep descriptions concise but evocative, between 2-4 paragraphs. Include sensory details and environmental elements that enhance the atmosphere.
+const cancelledError = () => new NarrativeError('cancelled', 'Narration was cancelled.');
 
-Format your response as JSON with the following structure:
-{
-  "text": "The narrative text describing the current situation, location, or event",
-  "imagePrompt": "A prompt that could be used to generate an image representing the current scene"
-}`;
+const fetchNarrative = async (path: string, body: unknown, signal?: AbortSignal) => {
+  let response: Response;
+  try {
+    response = await fetch(`/api/narrative${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch {
+    if (signal?.aborted) throw cancelledError();
+    throw new NarrativeError('network', 'Could not reach the narrative service.');
+  }
+
+  if (!response.ok) {
+    const payload = await response.json().catch(() => null);
+    const error = payload?.error;
+    throw error?.code
+      ? new NarrativeError(error.code, error.message, error.details)
+      : new NarrativeError('provider_unavailable', `Narrative request failed with status ${response.status}`);
+  }
+
+  return response;
 };
 
-// Character description system prompt
-const getCharacterDescriptionPrompt = () => {
-  return `You are an AI creating rich character profiles for a dark fantasy RPG game. The setting is a grim, medieval world where magic exists but is feared, monsters lurk in the shadows, and humanity struggles to survive.
+const postNarrativeRequest = async <T>(path: string, body: unknown): Promise<T> => {
+  const response = await fetchNarrative(path, body);
+  return response.json();
+};
+
+// The stream is newline-delimited JSON, one NarrativeStreamEvent per line
+const streamNarrativeRequest = async (path: string, body: unknown, options: StreamOptions): Promise<StreamedNarrative> => {
+  const response = await fetchNarrative(path, body, options.signal);
+  if (!response.body) {
+    throw new NarrativeError('provider_unavailable', 'The narration stream was empty.');
+  }
 
-Your task is to generate an expanded character description based on the player's brief input about their character. The character belongs to one of four classes: Warrior, Mage, Rogue, or Cleric.
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  const result: StreamedNarrative = { text: '', calls: [] };
+  let buffer = '';
 
-Enhance the player's description with:
-1. Physical details (appearance, distinctive features, how they carry themselves)
-2. Personality traits (reflecting their background and class)
-3. A hint of backstory that fits the dark fantasy setting
-4. How others in the world might perceive them
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    let event: NarrativeStreamEvent;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      throw new NarrativeError('malformed_output', 'The narration stream contained an unreadable event.');
+    }
+    if (event.type === 'text') {
+      result.text += event.text;
+      options.onText(result.text);
+    } else if (event.type === 'call') {
+      result.calls.push(event.call);
+    }
+  };
 
-Keep the tone mature, atmospheric, and fitting the dark fantasy genre. The description should be in third-person, about 2-3 paragraphs long.
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+  } catch (error) {
+    if (error instanceof NarrativeError) throw error;
+    if (options.signal?.aborted) throw cancelledError();
+    throw new NarrativeError('provider_unavailable', 'The narration stream was interrupted.');
+  }
 
-Format your response as JSON with the following structure:
-{
-  "text": "The expanded character description",
-  "imagePrompt": "A detailed prompt that could be used to generate a portrait of this character"
-}`;
+  return result;
 };
 
 /**
@@ -63,65 +127,11 @@ export const generateNarrative = async (
     character: Character;
     currentLocation: Location;
     gameLog: GameLogEntry[];
+    gameTime?: number;
   },
   playerAction?: string
 ): Promise<NarrativeResponse> => {
-  try {
-    // Build the character context
-    const characterContext = `CHARACTER INFO:
-Name: ${context.character.name}
-Class: ${context.character.class}
-Description: ${context.character.description}
-Level: ${context.character.level}
-HP: ${context.character.health}/${context.character.maxHealth}
-Relic: ${context.character.relic}`;
-
-    // Build the location context
-    const locationContext = `CURRENT LOCATION:
-Name: ${context.currentLocation.name}
-Description: ${context.currentLocation.description}
-Connected to: ${context.currentLocation.connections.join(', ')}`;
-
-    // Build the recent game history
-    const recentHistory = context.gameLog
-      .map((entry) => `[${entry.type.toUpperCase()}] ${entry.text}`)
-      .join('\n');
-
-    const gameHistoryContext = `RECENT GAME HISTORY:
-${recentHistory || 'No recent history.'}`;
-
-    // Build the player action context if provided
-    const actionContext = playerAction ? 
-      `PLAYER ACTION: ${playerAction}` : 
-      'SCENE DESCRIPTION NEEDED: Describe what the player sees upon arriving at this location.';
-
-    // Combine all contexts
-    const fullContext = `${characterContext}\n\n${locationContext}\n\n${gameHistoryContext}\n\n${actionContext}`;
-
-    // Get the response from Gemini
-    const result = await model.generateContent(getGameSystemPrompt() + '\n\n' + fullContext);
-    const response = result.response.text();
-
-    // Parse the response as JSON
-    try {
-      const parsedResponse = JSON.parse(response);
-      return {
-        text: parsedResponse.text,
-        imagePrompt: parsedResponse.imagePrompt,
-      };
-    } catch (error) {
-      // If response isn't valid JSON, return the raw text
-      console.error('Failed to parse Gemini response as JSON:', error);
-      return {
-        text: response,
-      };
-    }
-  } catch (error) {
-    console.error('Error generating narrative:', error);
-    return {
-      text: 'The shadows deepen around you as you continue your journey. [Error: The Dungeon Master is momentarily unavailable.]',
-    };
-  }
+  return postNarrativeRequest<NarrativeResponse>('', { context, playerAction });
 };
 
 /**
@@ -134,93 +144,135 @@ export const generateCharacterDescription = async (
   userDescription: string,
   characterClass: string
 ): Promise<CharacterDescriptionResponse> => {
-  try {
-    // Build the context
-    const context = `USER'S CHARACTER DESCRIPTION: "${userDescription}"
-CHARACTER CLASS: ${characterClass}
-
-Please generate an expanded character description and an image prompt for this character.`;
-
-    // Get the response from Gemini
-    const result = await model.generateContent(getCharacterDescriptionPrompt() + '\n\n' + context);
-    const response = result.response.text();
-
-    // Parse the response as JSON
-    try {
-      const parsedResponse = JSON.parse(response);
-      return {
-        text: parsedResponse.text,
-        imagePrompt: parsedResponse.imagePrompt,
-      };
-    } catch (error) {
-      // If response isn't valid JSON, return the raw text
-      console.error('Failed to parse Gemini response as JSON:', error);
-      return {
-        text: response,
-      };
-    }
-  } catch (error) {
-    console.error('Error generating character description:', error);
-    return {
-      text: 'A mysterious figure shrouded in shadow, their true nature yet to be revealed. [Error: Description generation failed.]',
-    };
-  }
+  return postNarrativeRequest<CharacterDescriptionResponse>('/character', { userDescription, characterClass });
 };
 
 /**
- * Generate a narrative for a combat encounter
+ * Generate a narrative for a round of combat
  * @param character The player's character
  * @param enemies The enemies involved in the combat
- * @param playerAction The action the player took
- * @param result The result of the action
+ * @param outcome What the combat engine resolved this round
  * @returns A narrative response with text and image prompt
  */
 export const generateCombatNarrative = async (
   character: Character,
   enemies: Enemy[],
-  playerAction: string,
-  result: string
+  outcome: CombatRoundOutcome
 ): Promise<NarrativeResponse> => {
-  try {
-    // Build the combat context
-    const characterContext = `CHARACTER:
-Name: ${character.name}
-Class: ${character.class}
-Weapon/Relic: ${character.relic}
-HP: ${character.health}/${character.maxHealth}`;
+  return postNarrativeRequest<NarrativeResponse>('/combat', { character, enemies, outcome });
+};
+
+/**
+ * Generate the epitaph for a fallen character
+ * @param character The fallen character
+ * @param defeat How and where they died
+ * @returns The epitaph text
+ */
+export const generateEpitaph = async (
+  character: Character,
+  defeat: DefeatRecord
+): Promise<EpitaphResponse> => {
+  return postNarrativeRequest<EpitaphResponse>('/epitaph', { character, defeat });
+};
 
-    const enemiesContext = `ENEMIES:
-${enemies.map((enemy) => `${enemy.name} (HP: ${enemy.health}/${enemy.maxHealth})`).join('\n')}`;
+/**
+ * Have an NPC answer the player in a free-form conversation
+ * @param character The player's character
+ * @param npc The NPC being spoken to, with their memories of the player
+ * @param locationName Where the conversation takes place
+ * @param transcript Every line of this conversation so far
+ * @param message What the player just said
+ * @returns The NPC's reply and how the exchange changed them
+ */
+export const generateConversation = async (
+  character: Character,
+  npc: NpcPersona,
+  locationName: string,
+  transcript: ConversationLine[],
+  message: string
+): Promise<ConversationResponse> => {
+  return postNarrativeRequest<ConversationResponse>('/conversation', {
+    character,
+    npc,
+    locationName,
+    transcript: getConversationWindow(transcript),
+    message
+  });
+};
 
-    const combatContext = `COMBAT SITUATION:
-Player Action: ${playerAction}
-Result: ${result}`;
+/**
+ * Ask the Dungeon Master to chart a new location beyond the known paths
+ * @param character The player's character
+ * @param origin Where the player heads out from
+ * @param neighbours The locations the origin connects to
+ * @param knownNames The name of every known location
+ * @param destination Where the player said they were going
+ * @returns A draft checked on the server; the store checks it again before building it
+ */
+export const generateLocation = async (
+  character: Character,
+  origin: Location,
+  neighbours: Location[],
+  knownNames: string[],
+  destination: string
+): Promise<LocationDraft> => {
+  return postNarrativeRequest<LocationDraft>('/location', { character, origin, neighbours, knownNames, destination });
+};
 
-    // Combine contexts
-    const fullContext = `${characterContext}\n\n${enemiesContext}\n\n${combatContext}\n\nGenerate a vivid, exciting combat narrative describing this moment in the battle. Focus on the action and maintain the dark fantasy atmosphere.`;
+/**
+ * Ask the Dungeon Master for a side quest
+ * @param character The player's character
+ * @param currentLocation Where the player is
+ * @param world Everything the quest may refer to
+ * @param quests The player's quests
+ * @param gameLog Recent game history
+ * @returns A draft checked against the world on the server; check it again before offering it
+ */
+export const generateSideQuest = async (
+  character: Character,
+  currentLocation: Location,
+  world: WorldIndex,
+  quests: Quest[],
+  gameLog: GameLogEntry[]
+): Promise<SideQuestDraft> => {
+  return postNarrativeRequest<SideQuestDraft>('/side-quest', { character, currentLocation, world, quests, gameLog });
+};
 
-    // Get the response from Gemini
-    const response = await model.generateContent(getGameSystemPrompt() + '\n\n' + fullContext);
-    const responseText = response.response.text();
+/**
+ * Stream a narrative based on game context, reporting text as it arrives
+ * @param context The current game context (character, location, quests, etc.)
+ * @param playerAction Optional player action that triggered this narrative
+ * @param options Progress callback and abort signal
+ * @returns The complete narrative text and any accepted tool calls
+ */
+export const streamNarrative = async (
+  context: {
+    character: Character;
+    currentLocation: Location;
+    gameLog: GameLogEntry[];
+    quests: Quest[];
+    inCombat: boolean;
+    gameTime: number;
+  },
+  playerAction: string | undefined,
+  options: StreamOptions
+): Promise<StreamedNarrative> => {
+  return streamNarrativeRequest('/stream', { context, playerAction }, options);
+};
 
-    // Parse the response as JSON
-    try {
-      const parsedResponse = JSON.parse(responseText);
-      return {
-        text: parsedResponse.text,
-        imagePrompt: parsedResponse.imagePrompt,
-      };
-    } catch (error) {
-      // If response isn't valid JSON, return the raw text
-      console.error('Failed to parse Gemini response as JSON:', error);
-      return {
-        text: responseText,
-      };
-    }
-  } catch (error) {
-    console.error('Error generating combat narrative:', error);
-    return {
-      text: 'The clash of steel and the snarls of your enemy fill the air as combat rages on. [Error: Combat narration failed.]',
-    };
-  }
-}; 
\ No newline at end of file
+/**
+ * Stream the narrative for a round of combat, reporting text as it arrives
+ * @param character The player's character
+ * @param enemies The enemies involved in the combat
+ * @param outcome What the combat engine resolved this round
+ * @param options Progress callback and abort signal
+ * @returns The complete narrative text once the stream finishes
+ */
+export const streamCombatNarrative = async (
+  character: Character,
+  enemies: Enemy[],
+  outcome: CombatRoundOutcome,
+  options: StreamOptions
+): Promise<StreamedNarrative> => {
+  return streamNarrativeRequest('/combat/stream', { character, enemies, outcome }, options);
+};
@@ -0,0 +1,586 @@
+import { 
+  Character, 
+  CombatRoundOutcome,
+  Enemy, 
+  Location, 
+  GameLogEntry, 
+  NarrativeResponse,
+  NarrativeStreamEvent,
+  CharacterDescriptionResponse,
+  ConversationLine,
+  ConversationResponse,
+  DefeatRecord,
+  DungeonMasterCall,
+  EpitaphResponse,
+  LocationDraft,
+  Quest,
+  SideQuestDraft
+} from '../types';
+import { describeCombatRound } from '../lib/combat';
+import { createToolTurnValidator, DM_TOOLS } from '../lib/dmTools';
+import { describeEquipment } from '../lib/equipment';
+import { describeCondition } from '../lib/statusEffects';
+import { describeGameTime, getActiveEnemies } from '../lib/clock';
+import { NpcPersona } from '../lib/conversation';
+import { SIDE_QUEST_LIMITS, validateSideQuestDraft, WorldIndex } from '../lib/sideQuests';
+import { validateLocationDraft, WORLD_LIMITS } from '../lib/worldGen';
+import {
+  CharacterDescriptionResponseSchema,
+  ConversationResponseSchema,
+  EpitaphResponseSchema,
+  LocationDraftSchema,
+  NarrativeResponseSchema,
+  SideQuestDraftSchema
+} from './schemas';
+import { generateStructured } from './structured';
+import { getNarrativeProvider, ToolSession } from './providers';
+
+// Server-side narrative generation. This module only runs inside the
+// /api/narrative route handlers, so provider keys never reach the browser.
+// The backing model is chosen by NARRATIVE_PROVIDER (see ./providers).
+// Failures are thrown as NarrativeError so the routes can report them.
+
+// Context building for the AI
+// Streaming responses are plain prose so the text can be shown as it arrives
+const getGameSystemPrompt = (format: 'json' | 'prose' = 'json', withTools = false) => {
+  const formatInstructions = format === 'json'
+    ? `Format your response as JSON with the following structure:
+{
+  "text": "The narrative text describing the current situation, location, or event",
+  "imagePrompt": "A prompt that could be used to generate an image representing the current scene"
+}`
+    : 'Respond with the narrative text only, as plain prose. Do not use JSON, markdown, headings or any preamble.';
+
+  const toolInstructions = withTools
+    ? `
+
+You can change the game world with the functions you have been given: giving the player items they find, starting fights when enemies attack, rewarding experience, moving the player, and advancing quests. Call a function only when your narration clearly requires the change, and use ids exactly as they appear in the context. If a call is rejected, do not describe that change happening; narrate around it so the story matches the real game state.`
+    : '';
+
+  return `You are the AI Dungeon Master for a dark fantasy RPG game. The setting is a grim, medieval world where magic exists but is feared, monsters lurk in the shadows, and humanity struggles to survive in isolated settlements. The tone is mature, atmospheric, and foreboding - similar to Dark Souls, The Witcher, or Darkest Dungeon.
+
+Your task is to generate narrative text for the game based on the player's character, current location, and recent game history. Generate descriptions that are vivid, immersive, and maintain the dark atmosphere of the game world.
+
+The narrative should be written in second-person perspective, addressing the player directly as "you". Keep descriptions concise but evocative, between 2-4 paragraphs. Include sensory details and environmental elements that enhance the atmosphere. When the time of day is given, let it shape the light, the sounds and who is about.
+
+${formatInstructions}${toolInstructions}`;
+};
+
+// Character description system prompt
+const getCharacterDescriptionPrompt = () => {
+  return `You are an AI creating rich character profiles for a dark fantasy RPG game. The setting is a grim, medieval world where magic exists but is feared, monsters lurk in the shadows, and humanity struggles to survive.
+
+Your task is to generate an expanded character description based on the player's brief input about their character. The character belongs to one of four classes: Warrior, Mage, Rogue, or Cleric.
+
+Enhance the player's description with:
+1. Physical details (appearance, distinctive features, how they carry themselves)
+2. Personality traits (reflecting their background and class)
+3. A hint of backstory that fits the dark fantasy setting
+4. How others in the world might perceive them
+
+Keep the tone mature, atmospheric, and fitting the dark fantasy genre. The description should be in third-person, about 2-3 paragraphs long.
+
+Format your response as JSON with the following structure:
+{
+  "text": "The expanded character description",
+  "imagePrompt": "A detailed prompt that could be used to generate a portrait of this character"
+}`;
+};
+
+// NPC conversation system prompt
+const getConversationSystemPrompt = () => {
+  return `You are playing a single non-player character in a dark fantasy RPG game. The setting is a grim, medieval world where magic exists but is feared, monsters lurk in the shadows, and humanity struggles to survive in isolated settlements.
+
+Stay in character at all times. Speak only as the NPC, in the first person, in one to three short paragraphs. Let their description, their current attitude towards the player and what they remember of the player shape how they answer. Never narrate the player's actions or decide what the player does.
+
+Attitudes are friendly, neutral or hostile. Decide how the NPC feels after hearing what the player said: courtesy, help and good deeds warm them; threats, insults and lies sour them. Attitudes change gradually, one step at a time. Only a hostile NPC may attack, and only when provoked beyond words.
+
+Format your response as JSON with the following structure:
+{
+  "reply": "What the NPC says",
+  "attitude": "friendly, neutral or hostile",
+  "memory": "One short sentence the NPC will remember about this exchange, or an empty string",
+  "attack": false
+}`;
+};
+
+// Epitaph system prompt
+const getEpitaphSystemPrompt = () => {
+  return `You are the stonecutter of a dark fantasy RPG game, carving epitaphs for fallen heroes. The setting is a grim, medieval world where magic exists but is feared, monsters lurk in the shadows, and humanity struggles to survive in isolated settlements.
+
+Write only the inscription: two to four short sentences, solemn and grim, in the third person, naming the fallen and telling how and where they fell. It is carved in stone, not narrated; never address the reader as "you", describe the scene around the grave or suggest that the fallen will return.
+
+Format your response as JSON with the following structure:
+{
+  "text": "The epitaph"
+}`;
+};
+
+// Side quest system prompt
+const getSideQuestSystemPrompt = () => {
+  return `You are the AI Dungeon Master for a dark fantasy RPG game, inventing side quests. The setting is a grim, medieval world where magic exists but is feared, monsters lurk in the shadows, and humanity struggles to survive in isolated settlements.
+
+A side quest is a small, grounded errand: a debt to collect, a beast to put down, a place someone needs checked on. It should follow from where the player is and what they have done, and it may only involve people, places, creatures and things that exist in the world you are shown, or that you add alongside the quest.
+
+Format your response as JSON with the following structure:
+{
+  "name": "The quest title",
+  "description": "Who asks for this and why",
+  "objectives": [{ "description": "What to do", "type": "kill, collect, interact or explore", "target": "Exact name of the target", "count": 1 }],
+  "spawns": [{ "kind": "enemy or item", "name": "Its name", "description": "What it is", "locationId": "id of an existing location" }]
+}`;
+};
+
+// Location generation system prompt
+const getLocationSystemPrompt = () => {
+  return `You are the AI Dungeon Master for a dark fantasy RPG game, charting new places as the player explores. The setting is a grim, medieval world where magic exists but is feared, monsters lurk in the shadows, and humanity struggles to survive in isolated settlements.
+
+Describe a single new place that lies beyond the player's current location. It must belong beside the places around it: a path from a forest may lead to a deeper thicket, a hunter's hut or a river crossing, but not to a desert. Keep it grounded and grim. Populate it sparingly; an empty place is fine.
+
+Format your response as JSON with the following structure:
+{
+  "name": "The place name",
+  "description": "What the player finds there",
+  "enemies": [{ "name": "Creature name", "description": "What it is" }],
+  "items": [{ "name": "Item name", "description": "What it is", "type": "weapon, armor, potion or misc", "rarity": "common, uncommon, rare, epic or legendary" }],
+  "alsoConnectsTo": []
+}`;
+};
+
+// Build the prompt shared by the structured and streaming narrative generators
+const buildNarrativePrompt = (
+  context: {
+    character: Character;
+    currentLocation: Location;
+    gameLog: GameLogEntry[];
+    quests?: Quest[];
+    gameTime?: number;
+  },
+  playerAction?: string
+) => {
+  // Build the character context
+  const characterContext = `CHARACTER INFO:
+Name: ${context.character.name}
+Class: ${context.character.class}
+Description: ${context.character.description}
+Level: ${context.character.level}
+HP: ${context.character.health}/${context.character.maxHealth}
+Conditions: ${describeCondition(context.character.statusEffects) || 'none'}
+Relic: ${context.character.relic}
+Equipped: ${describeEquipment(context.character.equipment) || 'nothing'}`;
+
+  // Build the location context, with the enemies lying low at this hour marked
+  const enemies = context.currentLocation.enemies ?? [];
+  const abroad = context.gameTime === undefined ? enemies : getActiveEnemies(enemies, context.gameTime);
+  const locationContext = `CURRENT LOCATION:
+Name: ${context.currentLocation.name}
+Description: ${context.currentLocation.description}
+Connected to: ${context.currentLocation.connections.join(', ')}
+Enemies here: ${enemies.map(enemy => `${enemy.name} (id: ${enemy.id}${abroad.includes(enemy) ? '' : ', lying low at this hour'})`).join(', ') || 'none'}`;
+
+  // Build the time context
+  const timeContext = context.gameTime === undefined ? '' : `\n\nTIME: ${describeGameTime(context.gameTime)}`;
+
+  // Build the quest context
+  const activeQuests = (context.quests ?? []).filter(quest => quest.isActive && !quest.isCompleted);
+  const questContext = `ACTIVE QUESTS:
+${activeQuests.map(quest => `${quest.name} (id: ${quest.id}): ${quest.objectives
+    .filter(objective => !objective.isCompleted)
+    .map(objective => `${objective.description} [id: ${objective.id}, ${objective.progress}/${objective.count}]`)
+    .join('; ')}`).join('\n') || 'None.'}`;
+
+  // Build the recent game history
+  const recentHistory = context.gameLog
+    .map((entry) => `[${entry.type.toUpperCase()}] ${entry.text}`)
+    .join('\n');
+
+  const gameHistoryContext = `RECENT GAME HISTORY:
+${recentHistory || 'No recent history.'}`;
+
+  // Build the player action context if provided
+  const actionContext = playerAction ? 
+    `PLAYER ACTION: ${playerAction}` : 
+    'SCENE DESCRIPTION NEEDED: Describe what the player sees upon arriving at this location.';
+
+  // Combine all contexts
+  return `${characterContext}\n\n${locationContext}${timeContext}\n\n${questContext}\n\n${gameHistoryContext}\n\n${actionContext}`;
+};
+
+/**
+ * Generate a narrative response based on game context
+ * @param context The current game context (character, location, etc.)
+ * @param playerAction Optional player action that triggered this narrative
+ * @returns A narrative response with text and image prompt
+ */
+export const generateNarrative = async (
+  context: {
+    character: Character;
+    currentLocation: Location;
+    gameLog: GameLogEntry[];
+    gameTime?: number;
+  },
+  playerAction?: string
+): Promise<NarrativeResponse> => {
+  const fullContext = buildNarrativePrompt(context, playerAction);
+
+  // Get a validated response from the narrative provider
+  const response = await generateStructured<NarrativeResponse>({
+    task: 'narrative',
+    systemPrompt: getGameSystemPrompt(),
+    prompt: fullContext,
+    context: { ...context, playerAction }
+  }, NarrativeResponseSchema);
+
+  return {
+    text: response.text,
+    imagePrompt: response.imagePrompt,
+    choices: response.choices
+  };
+};
+
+/**
+ * Generate a character description based on user input
+ * @param userDescription The user's initial description of their character
+ * @param characterClass The character's class
+ * @returns An enhanced character description with text and image prompt
+ */
+export const generateCharacterDescription = async (
+  userDescription: string,
+  characterClass: string
+): Promise<CharacterDescriptionResponse> => {
+  // Build the context
+  const context = `USER'S CHARACTER DESCRIPTION: "${userDescription}"
+CHARACTER CLASS: ${characterClass}
+
+Please generate an expanded character description and an image prompt for this character.`;
+
+  // Get a validated response from the narrative provider
+  const response = await generateStructured<CharacterDescriptionResponse>({
+    task: 'character',
+    systemPrompt: getCharacterDescriptionPrompt(),
+    prompt: context,
+    context: { userDescription, characterClass }
+  }, CharacterDescriptionResponseSchema);
+
+  return {
+    text: response.text,
+    imagePrompt: response.imagePrompt
+  };
+};
+
+/**
+ * Generate the epitaph shown on the death screen
+ * @param character The fallen character
+ * @param defeat How and where they died
+ * @returns The epitaph text
+ */
+export const generateEpitaph = async (
+  character: Character,
+  defeat: DefeatRecord
+): Promise<EpitaphResponse> => {
+  const context = `THE FALLEN:
+Name: ${character.name}
+Class: ${character.class}
+Level: ${character.level}
+Relic: ${character.relic}
+Description: ${character.description}
+
+Slain by: ${defeat.killedBy}
+Place of death: ${defeat.locationName}
+
+Write the epitaph carved over this character's grave.`;
+
+  const response = await generateStructured<EpitaphResponse>({
+    task: 'epitaph',
+    systemPrompt: getEpitaphSystemPrompt(),
+    prompt: context,
+    context: { character, defeat }
+  }, EpitaphResponseSchema);
+
+  return { text: response.text };
+};
+
+/**
+ * Play an NPC in a free-form conversation
+ * @param character The player's character
+ * @param npc The NPC being spoken to, with their memories of the player
+ * @param locationName Where the conversation takes place
+ * @param transcript The recent lines of this conversation
+ * @param message What the player just said
+ * @returns The NPC's reply and how the exchange changed them
+ */
+export const generateConversation = async (
+  character: Character,
+  npc: NpcPersona,
+  locationName: string,
+  transcript: ConversationLine[],
+  message: string
+): Promise<ConversationResponse> => {
+  const context = `THE NPC YOU ARE PLAYING:
+Name: ${npc.name}
+Description: ${npc.description}
+Attitude towards the player: ${npc.attitude}
+Location: ${locationName}
+
+WHAT ${npc.name.toUpperCase()} REMEMBERS OF THE PLAYER:
+${npc.memory?.map(note => `- ${note}`).join('\n') || 'Nothing; they have not spoken before.'}
+
+THE PLAYER:
+Name: ${character.name}
+Class: ${character.class}
+Level: ${character.level}
+Description: ${character.description}
+Equipped: ${describeEquipment(character.equipment) || 'nothing'}
+
+CONVERSATION SO FAR:
+${transcript.map(line => `${line.speaker === 'player' ? character.name : npc.name}: ${line.text}`).join('\n') || 'The conversation has just begun.'}
+
+THE PLAYER SAYS: ${message}`;
+
+  const response = await generateStructured<ConversationResponse>({
+    task: 'conversation',
+    systemPrompt: getConversationSystemPrompt(),
+    prompt: context,
+    context: { character, npc, locationName, transcript, message }
+  }, ConversationResponseSchema);
+
+  return {
+    reply: response.reply,
+    attitude: response.attitude,
+    memory: response.memory,
+    attack: response.attack
+  };
+};
+
+/**
+ * Chart a new location beyond the known paths
+ * @param character The player's character
+ * @param origin Where the player heads out from
+ * @param neighbours The locations the origin connects to
+ * @param knownNames The name of every known location
+ * @param destination Where the player said they were going
+ * @returns A draft that fits its surroundings; the game builds the location
+ */
+export const generateLocation = async (
+  character: Character,
+  origin: Location,
+  neighbours: Location[],
+  knownNames: string[],
+  destination: string
+): Promise<LocationDraft> => {
+  const context = `THE PLAYER:
+Name: ${character.name}
+Class: ${character.class}
+Level: ${character.level}
+
+SETTING OUT FROM:
+${origin.name} (id: ${origin.id}): ${origin.description}
+
+PLACES NEXT TO ${origin.name.toUpperCase()}:
+${neighbours.map(neighbour => `- ${neighbour.name} (id: ${neighbour.id}): ${neighbour.description}`).join('\n') || 'None.'}
+
+NAMES ALREADY TAKEN:
+${knownNames.join(', ')}
+
+THE PLAYER HEADS FOR: ${destination}
+
+Describe the place the player reaches. Give it a new name, up to ${WORLD_LIMITS.maxEnemies} enemies and up to ${WORLD_LIMITS.maxItems} items. It always connects back to ${origin.name}; list a neighbour's id under "alsoConnectsTo" only if the new place clearly borders it too.`;
+
+  return generateStructured<LocationDraft>({
+    task: 'location',
+    systemPrompt: getLocationSystemPrompt(),
+    prompt: context,
+    context: { character, origin, neighbours, knownNames, destination }
+  }, LocationDraftSchema, draft => validateLocationDraft(draft, origin, neighbours, knownNames));
+};
+
+/**
+ * Propose a side quest built around what exists in the world
+ * @param character The player's character
+ * @param currentLocation Where the player is
+ * @param world Every location, NPC, enemy and item the quest may refer to
+ * @param quests The player's quests
+ * @param gameLog Recent game history
+ * @returns A draft whose targets all exist; rewards are decided by the game
+ */
+export const generateSideQuest = async (
+  character: Character,
+  currentLocation: Location,
+  world: WorldIndex,
+  quests: Quest[],
+  gameLog: GameLogEntry[]
+): Promise<SideQuestDraft> => {
+  const context = `THE PLAYER:
+Name: ${character.name}
+Class: ${character.class}
+Level: ${character.level}
+Current location: ${currentLocation.name} (id: ${currentLocation.id})
+
+QUESTS ALREADY TAKEN:
+${quests.map(quest => `- ${quest.name}${quest.isCompleted ? ' (completed)' : ''}`).join('\n') || 'None.'}
+
+RECENT GAME HISTORY:
+${gameLog.map(entry => `[${entry.type.toUpperCase()}] ${entry.text}`).join('\n') || 'No recent history.'}
+
+THE KNOWN WORLD:
+Locations: ${world.locations.map(location => `${location.name} (id: ${location.id})`).join(', ')}
+NPCs: ${world.npcs.map(npc => `${npc.name} (in ${npc.locationId})`).join(', ') || 'none'}
+Enemies: ${world.enemies.map(enemy => `${enemy.name} (in ${enemy.locationId})`).join(', ') || 'none'}
+Items lying in the world: ${world.items.map(item => `${item.name} (in ${item.locationId})`).join(', ') || 'none'}
+
+Propose one side quest that someone near ${currentLocation.name} might ask of this player, fitting what they have done so far. Give it 1-${SIDE_QUEST_LIMITS.maxObjectives} objectives. Every objective target must be the exact name of a location, NPC, enemy or item listed above: explore a location, interact with an NPC, kill an enemy, collect an item. If the quest needs a new enemy or item, add it under "spawns" in an existing location (at most ${SIDE_QUEST_LIMITS.maxSpawns}) and target it by that name. Do not offer rewards; the game decides them.`;
+
+  return generateStructured<SideQuestDraft>({
+    task: 'sideQuest',
+    systemPrompt: getSideQuestSystemPrompt(),
+    prompt: context,
+    context: { character, currentLocation, world, quests, gameLog }
+  }, SideQuestDraftSchema, draft => validateSideQuestDraft(draft, world, quests));
+};
+
+// Build the prompt shared by the structured and streaming combat generators
+const buildCombatPrompt = (
+  character: Character,
+  enemies: Enemy[],
+  outcome: CombatRoundOutcome
+) => {
+  // Build the combat context
+  const characterContext = `CHARACTER:
+Name: ${character.name}
+Class: ${character.class}
+Weapon/Relic: ${character.relic}
+Equipped: ${describeEquipment(character.equipment) || 'nothing'}
+HP: ${character.health}/${character.maxHealth}
+Conditions: ${describeCondition(character.statusEffects) || 'none'}`;
+
+  const enemiesContext = `ENEMIES:
+${enemies.map((enemy) => {
+  const condition = enemy.health <= 0 ? 'defeated' : enemy.withdrawn ?? describeCondition(enemy.statusEffects);
+  return `${enemy.name} (HP: ${enemy.health}/${enemy.maxHealth}${condition ? `, ${condition}` : ''})`;
+}).join('\n')}`;
+
+  // The engine has already decided the round; the narrator only describes it
+  const combatContext = `WHAT HAPPENED THIS ROUND, IN ORDER:
+${describeCombatRound(outcome).map(fact => `- ${fact}`).join('\n')}`;
+
+  // Planned moves are foreshadowed so the player can react to them
+  const intentContext = outcome.intents.length > 0
+    ? `\n\nWHAT THE ENEMIES ARE ABOUT TO DO (hint at it in the closing lines; it has not happened yet):
+${outcome.intents.map(intent => `- ${intent.telegraph}`).join('\n')}`
+    : '';
+
+  // Combine contexts
+  return `${characterContext}\n\n${enemiesContext}\n\n${combatContext}${intentContext}\n\nGenerate a vivid, exciting combat narrative describing this round of the battle as one continuous scene. Focus on the action and maintain the dark fantasy atmosphere. The events above are final: describe each of them, in order, and do not contradict them. Do not invent extra hits, injuries, deaths, escapes or loot, and do not change who hit whom, whether an attack missed or landed critically, or who was defeated.`;
+};
+/**
+ * Generate a narrative for a round of combat
+ * @param character The player's character
+ * @param enemies The enemies involved in the combat
+ * @param outcome What the combat engine resolved this round
+ * @returns A narrative response with text and image prompt
+ */
+export const generateCombatNarrative = async (
+  character: Character,
+  enemies: Enemy[],
+  outcome: CombatRoundOutcome
+): Promise<NarrativeResponse> => {
+  const fullContext = buildCombatPrompt(character, enemies, outcome);
+
+  // Get a validated response from the narrative provider
+  const response = await generateStructured<NarrativeResponse>({
+    task: 'combat',
+    systemPrompt: getGameSystemPrompt(),
+    prompt: fullContext,
+    context: { character, enemies, outcome }
+  }, NarrativeResponseSchema);
+
+  return {
+    text: response.text,
+    imagePrompt: response.imagePrompt
+  };
+};
+
+/**
+ * Stream a narrative response as plain text. The narrator may call Dungeon
+ * Master tools along the way; calls that pass validation are emitted as events
+ * for the client to apply, and rejected ones are reported back to the model.
+ * @param context The current game context (character, location, etc.)
+ * @param playerAction Optional player action that triggered this narrative
+ * @param signal Aborts generation when the player cancels
+ * @returns Text and tool call events as the model produces them
+ */
+export const streamNarrative = async function* (
+  context: {
+    character: Character;
+    currentLocation: Location;
+    gameLog: GameLogEntry[];
+    quests?: Quest[];
+    inCombat?: boolean;
+    gameTime?: number;
+  },
+  playerAction?: string,
+  signal?: AbortSignal
+): AsyncGenerator<NarrativeStreamEvent> {
+  const validate = createToolTurnValidator({
+    character: context.character,
+    currentLocation: context.currentLocation,
+    quests: context.quests ?? [],
+    inCombat: context.inCombat ?? false
+  });
+  const acceptedCalls: DungeonMasterCall[] = [];
+
+  const tools: ToolSession = {
+    declarations: DM_TOOLS,
+    handle: (calls) => calls.map(({ name, args }) => {
+      const validation = validate(name, args);
+      if (!validation.ok) {
+        return { name, response: { status: 'rejected', reason: validation.reason } };
+      }
+      acceptedCalls.push(validation.call);
+      return { name, response: { status: 'applied' } };
+    })
+  };
+
+  const text = getNarrativeProvider().stream({
+    task: 'narrative',
+    systemPrompt: getGameSystemPrompt('prose', true),
+    prompt: buildNarrativePrompt(context, playerAction),
+    context: { ...context, playerAction }
+  }, signal, tools);
+
+  for await (const chunk of text) {
+    while (acceptedCalls.length > 0) {
+      yield { type: 'call', call: acceptedCalls.shift() as DungeonMasterCall };
+    }
+    yield { type: 'text', text: chunk };
+  }
+  while (acceptedCalls.length > 0) {
+    yield { type: 'call', call: acceptedCalls.shift() as DungeonMasterCall };
+  }
+};
+
+/**
+ * Stream the narrative for a round of combat as plain text
+ * @param character The player's character
+ * @param enemies The enemies involved in the combat
+ * @param outcome What the combat engine resolved this round
+ * @param signal Aborts generation when the player cancels
+ * @returns Text events as the model produces them
+ */
+export const streamCombatNarrative = async function* (
+  character: Character,
+  enemies: Enemy[],
+  outcome: CombatRoundOutcome,
+  signal?: AbortSignal
+): AsyncGenerator<NarrativeStreamEvent> {
+  const text = getNarrativeProvider().stream({
+    task: 'combat',
+    systemPrompt: getGameSystemPrompt('prose'),
+    prompt: buildCombatPrompt(character, enemies, outcome),
+    context: { character, enemies, outcome }
+  }, signal);
+
+  for await (const chunk of text) {
+    yield { type: 'text', text: chunk };
+  }
+};
@@ -0,0 +1,82 @@
+import { FunctionCallingMode, FunctionDeclarationSchema, GoogleGenerativeAI, Part, ResponseSchema } from '@google/generative-ai';
+import { MAX_TOOL_ROUNDS, NarrativeProvider, NarrativeRequest, ToolCallRequest, ToolSession } from './types';
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  model: string;
+}
+
+/**
+ * Create a provider backed by Google's Gemini API
+ * @param config API key and model name
+ * @returns A narrative provider
+ */
+export const createGeminiProvider = (config: GeminiProviderConfig): NarrativeProvider => {
+  const genAI = new GoogleGenerativeAI(config.apiKey);
+
+  // Our Schema uses the same type names as the SDK's SchemaType enum
+  const getModel = (request: NarrativeRequest, tools?: ToolSession) => genAI.getGenerativeModel({
+    model: config.model,
+    systemInstruction: request.systemPrompt,
+    generationConfig: request.responseSchema
+      ? { responseMimeType: 'application/json', responseSchema: request.responseSchema as ResponseSchema }
+      : undefined,
+    tools: tools
+      ? [{
+          functionDeclarations: tools.declarations.map(declaration => ({
+            name: declaration.name,
+            description: declaration.description,
+            parameters: declaration.parameters as unknown as FunctionDeclarationSchema
+          }))
+        }]
+      : undefined
+  });
+
+  return {
+    name: `gemini:${config.model}`,
+    generate: async (request) => {
+      const result = await getModel(request).generateContent(request.prompt);
+      return result.response.text();
+    },
+    stream: async function* (request, signal, tools) {
+      if (!tools) {
+        const result = await getModel(request).generateContentStream(request.prompt, { signal });
+        for await (const chunk of result.stream) {
+          yield chunk.text();
+        }
+        return;
+      }
+
+      // Stream each model turn; when it calls functions, send the results back
+      // and keep streaming the continuation. The last turn carries on from the
+      // same history with function calling off, so every call that ran is
+      // reported back and narrated.
+      const model = getModel(request, tools);
+      let chat = model.startChat();
+      let message: string | Part[] = request.prompt;
+      for (let round = 1; ; round++) {
+        const lastRound = round >= MAX_TOOL_ROUNDS;
+        if (lastRound) {
+          chat = model.startChat({
+            history: await chat.getHistory(),
+            toolConfig: { functionCallingConfig: { mode: FunctionCallingMode.NONE } }
+          });
+        }
+
+        const result = await chat.sendMessageStream(message, { signal });
+        const calls: ToolCallRequest[] = [];
+        for await (const chunk of result.stream) {
+          const text = chunk.text();
+          if (text) yield text;
+          chunk.functionCalls()?.forEach(call => calls.push({ name: call.name, args: call.args }));
+        }
+        // Calls on the last turn could never be reported back, so none are run
+        if (calls.length === 0 || lastRound) return;
+
+        message = tools.handle(calls).map(result => ({
+          functionResponse: { name: result.name, response: result.response }
+        }));
+      }
+    }
+  };
+};
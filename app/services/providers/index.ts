@@ -0,0 +1,57 @@
+import { createGeminiProvider } from './gemini';
+import { createOfflineProvider } from './offline';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { NarrativeProvider } from './types';
+
+export type {
+  NarrativeProvider,
+  NarrativeRequest,
+  NarrativeTask,
+  NarrativeTaskContext,
+  ToolCallRequest,
+  ToolCallResult,
+  ToolSession
+} from './types';
+
+export type NarrativeProviderName = 'gemini' | 'openai' | 'offline';
+
+let provider: NarrativeProvider | null = null;
+
+/**
+ * Create the provider selected by the NARRATIVE_PROVIDER environment variable.
+ * Defaults to Gemini when a key is configured and to the offline provider otherwise.
+ * @param env Environment to read settings from
+ * @returns The configured narrative provider
+ */
+export const createNarrativeProvider = (env: NodeJS.ProcessEnv = process.env): NarrativeProvider => {
+  const name = (env.NARRATIVE_PROVIDER || (env.GEMINI_API_KEY ? 'gemini' : 'offline')) as NarrativeProviderName;
+
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider({
+        apiKey: env.GEMINI_API_KEY || '',
+        model: env.GEMINI_MODEL || 'gemini-1.5-flash'
+      });
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        model: env.OPENAI_MODEL || 'llama3.1',
+        apiKey: env.OPENAI_API_KEY
+      });
+    case 'offline':
+      return createOfflineProvider(env.NARRATIVE_SEED || 'narrativa');
+    default:
+      throw new Error(`Unknown narrative provider: ${name}`);
+  }
+};
+
+/**
+ * Get the shared provider instance, creating it on first use
+ * @returns The configured narrative provider
+ */
+export const getNarrativeProvider = () => {
+  if (!provider) {
+    provider = createNarrativeProvider();
+  }
+  return provider;
+};
@@ -0,0 +1,339 @@
+import { describeCombatRound } from '../../lib/combat';
+import { isStillFighting } from '../../lib/enemyBehaviour';
+import { createRandom, pick, RandomSource } from '../../lib/random';
+import { getTimeOfDay } from '../../lib/clock';
+import { LocationDraft, SideQuestDraft, TimePhase } from '../../types';
+import { NarrativeProvider, NarrativeRequest, NarrativeTaskContext } from './types';
+
+// Fully offline provider that assembles narration from templates. The same
+// seed and request always produce the same text, which keeps demos and
+// end-to-end tests stable without a model.
+
+const SKIES = [
+  'A low, bruised sky presses down on everything',
+  'Mist curls along the ground like something searching',
+  'The light here is thin and grey, as if the sun has given up',
+  'Cold wind carries the smell of wet ash'
+];
+
+// Used instead of SKIES when the time of day is known
+const PHASE_SKIES: Record<TimePhase, string[]> = {
+  dawn: ['A sickly dawn seeps over the horizon', 'The first grey light picks out the shapes of things'],
+  day: SKIES,
+  dusk: ['The light is failing and the shadows run long', 'Dusk stains the sky the colour of an old bruise'],
+  night: ['Darkness lies thick over everything', 'A pale, clouded moon gives barely enough light to see by']
+};
+
+const SOUNDS = [
+  'Somewhere nearby, a crow calls once and falls silent.',
+  'You hear distant bells, though no church stands close enough to ring them.',
+  'Water drips steadily in the dark, counting out the moments.',
+  'Your own breathing sounds too loud in the hush.'
+];
+
+const FEELINGS = [
+  'You tighten your grip on {relic} and press on.',
+  'Every instinct tells you that you are being watched.',
+  'The weight of {relic} is a small comfort against the gloom.',
+  'You remind yourself why you came here, and the doubt recedes a little.'
+];
+
+const ACTION_OUTCOMES = [
+  'The world seems to hold its breath as you do so.',
+  'Nothing answers at first, and then the shadows shift almost imperceptibly.',
+  'It is harder than it should be, as though the place itself resists you.',
+  'For a moment you are certain you have disturbed something old.'
+];
+
+const COMBAT_OPENERS = [
+  'Steel rings out in the gloom.',
+  'The fight turns savage in an instant.',
+  'Blood and breath mingle in the cold air.',
+  'There is no grace in it, only survival.'
+];
+
+const COMBAT_CLOSERS = [
+  'You set your feet and ready yourself for what comes next.',
+  'The battle is far from over.',
+  'Your heart hammers as you search for an opening.',
+  'Pain and adrenaline sharpen every sense.'
+];
+
+const CHARACTER_TRAITS: Record<string, string[]> = {
+  Warrior: ['scarred knuckles and a soldier\'s stance', 'a gaze that measures every stranger as a threat'],
+  Mage: ['ink-stained fingers and restless eyes', 'a quiet voice that carries further than it should'],
+  Rogue: ['a careful, silent step', 'a smile that never quite reaches the eyes'],
+  Cleric: ['a worn prayer cord wound about one wrist', 'a calm that unsettles those who have lost their faith']
+};
+
+const CONVERSATION_REPLIES: Record<'friendly' | 'neutral' | 'hostile', string[]> = {
+  friendly: [
+    '"{player}. Good to see a face I can trust in these dark days. Ask what you like."',
+    'A rare smile. "You\'re always welcome here, {player}. Now, what\'s on your mind?"',
+    '"Sit, sit. The night is long and honest company is scarce."'
+  ],
+  neutral: [
+    '"Hm. Can\'t say I know much about that, stranger." They return to their work.',
+    'They study you a long moment. "Words are cheap in Eldermoor. What do you actually want?"',
+    '"Perhaps. Perhaps not. The woods have ears, and so do walls."'
+  ],
+  hostile: [
+    '"Watch your tongue, {player}, or I\'ll cut it out."',
+    'Their eyes narrow. "I\'ve heard enough from you. Leave, while you still can."',
+    '"Say that again. I dare you."'
+  ]
+};
+
+// Words the offline provider treats as hostile or warm
+const RUDE_WORDS = /\b(kill|die|fool|idiot|hate|threat|rob|steal|liar|coward|scum|shut up|hag|brute)\b/i;
+const KIND_WORDS = /\b(thanks?|thank you|please|friend|help|kind|sorry|gift|well met|grateful)\b/i;
+
+const fill = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (_, key: string) => values[key] ?? key);
+
+const describeScene = (random: RandomSource, context: NarrativeTaskContext['narrative']) => {
+  const { character, currentLocation, playerAction, gameTime } = context;
+  const skies = gameTime === undefined ? SKIES : PHASE_SKIES[getTimeOfDay(gameTime).phase];
+  const values = { relic: `the ${character.relic}` };
+
+  const opening = playerAction
+    ? `You, ${character.name}, decide to ${playerAction.replace(/[.!?]+$/, '')}. ${pick(random, ACTION_OUTCOMES)}`
+    : `${pick(random, skies)} as you arrive at ${currentLocation.name}. ${currentLocation.description}`;
+
+  const paths = currentLocation.connections.length > 0
+    ? `Paths lead onward toward ${currentLocation.connections.join(', ')}.`
+    : 'There seems to be no way onward from here.';
+
+  return {
+    text: `${opening}\n\n${pick(random, SOUNDS)} ${fill(pick(random, FEELINGS), values)} ${paths}`,
+    imagePrompt: `Dark fantasy illustration of ${currentLocation.name}, ${currentLocation.description}, moody lighting`
+  };
+};
+
+const describeCharacter = (random: RandomSource, context: NarrativeTaskContext['character']) => {
+  const traits = CHARACTER_TRAITS[context.characterClass] ?? CHARACTER_TRAITS.Warrior;
+  const trait = pick(random, traits);
+
+  return {
+    text: `${context.userDescription.trim()}\n\nThose who meet this ${context.characterClass.toLowerCase()} remember ${trait}. Few know the full story of what drove them onto the roads of this dying land, and fewer still are brave enough to ask.`,
+    imagePrompt: `Dark fantasy portrait of a ${context.characterClass.toLowerCase()} with ${trait}, dramatic chiaroscuro lighting`
+  };
+};
+
+const describeCombat = (random: RandomSource, context: NarrativeTaskContext['combat']) => {
+  const enemyNames = context.enemies.map(enemy => enemy.name).join(' and ');
+  const living = context.enemies.filter(isStillFighting);
+  const facts = describeCombatRound(context.outcome).join(' ');
+
+  // Only threaten the player with enemies that are still standing
+  const closing = context.outcome.status === 'ongoing'
+    ? [
+        `${living.map(enemy => enemy.name).join(' and ') || 'Your foe'} ${living.length > 1 ? 'circle' : 'circles'} you in the dark.`,
+        ...context.outcome.intents.map(intent => intent.telegraph),
+        pick(random, COMBAT_CLOSERS)
+      ].join(' ')
+    : context.outcome.status === 'victory'
+      ? 'Silence settles over the field, broken only by your ragged breathing.'
+      : 'The dark closes in, and the world slips away.';
+
+  return {
+    text: `${pick(random, COMBAT_OPENERS)} ${facts}\n\n${closing}`,
+    imagePrompt: `Dark fantasy battle scene, ${context.character.class.toLowerCase()} fighting ${enemyNames}`
+  };
+};
+
+const EPITAPHS = [
+  'Here lies {name}, who walked into {place} and did not walk out. {killer} saw to that.',
+  '{name} the {class} fell at {place}. The crows remember; no one else will. Slain by {killer}.',
+  'Stranger, tread softly. {name} sought the light in {place} and found {killer} instead.',
+  'Of {name}, level {level} {class}, only a name remains. {place} keeps the rest. Felled by {killer}.'
+];
+
+const describeEpitaph = (random: RandomSource, context: NarrativeTaskContext['epitaph']) => {
+  const { defeat } = context;
+  return {
+    text: fill(pick(random, EPITAPHS), {
+      name: defeat.characterName,
+      class: defeat.characterClass.toLowerCase(),
+      level: String(defeat.level),
+      place: defeat.locationName,
+      killer: defeat.killedBy
+    }).replace(/(^|\. )(\w)/g, (_, lead: string, letter: string) => lead + letter.toUpperCase())
+  };
+};
+
+const describeConversation = (random: RandomSource, context: NarrativeTaskContext['conversation']) => {
+  const { npc, character, message } = context;
+  const rude = RUDE_WORDS.test(message);
+  const kind = !rude && KIND_WORDS.test(message);
+  const attitude = rude ? 'hostile' : kind ? 'friendly' : npc.attitude;
+
+  return {
+    reply: fill(pick(random, CONVERSATION_REPLIES[attitude]), { player: character.name }),
+    attitude,
+    memory: rude
+      ? `${character.name} spoke to me with contempt.`
+      : kind ? `${character.name} was courteous to me.` : '',
+    // Already hostile and provoked again: words give way to steel
+    attack: rude && npc.attitude === 'hostile'
+  };
+};
+
+const SIDE_QUEST_BEASTS = [
+  { name: 'Carrion Stalker', description: 'A gaunt, hairless thing that follows the smell of the dying.' },
+  { name: 'Mire Lurker', description: 'Something wide and patient that waits beneath still water.' },
+  { name: 'Hollow-Eyed Poacher', description: 'A deserter turned killer, who hunts the hunters.' }
+];
+
+const SIDE_QUEST_RELICS = [
+  { name: 'Tarnished Locket', description: 'A cheap locket holding a lock of a child\'s hair.' },
+  { name: 'Sealed Tithe Box', description: 'A small iron box, still sealed with the chapel\'s wax.' },
+  { name: 'Bloodied Letter', description: 'A letter never delivered, its ink run with rain and worse.' }
+];
+
+// Build a quest only from what the world index offers, or from a single
+// spawned enemy or item when there is nothing suitable
+const describeSideQuest = (random: RandomSource, context: NarrativeTaskContext['sideQuest']): SideQuestDraft => {
+  const { world, currentLocation } = context;
+  const elsewhere = world.locations.filter(location => location.id !== currentLocation.id);
+  const place = elsewhere.length > 0 ? pick(random, elsewhere) : { id: currentLocation.id, name: currentLocation.name };
+  const asker = world.npcs.find(npc => npc.locationId === currentLocation.id) ?? (world.npcs.length > 0 ? pick(random, world.npcs) : null);
+  const askedBy = asker ? `${asker.name} ` : 'A frightened villager ';
+  const kinds = [
+    ...(world.enemies.length > 0 ? ['bounty'] : []),
+    ...(world.items.length > 0 ? ['errand'] : []),
+    'beast',
+    'relic'
+  ];
+
+  switch (pick(random, kinds)) {
+    case 'bounty': {
+      const enemy = pick(random, world.enemies);
+      return {
+        name: `Bounty: ${enemy.name}`,
+        description: `${askedBy}wants the ${enemy.name} that haunts the land dealt with before it takes anyone else.`,
+        objectives: [{ description: `Slay the ${enemy.name}`, type: 'kill', target: enemy.name, count: 1 }]
+      };
+    }
+    case 'errand': {
+      const item = pick(random, world.items);
+      const location = world.locations.find(candidate => candidate.id === item.locationId);
+      return {
+        name: `Recover the ${item.name}`,
+        description: `${askedBy}swears the ${item.name} was theirs before the dark came, and would see it back.`,
+        objectives: [
+          ...(location && location.id !== currentLocation.id
+            ? [{ description: `Search ${location.name}`, type: 'explore' as const, target: location.id, count: 1 }]
+            : []),
+          { description: `Find the ${item.name}`, type: 'collect', target: item.name, count: 1 }
+        ]
+      };
+    }
+    case 'beast': {
+      const beast = pick(random, SIDE_QUEST_BEASTS);
+      return {
+        name: `The ${beast.name} of ${place.name}`,
+        description: `${askedBy}speaks of a ${beast.name.toLowerCase()} seen near ${place.name}, and of the people who went to look and never returned.`,
+        objectives: [
+          { description: `Travel to ${place.name}`, type: 'explore', target: place.id, count: 1 },
+          { description: `Kill the ${beast.name}`, type: 'kill', target: beast.name, count: 1 }
+        ],
+        spawns: [{ kind: 'enemy', ...beast, locationId: place.id }]
+      };
+    }
+    default: {
+      const relic = pick(random, SIDE_QUEST_RELICS);
+      return {
+        name: `The ${relic.name}`,
+        description: `${askedBy}lost a ${relic.name.toLowerCase()} at ${place.name} and cannot bear to go back for it.`,
+        objectives: [{ description: `Recover the ${relic.name} from ${place.name}`, type: 'collect', target: relic.name, count: 1 }],
+        spawns: [{ kind: 'item', ...relic, locationId: place.id }]
+      };
+    }
+  }
+};
+
+const UNCHARTED_PLACES = [
+  { name: 'The Drowned Chapel', description: 'Black water stands knee-deep between the pews, and the bell rope still sways though there is no wind.' },
+  { name: 'Gallows Hill', description: 'Three crooked gibbets crown a bald hill. The ropes were cut long ago; the crows never left.' },
+  { name: 'The Hollow Mill', description: 'The wheel turns slowly in a dead stream, grinding nothing. Flour lies on every surface like ash.' },
+  { name: 'Saltmarsh Crossing', description: 'A causeway of rotten planks threads across a grey marsh that breathes out cold fog.' },
+  { name: 'The Barrow of Kings', description: 'Grassed-over mounds ring a standing stone carved with names no one can read.' },
+  { name: 'Charcoal Burners\' Camp', description: 'Abandoned kilns smoulder still, and the huts around them have their doors barred from outside.' }
+];
+
+const UNCHARTED_DENIZENS = [
+  { name: 'Marsh Ghoul', description: 'A drowned thing, bloated and patient, that drags the living down.' },
+  { name: 'Feral Hound', description: 'A half-starved war dog gone wild, all ribs and teeth.' },
+  { name: 'Barrow Shade', description: 'A cold shape in old mail that guards what was buried with it.' }
+];
+
+const UNCHARTED_FINDS: LocationDraft['items'] = [
+  { name: 'Pilgrim\'s Flask', description: 'A dented flask of bitter restorative.', type: 'potion', rarity: 'common' },
+  { name: 'Rusted Hatchet', description: 'Notched and pitted, but it still bites.', type: 'weapon', rarity: 'common' },
+  { name: 'Carved Bone Token', description: 'A charm of yellowed bone, etched with a warding sign.', type: 'misc', rarity: 'uncommon' }
+];
+
+// Chart a place the player hasn't seen, from a fixed list of landmarks
+const describeLocation = (random: RandomSource, context: NarrativeTaskContext['location']): LocationDraft => {
+  const taken = context.knownNames.map(name => name.toLowerCase());
+  const unused = UNCHARTED_PLACES.filter(place => !taken.includes(place.name.toLowerCase()));
+  const heading = context.destination.replace(/[^a-z\s]/gi, '').trim() || 'wilds';
+  const place = unused.length > 0
+    ? pick(random, unused)
+    : {
+      name: `The ${heading.replace(/\b\w/g, letter => letter.toUpperCase())} Reaches`,
+      description: 'Empty country stretches away under a colourless sky, marked only by the bones of old walls.'
+    };
+
+  return {
+    name: place.name,
+    description: `${place.description} Behind you, the way back to ${context.origin.name} is already fading into the mist.`,
+    enemies: random() < 0.6 ? [pick(random, UNCHARTED_DENIZENS)] : [],
+    items: random() < 0.5 ? [pick(random, UNCHARTED_FINDS)] : []
+  };
+};
+
+const render = (random: RandomSource, request: NarrativeRequest) => {
+  switch (request.task) {
+    case 'narrative':
+      return describeScene(random, request.context);
+    case 'character':
+      return describeCharacter(random, request.context);
+    case 'combat':
+      return describeCombat(random, request.context);
+    case 'epitaph':
+      return describeEpitaph(random, request.context);
+    case 'conversation':
+      return describeConversation(random, request.context);
+    case 'location':
+      return describeLocation(random, request.context);
+    case 'sideQuest':
+      return describeSideQuest(random, request.context);
+  }
+};
+
+/**
+ * Create a deterministic provider that needs no model or network access
+ * @param seed Base seed; combined with each prompt so responses vary per request
+ * @returns A narrative provider
+ */
+export const createOfflineProvider = (seed: string): NarrativeProvider => ({
+  name: 'offline',
+  generate: async (request) => {
+    const random = createRandom(`${seed}:${request.task}:${request.prompt}`);
+    return JSON.stringify(render(random, request));
+  },
+  // Streams the same text as generate, a word at a time
+  stream: async function* (request, signal) {
+    const random = createRandom(`${seed}:${request.task}:${request.prompt}`);
+    const rendered = render(random, request);
+    // Conversations answer with a reply; locations and side quests with a description
+    const text = 'text' in rendered ? rendered.text : 'reply' in rendered ? rendered.reply : rendered.description;
+    const words = text.match(/\s*\S+/g) ?? [];
+    for (const word of words) {
+      if (signal?.aborted) return;
+      yield word;
+    }
+  }
+});
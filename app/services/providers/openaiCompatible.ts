@@ -0,0 +1,144 @@
+import { MAX_TOOL_ROUNDS, NarrativeProvider, NarrativeRequest, ToolSession } from './types';
+
+export interface OpenAICompatibleProviderConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+// A server-sent event's JSON, or null for a malformed or keep-alive line, which
+// is skipped rather than ending the narration
+const parseEventData = (data: string) => {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Create a provider for any OpenAI-compatible chat completions endpoint,
+ * such as a local Ollama or llama.cpp server
+ * @param config Endpoint base URL (including /v1), model name and optional key
+ * @returns A narrative provider
+ */
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleProviderConfig): NarrativeProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const requestCompletion = async (
+    request: NarrativeRequest,
+    stream: boolean,
+    signal?: AbortSignal,
+    tools?: ToolSession,
+    history: unknown[] = [],
+    lastRound = false
+  ) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: config.model,
+        stream,
+        messages: [
+          { role: 'system', content: request.systemPrompt },
+          { role: 'user', content: request.prompt },
+          ...history
+        ],
+        ...(tools
+          ? {
+              tools: tools.declarations.map(declaration => ({
+                type: 'function',
+                function: declaration
+              })),
+              // The last round only narrates what the earlier calls did
+              ...(lastRound ? { tool_choice: 'none' } : {})
+            }
+          : {}),
+        ...(request.responseSchema
+          ? { response_format: { type: 'json_schema', json_schema: { name: request.task, schema: request.responseSchema } } }
+          : {})
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Completion request failed with status ${response.status}`);
+    }
+    return response;
+  };
+
+  return {
+    name: `openai:${config.model}`,
+    generate: async (request) => {
+      const response = await requestCompletion(request, false);
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') {
+        throw new Error('Completion response did not contain any text');
+      }
+      return text;
+    },
+    stream: async function* (request, signal, tools) {
+      if (tools) {
+        // Tool calls are not reliably streamed by local servers, so each turn
+        // is requested whole and the final text is yielded at the end
+        const history: unknown[] = [];
+        for (let round = 1; ; round++) {
+          const lastRound = round >= MAX_TOOL_ROUNDS;
+          const response = await requestCompletion(request, false, signal, tools, history, lastRound);
+          const message = (await response.json())?.choices?.[0]?.message;
+          const toolCalls: { id: string; function: { name: string; arguments: string } }[] = message?.tool_calls ?? [];
+
+          // Calls on the last round could never be reported back, so none are run
+          if (toolCalls.length === 0 || lastRound) {
+            if (typeof message?.content === 'string') yield message.content;
+            return;
+          }
+
+          const results = tools.handle(toolCalls.map(call => {
+            let args: unknown;
+            try {
+              args = JSON.parse(call.function.arguments || '{}');
+            } catch {
+              args = null;
+            }
+            return { name: call.function.name, args };
+          }));
+          history.push(message, ...results.map((result, index) => ({
+            role: 'tool',
+            tool_call_id: toolCalls[index].id,
+            content: JSON.stringify(result.response)
+          })));
+        }
+      }
+
+      const response = await requestCompletion(request, true, signal);
+      if (!response.body) {
+        throw new Error('Completion response did not include a body');
+      }
+
+      // Server-sent events: one "data: {...}" line per chunk, ending with [DONE]
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        buffer += value;
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+
+          const delta = parseEventData(data)?.choices?.[0]?.delta?.content;
+          if (typeof delta === 'string' && delta) yield delta;
+        }
+      }
+    }
+  };
+};
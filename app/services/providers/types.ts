@@ -0,0 +1,107 @@
+import { Character, CombatRoundOutcome, ConversationLine, DefeatRecord, Enemy, GameLogEntry, Location, Quest } from '../../types';
+import { Schema } from '../../lib/schema';
+import { ToolDeclaration } from '../../lib/dmTools';
+import { NpcPersona } from '../../lib/conversation';
+import { WorldIndex } from '../../lib/sideQuests';
+
+// Structured context for each kind of generation. Model-backed providers only
+// need the rendered prompt; the offline provider builds its output from this.
+export interface NarrativeTaskContext {
+  narrative: {
+    character: Character;
+    currentLocation: Location;
+    gameLog: GameLogEntry[];
+    quests?: Quest[];
+    inCombat?: boolean;
+    // Minutes since the world began
+    gameTime?: number;
+    playerAction?: string;
+  };
+  character: {
+    userDescription: string;
+    characterClass: string;
+  };
+  combat: {
+    character: Character;
+    enemies: Enemy[];
+    outcome: CombatRoundOutcome;
+  };
+  epitaph: {
+    character: Character;
+    defeat: DefeatRecord;
+  };
+  conversation: {
+    character: Character;
+    npc: NpcPersona;
+    locationName: string;
+    transcript: ConversationLine[];
+    message: string;
+  };
+  location: {
+    character: Character;
+    origin: Location;
+    neighbours: Location[];
+    knownNames: string[];
+    destination: string;
+  };
+  sideQuest: {
+    character: Character;
+    currentLocation: Location;
+    world: WorldIndex;
+    quests: Quest[];
+    gameLog: GameLogEntry[];
+  };
+}
+
+export type NarrativeTask = keyof NarrativeTaskContext;
+
+export type NarrativeRequest = {
+  [K in NarrativeTask]: {
+    task: K;
+    systemPrompt: string;
+    prompt: string;
+    context: NarrativeTaskContext[K];
+    // When set, the provider should ask the model for JSON matching this schema
+    responseSchema?: Schema;
+  };
+}[NarrativeTask];
+
+export interface ToolCallRequest {
+  name: string;
+  args: unknown;
+}
+
+export interface ToolCallResult {
+  name: string;
+  response: Record<string, unknown>;
+}
+
+// Model turns allowed per generation when tools are in play, so a model
+// that keeps calling tools cannot loop forever. The last turn can't call
+// tools; it narrates the results of the calls before it.
+export const MAX_TOOL_ROUNDS = 3;
+
+// Function calling for a single generation. The provider runs the
+// call/response loop; `handle` decides what each call returns to the model.
+export interface ToolSession {
+  declarations: ToolDeclaration[];
+  handle: (calls: ToolCallRequest[]) => ToolCallResult[];
+}
+
+export interface NarrativeProvider {
+  name: string;
+  /**
+   * Generate the raw model text for a request
+   * @param request The task, prompts and structured context
+   * @returns The model's text output (expected to contain JSON)
+   */
+  generate: (request: NarrativeRequest) => Promise<string>;
+  /**
+   * Stream the model's text for a request as it is produced
+   * @param request The task, prompts and structured context
+   * @param signal Aborts the underlying model call when triggered
+   * @param tools Optional function calling; providers without support ignore it
+   * @returns Text chunks in order
+   */
+  stream: (request: NarrativeRequest, signal?: AbortSignal, tools?: ToolSession) => AsyncIterable<string>;
+}
@@ -0,0 +1,124 @@
+import { Schema } from '../lib/schema';
+
+// Response schemas for each generator. They are sent to the model as its
+// structured-output schema and used to validate whatever comes back.
+
+export const NarrativeResponseSchema: Schema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string', description: 'The narrative text describing the current situation, location, or event' },
+    imagePrompt: { type: 'string', description: 'A prompt that could be used to generate an image representing the current scene' },
+    choices: { type: 'array', items: { type: 'string' }, maxItems: 5, description: 'Optional suggested next actions' }
+  },
+  required: ['text']
+};
+
+export const CharacterDescriptionResponseSchema: Schema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string', description: 'The expanded character description' },
+    imagePrompt: { type: 'string', description: 'A detailed prompt that could be used to generate a portrait of this character' }
+  },
+  required: ['text']
+};
+
+export const ConversationResponseSchema: Schema = {
+  type: 'object',
+  properties: {
+    reply: { type: 'string', description: 'What the NPC says back, in their own voice' },
+    attitude: { type: 'string', enum: ['friendly', 'neutral', 'hostile'], description: 'How the NPC feels about the player after this exchange' },
+    memory: { type: 'string', description: 'One short sentence the NPC will remember about this exchange; empty if nothing notable happened' },
+    attack: { type: 'boolean', description: 'True only if the NPC is hostile and attacks the player now' }
+  },
+  required: ['reply', 'attitude']
+};
+
+export const EpitaphResponseSchema: Schema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string', description: 'The epitaph carved for the fallen character' }
+  },
+  required: ['text']
+};
+
+export const SideQuestDraftSchema: Schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'A short, evocative quest title' },
+    description: { type: 'string', description: 'Who asks for this and why, in one to three sentences' },
+    objectives: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 3,
+      items: {
+        type: 'object',
+        properties: {
+          description: { type: 'string', description: 'What the player must do, e.g. "Slay the Shadow Wolf"' },
+          type: { type: 'string', enum: ['kill', 'collect', 'interact', 'explore'] },
+          target: { type: 'string', description: 'The exact name or id of the enemy, item, NPC or location' },
+          count: { type: 'integer', description: 'How many times; always 1 for interact and explore' }
+        },
+        required: ['description', 'type', 'target', 'count']
+      }
+    },
+    spawns: {
+      type: 'array',
+      maxItems: 2,
+      description: 'New enemies or items the quest places in existing locations; omit if the quest only uses what exists',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['enemy', 'item'] },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          locationId: { type: 'string', description: 'The id of an existing location' }
+        },
+        required: ['kind', 'name', 'description', 'locationId']
+      }
+    }
+  },
+  required: ['name', 'description', 'objectives']
+};
+
+export const LocationDraftSchema: Schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'A short, evocative place name not used by any known location' },
+    description: { type: 'string', description: 'What the place looks, sounds and smells like, in two or three sentences' },
+    enemies: {
+      type: 'array',
+      maxItems: 2,
+      description: 'Creatures that lurk here; may be empty',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' }
+        },
+        required: ['name', 'description']
+      }
+    },
+    items: {
+      type: 'array',
+      maxItems: 2,
+      description: 'Things lying here to be found; may be empty',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          description: { type: 'string' },
+          type: { type: 'string', enum: ['weapon', 'armor', 'potion', 'misc'] },
+          rarity: { type: 'string', enum: ['common', 'uncommon', 'rare', 'epic', 'legendary'] }
+        },
+        required: ['name', 'description', 'type', 'rarity']
+      }
+    },
+    alsoConnectsTo: {
+      type: 'array',
+      maxItems: 1,
+      items: { type: 'string' },
+      description: 'Ids of neighbouring locations this place also borders; usually empty'
+    }
+  },
+  required: ['name', 'description', 'enemies', 'items']
+};
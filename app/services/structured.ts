@@ -0,0 +1,120 @@
+import { NarrativeError } from '../lib/errors';
+import { Schema, validateSchema } from '../lib/schema';
+import { getNarrativeProvider, NarrativeRequest } from './providers';
+
+// Total attempts per request, including the first; each retry re-prompts
+// the model with the validation problems from its previous answer
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.NARRATIVE_MAX_ATTEMPTS) || 2);
+
+// Find the end of the JSON object that starts at `start`, honouring strings
+const findObjectEnd = (text: string, start: number) => {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+};
+
+const tryParse = (text: string): { ok: boolean; value?: unknown } => {
+  try {
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+/**
+ * Recover a JSON object from raw model output. Handles ```json fences,
+ * preambles and trailing commentary, and trailing commas.
+ * @param text Raw model output
+ * @returns The parsed value
+ */
+export const extractJson = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  const direct = tryParse(candidate);
+  if (direct.ok) return direct.value;
+
+  // Pull out the first balanced object, wherever it sits in the text
+  const start = candidate.indexOf('{');
+  const end = start === -1 ? -1 : findObjectEnd(candidate, start);
+  if (end !== -1) {
+    const objectText = candidate.slice(start, end + 1);
+    const extracted = tryParse(objectText);
+    if (extracted.ok) return extracted.value;
+
+    const withoutTrailingCommas = tryParse(objectText.replace(/,\s*([}\]])/g, '$1'));
+    if (withoutTrailingCommas.ok) return withoutTrailingCommas.value;
+  }
+
+  throw new NarrativeError('malformed_output', 'The model response did not contain a JSON object.');
+};
+
+const buildRepairPrompt = (prompt: string, problems: string[]) =>
+  `${prompt}\n\nYOUR PREVIOUS RESPONSE WAS INVALID:\n${problems.map(problem => `- ${problem}`).join('\n')}\n\nRespond again with only a single JSON object matching the required structure. Do not wrap it in code fences or add any other text.`;
+
+/**
+ * Generate output that must match a schema, repairing and re-prompting as needed
+ * @param request The provider request (without a schema)
+ * @param schema The schema the output must satisfy
+ * @param check Optional further checks on a value that matches the schema;
+ * any problems it returns are sent back to the model like schema errors
+ * @param maxAttempts Total attempts before giving up
+ * @returns The validated value
+ */
+export const generateStructured = async <T>(
+  request: NarrativeRequest,
+  schema: Schema,
+  check?: (value: T) => string[],
+  maxAttempts = MAX_ATTEMPTS
+): Promise<T> => {
+  const provider = getNarrativeProvider();
+  let lastError: NarrativeError | null = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const prompt = lastError
+      ? buildRepairPrompt(request.prompt, lastError.details ?? [lastError.message])
+      : request.prompt;
+
+    let text: string;
+    try {
+      text = await provider.generate({ ...request, prompt, responseSchema: schema });
+    } catch (error) {
+      console.error(`Narrative provider ${provider.name} failed:`, error);
+      throw new NarrativeError('provider_unavailable', 'The narrative provider could not complete the request.');
+    }
+
+    try {
+      const value = extractJson(text);
+      const problems = validateSchema(schema, value);
+      const checked = problems.length === 0 && check ? check(value as T) : problems;
+      if (checked.length === 0) {
+        return value as T;
+      }
+      lastError = new NarrativeError('schema_mismatch', 'The model response did not match the expected structure.', checked);
+    } catch (error) {
+      if (!(error instanceof NarrativeError)) throw error;
+      lastError = new NarrativeError(error.code, error.message, ['The response must be a JSON object.']);
+    }
+
+    console.warn(`Invalid ${request.task} output on attempt ${attempt}/${maxAttempts}:`, lastError.details);
+  }
+
+  throw lastError as NarrativeError;
+};
@@ -25,6 +25,23 @@ export interface Character {
   };
   abilities: Ability[];
   gold: number;
+  statusEffects?: StatusEffect[];
+  equipment: Equipment;
+}
+
+export type EquipmentSlot = 'mainHand' | 'offHand' | 'armor' | 'trinket' | 'relic';
+
+export type Equipment = Partial<Record<EquipmentSlot, Item>>;
+
+// What an equipped item adds to its wearer
+export interface EquipmentBonuses {
+  attack?: number;
+  damage?: number;
+  defence?: number;
+  maxHealth?: number;
+  maxMana?: number;
+  // Added to every heal the wearer casts
+  healing?: number;
 }
 
 // Item types
@@ -37,6 +54,9 @@ export interface Item {
   value: number;
   effects?: ItemEffect[];
   usable: boolean;
+  // Where the item is worn; weapons and armour default to main hand and armour
+  slot?: EquipmentSlot;
+  bonuses?: EquipmentBonuses;
 }
 
 export interface ItemEffect {
@@ -44,6 +64,8 @@ export interface ItemEffect {
   target: 'self' | 'enemy' | 'allies';
   amount: number;
   duration?: number;
+  // For buff and debuff effects: the status applied, with amount as its potency
+  status?: StatusEffectKind;
 }
 
 // Location types
@@ -57,6 +79,35 @@ export interface Location {
   enemies?: Enemy[];
   items?: Item[];
   quests?: Quest[];
+  // Set on locations generated as the player explored beyond the known paths
+  generated?: boolean;
+  // What may set upon the player on arrival; without a table, the enemies
+  // here do
+  encounters?: EncounterTable;
+}
+
+// Random encounters for a location (see app/lib/encounters.ts)
+export interface EncounterTable {
+  // Chance of an encounter on arrival, by time of day; the clock's defaults
+  // fill in any phase left out
+  chance?: Partial<Record<TimePhase, number>>;
+  entries: EncounterEntry[];
+}
+
+export interface EncounterEntry {
+  id: string;
+  // Enemy template id in the content pack
+  enemy: string;
+  // Relative odds against the other entries that can happen right now
+  weight: number;
+  // How many appear together
+  group: { min: number; max: number };
+  // Player levels the entry is rolled for; any when omitted
+  levels?: { min: number; max: number };
+  // Times of day the entry is rolled for; any when omitted
+  during?: TimePhase[];
+  // Hours before the entry can be rolled again at this location
+  cooldown?: number;
 }
 
 // NPC types
@@ -65,22 +116,65 @@ export interface NPC {
   name: string;
   description: string;
   attitude: 'friendly' | 'neutral' | 'hostile';
+  // Conversation tree; the first option is the greeting
   dialog: DialogOption[];
+  // Quests the NPC can hand out from dialog
   quests?: Quest[];
+  // Items the NPC can hand over from dialog
+  gifts?: Item[];
+  // Items for sale right now
   shop?: Item[];
+  merchant?: Merchant;
+  // What the NPC remembers from past free-form conversations, oldest first
+  memory?: string[];
+}
+
+// Trading details for an NPC with a shop
+export interface Merchant {
+  gold: number;
+  // Gold the merchant's purse refills to when restocking
+  baseGold: number;
+  // What the shop restocks to; sold-out lines come back as fresh copies
+  stock: Item[];
+  // Hours between restocks
+  restockInterval: number;
+  // Game hour (see getGameHour) of the last restock
+  lastRestockedAt: number;
+  // When the shop trades; always open when omitted
+  hours?: ShopHours;
 }
 
+// Opening hours as hours of the day; closing before opening means the shop
+// stays open past midnight
+export interface ShopHours {
+  opens: number;
+  closes: number;
+}
+
+// Parts of the day, from the game clock (see app/lib/clock.ts)
+export type TimePhase = 'dawn' | 'day' | 'dusk' | 'night';
+
+// One step of a conversation: what the NPC says and how the player can reply.
+// Conditions and actions are written in the dialog script language (see
+// app/lib/dialog.ts).
 export interface DialogOption {
   id: string;
+  // The NPC's line
   text: string;
+  // Phrases that bring up this topic
   playerResponse: string[];
+  // The player's possible replies
   responses: DialogResponse[];
 }
 
 export interface DialogResponse {
   id: string;
+  // The player's line
   text: string;
+  // Only offered when this holds, e.g. 'gold >= 10 and not has "Iron Key"'
   condition?: string;
+  // Run when chosen, e.g. 'gold -10; give "Iron Key"; goto thanks'. Without
+  // a goto the conversation ends.
   action?: string;
 }
 
@@ -101,6 +195,30 @@ export interface Enemy {
   drops: Item[];
   experience: number;
   gold: number;
+  statusEffects?: StatusEffect[];
+  // Effect the enemy's attacks may inflict on a hit
+  attackEffect?: StatusEffectApplication;
+  // When the enemy is abroad and may set upon travellers; always when omitted
+  activeDuring?: TimePhase[];
+  // How the enemy fights (see app/lib/enemyBehaviour.ts); aggressive when omitted
+  behaviour?: EnemyBehaviour;
+  // Set in combat once the enemy has given up the fight
+  withdrawn?: 'fled' | 'surrendered';
+}
+
+export type EnemyBehaviour = 'aggressive' | 'cautious' | 'support' | 'cowardly';
+
+// What an enemy means to do on its next turn, planned ahead so the player can
+// see it coming
+export interface EnemyIntent {
+  enemyId: string;
+  // A plain attack, one of the enemy's abilities, or giving up the fight
+  kind: 'attack' | 'ability' | 'flee' | 'surrender';
+  abilityId?: string;
+  // The player, the enemy itself or one of its allies
+  targetId: string;
+  // What the player sees, e.g. "Reanimated Skeleton raises its rusted blade high."
+  telegraph: string;
 }
 
 // Ability types
@@ -114,6 +232,34 @@ export interface Ability {
   cooldown: number;
   aoe: boolean;
   type: 'attack' | 'heal' | 'buff' | 'debuff' | 'utility';
+  // Applied to the target on a hit (attack), to the target (debuff) or to the user (buff, heal)
+  statusEffect?: StatusEffectApplication;
+  // Enemies only: the ability is saved until health falls to this fraction of
+  // its maximum; the healed combatant's for heals, the user's own otherwise
+  useBelow?: number;
+  // Enemies only: how the ability shows before it lands, e.g. "raises its
+  // rusted blade high"; {target} names the target
+  telegraph?: string;
+}
+
+// Status effect types
+export type StatusEffectKind = 'poison' | 'bleed' | 'stun' | 'weakness' | 'blessing' | 'regeneration';
+
+export interface StatusEffect {
+  kind: StatusEffectKind;
+  // Ticks left: the bearer's turns in combat, hours outside it
+  duration: number;
+  potency: number;
+  stacks: number;
+  source?: string;
+}
+
+export interface StatusEffectApplication {
+  kind: StatusEffectKind;
+  duration: number;
+  potency: number;
+  // Chance to take hold, from 0 to 1; always applies when omitted
+  chance?: number;
 }
 
 // Quest types
@@ -154,10 +300,80 @@ export interface GameLogEntry {
 // Combat state
 export interface CombatState {
   inCombat: boolean;
+  // Every enemy in the fight; defeated enemies stay with 0 health for rewards
   enemies: Enemy[];
   playerTurn: boolean;
   round: number;
   combatLog: string[];
+  // Combatant ids in initiative order; the player is 'player'
+  turnOrder: string[];
+  turnIndex: number;
+  // Player turns left before each ability can be used again, by ability id
+  cooldowns: Record<string, number>;
+  // The same for each enemy's abilities, in the enemy's turns, by enemy id
+  enemyCooldowns: Record<string, Record<string, number>>;
+  // What each enemy still fighting means to do next, by enemy id
+  intents: Record<string, EnemyIntent>;
+}
+
+// Outcome of a single combat action
+export interface CombatResult {
+  round: number;
+  actorId: string;
+  actorName: string;
+  targetId: string;
+  targetName: string;
+  action: string;
+  // Set when the action was one of the actor's abilities
+  abilityId?: string;
+  // 'effect' is a non-damaging ability landing, 'status' is damage or healing
+  // from status effects, 'stunned' is a lost turn, and 'fled' and
+  // 'surrendered' are an enemy giving up the fight
+  outcome: 'hit' | 'critical' | 'miss' | 'heal' | 'effect' | 'status' | 'stunned' | 'fled' | 'surrendered';
+  // Attack roll (d20 plus bonus) against the target's defence
+  roll: number;
+  defence: number;
+  damage: number;
+  healing?: number;
+  // Status effects this action applied to the target
+  appliedEffects?: StatusEffectKind[];
+  targetHealth: number;
+  defeated: boolean;
+}
+
+// Spoils handed out when every enemy is defeated
+export interface CombatRewards {
+  experience: number;
+  gold: number;
+  items: Item[];
+}
+
+// Everything that happened from one player action until their next turn;
+// the narrator treats this as authoritative
+export interface CombatRoundOutcome {
+  results: CombatResult[];
+  status: 'ongoing' | 'victory' | 'defeat';
+  damageDealt: number;
+  damageTaken: number;
+  defeatedEnemies: string[];
+  rewards: CombatRewards | null;
+  // What the enemies still fighting mean to do next, in turn order
+  intents: EnemyIntent[];
+}
+
+// What happens when the player falls: wake at the campaign's respawn point at
+// a cost, go back to the last save, or (hardcore) lose the character for good
+export type DefeatConsequence = 'respawn' | 'reload' | 'permadeath';
+
+// The player's death, kept until they accept its consequence
+export interface DefeatRecord {
+  characterName: string;
+  characterClass: CharacterClass;
+  level: number;
+  // Who or what dealt the killing blow
+  killedBy: string;
+  locationName: string;
+  consequence: DefeatConsequence;
 }
 
 // Game state
@@ -168,7 +384,21 @@ export interface GameState {
   quests: Quest[];
   combat: CombatState | null;
   visitedLocations: string[];
+  // Minutes since the world began
   gameTime: number;
+  // The world as the player has changed it (items taken, etc.), keyed by id
+  locations: Record<string, Location>;
+  defeatConsequence: DefeatConsequence;
+  defeat: DefeatRecord | null;
+  // Game time until which each encounter is resting, by "locationId:entryId"
+  encounterCooldowns: Record<string, number>;
+  // Enemies the player spotted before they noticed, waiting on the player
+  encounter: PendingEncounter | null;
+}
+
+export interface PendingEncounter {
+  locationId: string;
+  enemies: Enemy[];
 }
 
 // AI Response types
@@ -181,4 +411,85 @@ export interface NarrativeResponse {
 export interface CharacterDescriptionResponse {
   text: string;
   imagePrompt?: string;
-} 
\ No newline at end of file
+}
+
+export interface EpitaphResponse {
+  text: string;
+}
+
+// A line spoken in a free-form conversation with an NPC
+export interface ConversationLine {
+  speaker: 'player' | 'npc';
+  text: string;
+}
+
+export interface ConversationResponse {
+  // The NPC's reply, in their own voice
+  reply: string;
+  // How the NPC feels about the player after this exchange
+  attitude: NPC['attitude'];
+  // Something worth remembering about the exchange, if anything
+  memory?: string;
+  // Whether a hostile NPC attacks the player
+  attack?: boolean;
+}
+
+// A side quest as the Dungeon Master proposes it. Rewards are not part of the
+// proposal; the game scales them to the player's level.
+export interface SideQuestDraft {
+  name: string;
+  description: string;
+  objectives: SideQuestDraftObjective[];
+  // Enemies and items the quest adds to the world for its objectives
+  spawns?: SideQuestSpawn[];
+}
+
+export interface SideQuestDraftObjective {
+  description: string;
+  type: QuestObjective['type'];
+  // The name or id of a location, enemy, NPC or item
+  target: string;
+  count: number;
+}
+
+// A new location as the narrator proposes it. Connections, enemy levels
+// and item values are decided by the game.
+export interface LocationDraft {
+  name: string;
+  description: string;
+  enemies: { name: string; description: string }[];
+  items: { name: string; description: string; type: 'weapon' | 'armor' | 'potion' | 'misc'; rarity: Item['rarity'] }[];
+  // Ids of the origin's neighbours the new location also borders
+  alsoConnectsTo?: string[];
+}
+
+export interface SideQuestSpawn {
+  kind: 'enemy' | 'item';
+  name: string;
+  description: string;
+  // An existing location the enemy or item is placed in
+  locationId: string;
+}
+
+// Dungeon Master tool calls: whitelisted state changes the narrator may request
+export type DungeonMasterCall =
+  | {
+      name: 'addItemToInventory';
+      args: {
+        name: string;
+        description: string;
+        type: 'weapon' | 'armor' | 'potion' | 'misc';
+        rarity: Item['rarity'];
+        value: number;
+        healAmount?: number;
+      };
+    }
+  | { name: 'startCombat'; args: { enemyId?: string; enemyName?: string; description?: string; level?: number; behaviour?: EnemyBehaviour } }
+  | { name: 'gainExperience'; args: { amount: number; reason: string } }
+  | { name: 'moveToLocation'; args: { locationId: string } }
+  | { name: 'updateQuestProgress'; args: { questId: string; objectiveId: string; amount: number } };
+
+// Events sent over a narrative stream
+export type NarrativeStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'call'; call: DungeonMasterCall };